@@ -1,10 +1,14 @@
-import { onCall, HttpsError } from "firebase-functions/v2/https";
-import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { onCall, onRequest, HttpsError } from "firebase-functions/v2/https";
+import { onDocumentWritten, onDocumentCreated, onDocumentUpdated } from "firebase-functions/v2/firestore";
 import { onSchedule } from "firebase-functions/v2/scheduler";
 import { setGlobalOptions } from "firebase-functions/v2";
 import * as logger from "firebase-functions/logger";
 import * as admin from "firebase-admin";
 import * as crypto from "crypto";
+import * as dns from "dns";
+import * as net from "net";
+import * as http from "http";
+import * as https from "https";
 
 const Razorpay = require("razorpay");
 
@@ -21,6 +25,28 @@ const getRazorpay = () => {
     });
 };
 
+const REPLACEMENT_PLAN_ID = "replacement";
+
+/**
+ * Replacement pricing is only for the caller's own suspended card, once per card.
+ * Pass the transaction that records the replacement so the check and the claim can't race.
+ */
+const assertReplacementEligible = async (userId: string, cardId?: string, transaction?: admin.firestore.Transaction) => {
+    if (!cardId) {
+        throw new HttpsError("invalid-argument", "Replacement orders must reference the lost card.");
+    }
+    const cardRef = db.collection("cards").doc(cardId);
+    const cardSnap = await (transaction ? transaction.get(cardRef) : cardRef.get());
+    const card = cardSnap.data();
+    if (!cardSnap.exists || card?.uid !== userId || card?.status !== "suspended") {
+        throw new HttpsError("failed-precondition", "Replacement pricing is only available for your own suspended cards.");
+    }
+    if (card.replacementOrderId) {
+        throw new HttpsError("already-exists", "A replacement has already been ordered for this card.");
+    }
+    return cardRef;
+};
+
 /**
  * 1. Create Purchase (Callable - Gen 2)
  */
@@ -33,10 +59,14 @@ export const createPurchase = onCall({ cors: true }, async (request) => {
         throw new HttpsError("unauthenticated", "User must be logged in (Server Check Failed).");
     }
 
-    const { planId } = request.data;
+    const { planId, replacesCardId } = request.data;
     const userId = request.auth.uid;
 
     try {
+        if (planId === REPLACEMENT_PLAN_ID) {
+            await assertReplacementEligible(userId, replacesCardId);
+        }
+
         // A. Fetch Plan Source of Truth
         const planDoc = await db.collection("plans").doc(planId).get();
         let planData = planDoc.exists ? planDoc.data() : null;
@@ -46,6 +76,7 @@ export const createPurchase = onCall({ cors: true }, async (request) => {
             if (planId === 'plus') planData = { name: "Plus", price: 499 };
             else if (planId === 'platinum') planData = { name: "Platinum", price: 999 };
             else if (planId === 'ultra') planData = { name: "Ultra Premium", price: 1499 };
+            else if (planId === REPLACEMENT_PLAN_ID) planData = { name: "Replacement Card", price: 199 };
             else throw new HttpsError("not-found", "Plan not found");
         }
 
@@ -70,6 +101,7 @@ export const createPurchase = onCall({ cors: true }, async (request) => {
 
     } catch (error: any) {
         logger.error("Create Purchase Error:", error);
+        if (error instanceof HttpsError) throw error;
         throw new HttpsError("internal", error.message);
     }
 });
@@ -85,7 +117,8 @@ export const verifyPurchase = onCall({ cors: true }, async (request) => {
         planId,
         shippingDetails,
         customization,
-        formSnapshot
+        formSnapshot,
+        replacesCardId
     } = request.data;
 
     if (!request.auth) {
@@ -115,6 +148,7 @@ export const verifyPurchase = onCall({ cors: true }, async (request) => {
             if (planId === 'plus') planData = { name: "Plus", price: 499 };
             else if (planId === 'platinum') planData = { name: "Platinum", price: 999 };
             else if (planId === 'ultra') planData = { name: "Ultra Premium", price: 1499 };
+            else if (planId === REPLACEMENT_PLAN_ID) planData = { name: "Replacement Card", price: 199 };
             else throw new HttpsError("not-found", "Plan not found");
         }
 
@@ -138,18 +172,29 @@ export const verifyPurchase = onCall({ cors: true }, async (request) => {
             shippingDetails,
             customization: customization || {},
             formSnapshot: formSnapshot || [],
+            ...(replacesCardId ? { replacesCardId } : {}),
             timeline: [
                 { status: "Order Initiated", date: new Date().toISOString(), completed: true },
                 { status: "Payment Received", date: new Date().toISOString(), completed: true }
             ]
         };
 
-        const orderRef = await db.collection("orders").add(orderData);
+        // 4. Replacements re-check the lost card and claim it in the same transaction as the
+        //    order, so two verifies for one card can't both create a replacement
+        const orderRef = db.collection("orders").doc();
+        await db.runTransaction(async (transaction) => {
+            if (planId === REPLACEMENT_PLAN_ID) {
+                const cardRef = await assertReplacementEligible(userId, replacesCardId, transaction);
+                transaction.update(cardRef, { replacementOrderId: orderRef.id });
+            }
+            transaction.create(orderRef, orderData);
+        });
 
         return { success: true, orderId: orderRef.id };
 
     } catch (error: any) {
         logger.error("Verification Error:", error);
+        if (error instanceof HttpsError) throw error;
         throw new HttpsError("internal", error.message);
     }
 });
@@ -305,53 +350,2966 @@ export const verifyPin = onCall(async (request) => {
     };
 });
 
+// Days of per-day counts kept on stats/main for trend charts (team analytics)
+const STATS_DAILY_WINDOW_DAYS = 90;
+
+// Profiles aggregated per batch, and how long one run may keep pulling batches.
+// Whatever is left over stays marked and is picked up by the next run.
+const STATS_BATCH_SIZE = 100;
+const STATS_RUN_BUDGET_MS = 8 * 60 * 1000;
+
+// A batch or a transaction
+type FirestoreWriter = {
+    set: (ref: admin.firestore.DocumentReference, data: admin.firestore.DocumentData, options: admin.firestore.SetOptions) => unknown;
+};
+
+/**
+ * Flags a profile for the next aggregateStats run. Markers live in
+ * stats_dirty/{uid} and are cleared once the profile's stats are rewritten.
+ */
+const markStatsDirty = (writer: FirestoreWriter, uid: string) => {
+    writer.set(db.collection("stats_dirty").doc(uid), {
+        uid,
+        dirtyAt: admin.firestore.FieldValue.serverTimestamp()
+    }, { merge: true });
+};
+
+// Rebuilds users/{uid}/stats/main from the analytics rollups
+const aggregateUserStats = async (uid: string) => {
+    const analyticsRef = db.collection("users").doc(uid).collection("analytics");
+    const dailyCutoff = new Date(Date.now() - STATS_DAILY_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    const [totalsSnap, dailySnap] = await Promise.all([
+        analyticsRef.doc("totals").get(),
+        analyticsRef.where("date", ">=", dailyCutoff).get()
+    ]);
+
+    const types = totalsSnap.data()?.types || {};
+    const totalViews = types.view || 0;
+    const totalTaps = types.tap || 0;
+    const totalContacts = types.contact_saved || 0;
+
+    // Calculate engagement (e.g., taps / views)
+    const engagementRate = totalViews > 0 ? ((totalTaps + totalContacts) / totalViews) * 100 : 0;
+
+    // Per-day counts keyed by YYYY-MM-DD (UTC)
+    const daily: Record<string, { views: number; taps: number; contacts: number }> = {};
+    dailySnap.docs.forEach(d => {
+        const dayTypes = d.data().types || {};
+        daily[d.id] = { views: dayTypes.view || 0, taps: dayTypes.tap || 0, contacts: dayTypes.contact_saved || 0 };
+    });
+
+    // Save to "stats" doc
+    await db.collection("users").doc(uid).collection("stats").doc("main").set({
+        totalViews,
+        totalTaps,
+        totalContacts,
+        engagementRate: parseFloat(engagementRate.toFixed(1)),
+        daily,
+        lastUpdated: admin.firestore.FieldValue.serverTimestamp()
+    }, { mergeFields: ["totalViews", "totalTaps", "totalContacts", "engagementRate", "daily", "lastUpdated"] });
+};
+
 /**
  * Aggregates stats for dashboard.
- * Scheduled to run every hour.
+ * Scheduled to run every hour. Only profiles with new activity (a stats_dirty marker)
+ * are processed, oldest first, in batches until the time budget runs out.
+ * Run metrics go to system/aggregateStats (latest) and system/aggregateStats/runs.
+ */
+export const aggregateStats = onSchedule({ schedule: "every 1 hours", timeoutSeconds: 540 }, async () => {
+    const startedAt = Date.now();
+    let usersProcessed = 0;
+    let failures = 0;
+    const failedUids: string[] = [];
+    let hasMore = true;
+
+    while (hasMore && Date.now() - startedAt < STATS_RUN_BUDGET_MS) {
+        const dirtySnap = await db.collection("stats_dirty")
+            .orderBy("dirtyAt")
+            .limit(STATS_BATCH_SIZE)
+            .get();
+
+        hasMore = dirtySnap.size === STATS_BATCH_SIZE;
+        if (dirtySnap.empty) break;
+
+        for (const marker of dirtySnap.docs) {
+            const uid = marker.id;
+            try {
+                await aggregateUserStats(uid);
+                // Only clear the marker if no new activity arrived while we were aggregating
+                await marker.ref.delete({ lastUpdateTime: marker.updateTime });
+                usersProcessed++;
+            } catch (error) {
+                const code = (error as { code?: number }).code;
+                if (code === 9) {
+                    // FAILED_PRECONDITION: marker was touched again, leave it for the next batch
+                    usersProcessed++;
+                    continue;
+                }
+                failures++;
+                if (failedUids.length < 20) failedUids.push(uid);
+                logger.error(`Error aggregating for user ${uid}`, error);
+                // Move it to the back of the queue so one bad profile can't stall the rest
+                await marker.ref.set({
+                    dirtyAt: admin.firestore.FieldValue.serverTimestamp(),
+                    attempts: admin.firestore.FieldValue.increment(1),
+                    lastError: (error as Error).message || "Unknown error"
+                }, { merge: true }).catch(() => undefined);
+            }
+        }
+    }
+
+    const metrics = {
+        startedAt: admin.firestore.Timestamp.fromMillis(startedAt),
+        finishedAt: admin.firestore.FieldValue.serverTimestamp(),
+        durationMs: Date.now() - startedAt,
+        usersProcessed,
+        failures,
+        failedUids,
+        backlogRemaining: hasMore,
+        // Firestore TTL policy on this field prunes old run history
+        expiresAt: admin.firestore.Timestamp.fromMillis(startedAt + 30 * 24 * 60 * 60 * 1000)
+    };
+
+    const systemRef = db.collection("system").doc("aggregateStats");
+    await Promise.all([
+        systemRef.set({ lastRun: metrics }, { merge: true }),
+        systemRef.collection("runs").add(metrics)
+    ]);
+
+    logger.info(`[Stats] Aggregated ${usersProcessed} profiles in ${metrics.durationMs}ms (${failures} failed${hasMore ? ", backlog remaining" : ""})`);
+});
+
+// Taps from the same device on the same card inside this window count once
+const TAP_DEDUPE_WINDOW_MS = 30 * 60 * 1000;
+
+// Origin of the web app, e.g. "https://nxcbadge.com". Tap redirects and email links are
+// built on it, so it must be absolute: a relative redirect breaks when the function is
+// called on its own URL instead of through the Hosting rewrites.
+const APP_BASE_URL = (process.env.APP_BASE_URL || "https://nxcbadge.com").replace(/\/+$/, "");
+if (!/^https?:\/\/[^/?#]+$/i.test(APP_BASE_URL)) {
+    throw new Error(`APP_BASE_URL must be an absolute origin like https://nxcbadge.com (got "${APP_BASE_URL}")`);
+}
+
+const UTM_KEYS = ["source", "medium", "campaign", "term", "content", "id"] as const;
+
+interface VisitorContext {
+    device: "mobile" | "tablet" | "desktop" | "bot";
+    os: string;
+    browser: string;
+    city?: string;
+    country?: string;
+    location?: string; // "City, CC" for display
+}
+
+// Coarse device/OS/browser from a user agent. Order matters: Edge and Opera also say "Chrome".
+const parseUserAgent = (ua: string): Pick<VisitorContext, "device" | "os" | "browser"> => {
+    const device: VisitorContext["device"] = /bot|crawl|spider|slurp|preview/i.test(ua) ? "bot"
+        : /ipad|tablet|(android(?!.*mobile))/i.test(ua) ? "tablet"
+            : /mobi|iphone|ipod|android/i.test(ua) ? "mobile"
+                : "desktop";
+
+    const os = /iphone|ipad|ipod/i.test(ua) ? "iOS"
+        : /android/i.test(ua) ? "Android"
+            : /windows/i.test(ua) ? "Windows"
+                : /cros/i.test(ua) ? "ChromeOS"
+                    : /mac os x|macintosh/i.test(ua) ? "macOS"
+                        : /linux/i.test(ua) ? "Linux"
+                            : "Other";
+
+    const browser = /edg\//i.test(ua) ? "Edge"
+        : /opr\/|opera/i.test(ua) ? "Opera"
+            : /samsungbrowser/i.test(ua) ? "Samsung Internet"
+                : /crios|chrome/i.test(ua) ? "Chrome"
+                    : /fxios|firefox/i.test(ua) ? "Firefox"
+                        : /safari/i.test(ua) ? "Safari"
+                            : "Other";
+
+    return { device, os, browser };
+};
+
+// The GeoIP database is large, so it's only loaded by the functions that use it
+let geoipModule: typeof import("geoip-lite") | null = null;
+
+/**
+ * Parsed user agent plus city/country from the bundled offline GeoIP database.
+ * Neither the raw IP nor the raw user agent is returned.
+ */
+const getVisitorContext = async (ip: string, userAgent: string): Promise<VisitorContext> => {
+    const context: VisitorContext = parseUserAgent(userAgent);
+    geoipModule = geoipModule || await import("geoip-lite");
+    const geo = ip && ip !== "unknown" ? geoipModule.lookup(ip) : null;
+    if (geo?.country) {
+        context.country = geo.country;
+        if (geo.city) context.city = geo.city;
+        context.location = geo.city ? `${geo.city}, ${geo.country}` : geo.country;
+    }
+    return context;
+};
+
+// Client IP as seen by Google's front end, which appends it as the last X-Forwarded-For hop.
+// Earlier entries (and req.ip, which Express takes from the first one) are client-supplied.
+const getRequestIp = (req: { headers: Record<string, string | string[] | undefined>; ip?: string }) =>
+    String(req.headers["x-forwarded-for"] || "").split(",").pop()?.trim() || req.ip || "unknown";
+
+// utm_* query params as { source, medium, ... }
+const getUtmParams = (query: Record<string, unknown>): Record<string, string> => {
+    const utm: Record<string, string> = {};
+    UTM_KEYS.forEach(key => {
+        const value = query[`utm_${key}`];
+        if (typeof value === "string" && value) utm[key] = value.slice(0, 100);
+    });
+    return utm;
+};
+
+// Signed-in visitor, from the HttpOnly session cookie set by sessionCookie
+// (`__session` is the only cookie Hosting forwards to functions)
+const SESSION_COOKIE_NAME = "__session";
+const SESSION_COOKIE_MAX_AGE_MS = 5 * 24 * 60 * 60 * 1000;
+
+const getSessionUid = async (req: { headers: Record<string, string | string[] | undefined> }) => {
+    const cookie = String(req.headers.cookie || "").match(/(?:^|;\s*)__session=([^;]+)/)?.[1];
+    if (!cookie) return undefined;
+    try {
+        return (await admin.auth().verifySessionCookie(cookie)).uid;
+    } catch {
+        return undefined;
+    }
+};
+
+// Referrer host only (e.g. "www.linkedin.com")
+const getReferrerHost = (referrer: unknown): string | undefined => {
+    if (typeof referrer !== "string" || !referrer) return undefined;
+    try {
+        return new URL(referrer).hostname;
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Resolves a card ID to its owner through the `cards` registry.
+ * Only "active" cards resolve to a profile; "suspended" ones are flagged so the caller can
+ * show the holding page. Legacy docs that carry just a `uid` count as active.
+ * For /t/:nfcId, a user's old `nfcId` field is registered as a card on first tap, but only
+ * when exactly one user carries that ID.
+ */
+const resolveCardOwner = async (kind: string, id: string): Promise<{ uid?: string; username?: string; personaId?: string; suspended?: boolean } | null> => {
+    const cardRef = db.collection("cards").doc(id);
+    const cardSnap = await cardRef.get();
+    let uid: string | undefined;
+    let personaId: string | undefined;
+
+    if (cardSnap.exists) {
+        const card = cardSnap.data() || {};
+        const status = card.status || (card.uid ? "active" : "minted");
+        if (status === "suspended") return { suspended: true };
+        if (status !== "active") return null;
+        uid = card.uid;
+        personaId = card.personaId;
+    } else if (kind === "t") {
+        const snap = await db.collection("users").where("nfcId", "==", id).limit(2).get();
+        if (snap.size === 1) {
+            uid = snap.docs[0].id;
+            await cardRef.set({
+                uid,
+                status: "active",
+                source: "legacy_nfc",
+                mintedAt: admin.firestore.FieldValue.serverTimestamp(),
+                claimedAt: admin.firestore.FieldValue.serverTimestamp(),
+                activatedAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+        }
+    }
+
+    if (!uid) return null;
+
+    const userSnap = await db.collection("users").doc(uid).get();
+    const userData = userSnap.data();
+    if (!userSnap.exists || !userData || userData.isBanned) return null;
+
+    // Cards routed to a persona open that persona; a deleted persona falls back to the main profile
+    if (personaId) {
+        const personaSnap = await userSnap.ref.collection("personas").doc(personaId).get();
+        if (personaSnap.exists) {
+            return { uid, personaId, username: personaSnap.data()?.username };
+        }
+    }
+
+    return { uid, username: userData.username };
+};
+
+/**
+ * 5. Resolve Card Tap (HTTP - Gen 2)
+ * Served through Hosting rewrites for /t/:nfcId and /c/:cardId; both are card IDs.
+ * Looks up the card in the registry, records the tap server-side (de-duplicated per device)
+ * and 302s the visitor to /@username or /u/:uid (of the card's persona, if it has one).
+ */
+export const resolveCard = onRequest({ memory: "512MiB" }, async (req, res) => {
+    const [, kind, id] = req.path.split("/");
+
+    if ((kind !== "t" && kind !== "c") || !id) {
+        res.redirect(302, `${APP_BASE_URL}/404`);
+        return;
+    }
+
+    try {
+        const owner = await resolveCardOwner(kind, id);
+
+        // Lost/stolen cards land on a neutral page that reveals nothing about the owner
+        if (owner?.suspended) {
+            res.set("Cache-Control", "no-store");
+            res.redirect(302, `${APP_BASE_URL}/card-suspended`);
+            return;
+        }
+
+        if (!owner?.uid) {
+            res.redirect(302, `${APP_BASE_URL}/404`);
+            return;
+        }
+
+        // Device fingerprint: IP + user agent, hashed so we never store either raw
+        const ip = getRequestIp(req);
+        const userAgent = String(req.headers["user-agent"] || "");
+        const deviceHash = crypto.createHash("sha256").update(`${ip}|${userAgent}`).digest("hex");
+        const dedupeRef = db.collection("tap_dedupe").doc(`${id}_${deviceHash}`);
+        const referrer = getReferrerHost(req.headers.referer);
+        const utm = getUtmParams(req.query as Record<string, unknown>);
+        const tapMetadata = {
+            ...(await getVisitorContext(ip, userAgent)),
+            ...(referrer ? { referrer } : {}),
+            ...(Object.keys(utm).length > 0 ? { utm } : {})
+        };
+        const userRef = db.collection("users").doc(owner.uid);
+
+        // Owners tapping their own card aren't counted
+        const isSelfTap = (await getSessionUid(req)) === owner.uid;
+
+        const counted = !isSelfTap && await db.runTransaction(async (transaction) => {
+            const dedupeSnap = await transaction.get(dedupeRef);
+            const lastTapAt = dedupeSnap.exists ? dedupeSnap.data()?.lastTapAt?.toMillis() : 0;
+
+            if (lastTapAt && Date.now() - lastTapAt < TAP_DEDUPE_WINDOW_MS) {
+                return false;
+            }
+
+            transaction.set(dedupeRef, {
+                uid: owner.uid,
+                lastTapAt: admin.firestore.Timestamp.now(),
+                // Firestore TTL policy on this field cleans up stale markers
+                expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + TAP_DEDUPE_WINDOW_MS)
+            });
+            transaction.update(userRef, { "stats.taps": admin.firestore.FieldValue.increment(1) });
+            transaction.create(userRef.collection("interactions").doc(), {
+                type: "tap",
+                timestamp: admin.firestore.FieldValue.serverTimestamp(),
+                name: "Anonymous User",
+                via: "nfc",
+                source: "NFC Card",
+                cardId: id,
+                ...(owner.personaId ? { personaId: owner.personaId } : {}),
+                metadata: tapMetadata,
+                read: false
+            });
+            return true;
+        });
+
+        logger.info(`[ResolveCard] ${kind}/${id} -> ${owner.uid} (${isSelfTap ? "self" : counted ? "counted" : "deduped"})`);
+
+        // origin=tap stops PublicProfile from also logging this visit as a view
+        const target = owner.username
+            ? `/@${owner.username}?origin=tap`
+            : `/u/${owner.uid}?origin=tap${owner.personaId ? `&persona=${owner.personaId}` : ""}`;
+        res.set("Cache-Control", "no-store");
+        res.redirect(302, `${APP_BASE_URL}${target}`);
+
+    } catch (error) {
+        logger.error(`[ResolveCard] Error resolving ${kind}/${id}:`, error);
+        res.redirect(302, `${APP_BASE_URL}/`);
+    }
+});
+
+// Claim codes avoid look-alike characters (0/O, 1/I/L) since they're typed off a printed card
+const CLAIM_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CLAIM_CODE_LENGTH = 8;
+// Claim attempts per caller per window, so codes can't be guessed in bulk
+const CLAIM_RATE_LIMIT = 10;
+const CLAIM_RATE_WINDOW_MS = 60 * 60 * 1000;
+const CARD_ID_LENGTH = 10;
+
+const randomString = (alphabet: string, length: number) => {
+    const bytes = crypto.randomBytes(length);
+    return Array.from(bytes, (b) => alphabet[b % alphabet.length]).join("");
+};
+
+// Accepts "abcd-efgh", "ABCD EFGH" etc.
+const normalizeClaimCode = (code: string) => String(code || "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+const hashClaimCode = (cardId: string, code: string) =>
+    crypto.createHash("sha256").update(`${cardId}:${normalizeClaimCode(code)}`).digest("hex");
+
+const isAdminToken = (token?: Record<string, unknown>) => token?.admin === true || token?.super_admin === true;
+
+// Fresh card ID + claim code; the plain code is returned once and only its hash is stored
+const newCardCredentials = () => {
+    const cardId = randomString("abcdefghijkmnpqrstuvwxyz23456789", CARD_ID_LENGTH);
+    const claimCode = randomString(CLAIM_CODE_ALPHABET, CLAIM_CODE_LENGTH);
+    return {
+        cardId,
+        claimCode: `${claimCode.slice(0, 4)}-${claimCode.slice(4)}`,
+        codeHash: hashClaimCode(cardId, claimCode)
+    };
+};
+
+/**
+ * 6. Session Cookie (HTTP - Gen 2)
+ * Served through Hosting at /session. POST swaps the app's ID token (Authorization: Bearer)
+ * for an HttpOnly `__session` cookie, which resolveCard reads to skip the owner's own taps;
+ * page scripts never see it. DELETE clears it on sign-out.
+ */
+export const sessionCookie = onRequest(async (req, res) => {
+    res.set("Cache-Control", "no-store");
+    const cookieOptions = { path: "/", httpOnly: true, secure: true, sameSite: "lax" as const };
+
+    if (req.method === "DELETE") {
+        res.clearCookie(SESSION_COOKIE_NAME, cookieOptions);
+        res.status(204).send();
+        return;
+    }
+    if (req.method !== "POST") {
+        res.status(405).send("Method not allowed");
+        return;
+    }
+
+    const idToken = String(req.headers.authorization || "").match(/^Bearer (.+)$/)?.[1];
+    if (!idToken) {
+        res.status(401).send("Unauthorized");
+        return;
+    }
+
+    try {
+        const cookie = await admin.auth().createSessionCookie(idToken, { expiresIn: SESSION_COOKIE_MAX_AGE_MS });
+        res.cookie(SESSION_COOKIE_NAME, cookie, { ...cookieOptions, maxAge: SESSION_COOKIE_MAX_AGE_MS });
+        res.status(204).send();
+    } catch (error) {
+        logger.warn("[Session] Could not create session cookie:", error);
+        res.status(401).send("Unauthorized");
+    }
+});
+
+/**
+ * 7. Mint Cards (Callable - Gen 2, Admin only)
+ * Creates `count` unassigned cards. Each gets a one-time claim code which is
+ * returned here ONCE for printing; only its hash is kept (in `card_secrets`).
+ */
+export const mintCards = onCall(async (request) => {
+    if (!request.auth || !isAdminToken(request.auth.token)) {
+        throw new HttpsError("permission-denied", "Only admins can mint cards.");
+    }
+
+    const count = Number(request.data?.count);
+    if (!Number.isInteger(count) || count < 1 || count > 200) {
+        throw new HttpsError("invalid-argument", "Count must be between 1 and 200.");
+    }
+
+    const minted: { cardId: string; claimCode: string }[] = [];
+    const batch = db.batch();
+
+    for (let i = 0; i < count; i++) {
+        const { cardId, claimCode, codeHash } = newCardCredentials();
+
+        batch.create(db.collection("cards").doc(cardId), {
+            status: "minted",
+            source: "minted",
+            mintedAt: admin.firestore.FieldValue.serverTimestamp(),
+            mintedBy: request.auth.uid
+        });
+        batch.create(db.collection("card_secrets").doc(cardId), { codeHash });
+
+        minted.push({ cardId, claimCode });
+    }
+
+    await batch.commit();
+    logger.info(`[MintCards] ${request.auth.uid} minted ${count} cards`);
+
+    return { cards: minted };
+});
+
+/**
+ * 8. Claim Card (Callable - Gen 2)
+ * Binds an unclaimed card to the caller after checking its claim code, all in one
+ * transaction so two people can't race for the same card. The code is cleared once the
+ * card is claimed, so a released card can't be claimed again with the printed code; the
+ * account that last claimed it can re-link it without one.
+ * Cards already bound to the caller (assigned to their order) don't need the code.
+ * Each caller gets CLAIM_RATE_LIMIT attempts per hour.
+ */
+export const claimCard = onCall(async (request) => {
+    if (!request.auth) {
+        throw new HttpsError("unauthenticated", "User must be logged in.");
+    }
+
+    const uid = request.auth.uid;
+    const cardId = String(request.data?.cardId || "");
+    const claimCode = String(request.data?.claimCode || "");
+
+    if (!/^[a-zA-Z0-9]+$/.test(cardId)) {
+        throw new HttpsError("invalid-argument", "Invalid card ID.");
+    }
+
+    if (!(await consumeRateLimit(db.collection("claim_limits").doc(uid), CLAIM_RATE_LIMIT, CLAIM_RATE_WINDOW_MS))) {
+        throw new HttpsError("resource-exhausted", "Too many claim attempts. Please try again later.");
+    }
+
+    const cardRef = db.collection("cards").doc(cardId);
+    const secretRef = db.collection("card_secrets").doc(cardId);
+
+    const result = await db.runTransaction(async (transaction) => {
+        const [cardSnap, secretSnap] = await Promise.all([transaction.get(cardRef), transaction.get(secretRef)]);
+
+        if (!cardSnap.exists) {
+            throw new HttpsError("not-found", "Card not found. Check the URL printed on your card.");
+        }
+
+        const card = cardSnap.data() || {};
+        const status = card.status || (card.uid ? "active" : "minted");
+
+        if (card.uid && card.uid !== uid) {
+            throw new HttpsError("already-exists", "This card is already linked to another account.");
+        }
+        if (card.uid === uid && status !== "assigned") {
+            return { status, codeOk: true };
+        }
+        if (status !== "minted" && status !== "assigned") {
+            throw new HttpsError("failed-precondition", `This card can't be claimed (${status}).`);
+        }
+
+        // Order-bound cards already belong to the caller, and whoever released a card can
+        // link it again; everyone else needs the code
+        const secret = secretSnap.data();
+        const isRelink = status === "minted" && secret?.lastClaimedBy === uid;
+        if (card.uid !== uid && !isRelink) {
+            if (!claimCode) {
+                throw new HttpsError("invalid-argument", "Enter the claim code printed on your card or its box.");
+            }
+            if (!secret?.codeHash) {
+                throw new HttpsError("failed-precondition", "This card has no claim code. Please contact support.");
+            }
+
+            const expected = Buffer.from(secret.codeHash, "hex");
+            const given = Buffer.from(hashClaimCode(cardId, claimCode), "hex");
+            if (!crypto.timingSafeEqual(expected, given)) {
+                return { status, codeOk: false };
+            }
+        }
+
+        // Single use: the printed code stops working once the card has been claimed
+        if (secretSnap.exists) {
+            transaction.update(secretRef, {
+                codeHash: admin.firestore.FieldValue.delete(),
+                lastClaimedAt: admin.firestore.FieldValue.serverTimestamp(),
+                lastClaimedBy: uid
+            });
+        }
+
+        transaction.update(cardRef, {
+            uid,
+            status: "claimed",
+            claimedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+        return { status: "claimed", codeOk: true };
+    });
+
+    if (!result.codeOk) {
+        throw new HttpsError("permission-denied", "Incorrect claim code.");
+    }
+
+    logger.info(`[ClaimCard] ${uid} claimed ${cardId}`);
+    return { cardId, status: result.status };
+});
+
+// Card URLs saved under users/{uid}/cards before the registry existed
+const LEGACY_CARD_URL_PATTERN = /^(?:https?:\/\/)?(?:www\.)?nxcbadge\.com\/[ct]\/([a-zA-Z0-9]+)\/?$/;
+// Link docs written after the registry went live are not legacy and are never migrated
+const CARD_REGISTRY_LAUNCH = admin.firestore.Timestamp.fromDate(new Date(process.env.CARD_REGISTRY_LAUNCH || "2026-10-19T16:00:00Z"));
+
+/**
+ * 9. Migrate Legacy Card Links (Callable - Gen 2)
+ * Moves the caller's old `users/{uid}/cards` link docs into the registry as active cards,
+ * then removes them. Only docs created before the registry launch are considered, so a
+ * link written since can't stand in for a claim code. Registry cards (minted, or someone
+ * else's) and IDs that are another user's `nfcId` are skipped and their link docs left in place.
+ */
+export const migrateLegacyCardLinks = onCall(async (request) => {
+    if (!request.auth) {
+        throw new HttpsError("unauthenticated", "User must be logged in.");
+    }
+
+    const uid = request.auth.uid;
+    const legacySnap = await db.collection("users").doc(uid).collection("cards").get();
+    let migrated = 0;
+
+    for (const legacyDoc of legacySnap.docs) {
+        if (legacyDoc.createTime.toMillis() >= CARD_REGISTRY_LAUNCH.toMillis()) continue;
+        const cardId = String(legacyDoc.data().cardUrl || "").trim().match(LEGACY_CARD_URL_PATTERN)?.[1];
+        if (!cardId) continue;
+
+        try {
+            const nfcOwners = await db.collection("users").where("nfcId", "==", cardId).limit(2).get();
+            if (nfcOwners.docs.some((owner) => owner.id !== uid)) continue;
+
+            const cardRef = db.collection("cards").doc(cardId);
+            const moved = await db.runTransaction(async (transaction) => {
+                const cardSnap = await transaction.get(cardRef);
+                if (cardSnap.exists) {
+                    // Already registered: only drop the link if the card is the caller's
+                    return cardSnap.data()?.uid === uid;
+                }
+                transaction.create(cardRef, {
+                    uid,
+                    status: "active",
+                    source: "legacy_link",
+                    mintedAt: admin.firestore.FieldValue.serverTimestamp(),
+                    claimedAt: admin.firestore.FieldValue.serverTimestamp(),
+                    activatedAt: admin.firestore.FieldValue.serverTimestamp()
+                });
+                return true;
+            });
+            if (moved) {
+                await legacyDoc.ref.delete();
+                migrated++;
+            }
+        } catch (error) {
+            logger.warn(`[MigrateCards] Skipping legacy link ${cardId} for ${uid}:`, error);
+        }
+    }
+
+    if (migrated > 0) logger.info(`[MigrateCards] Moved ${migrated} legacy card links for ${uid}`);
+    return { migrated };
+});
+
+// Paid orders that haven't been delivered yet; only these get a new card
+const FULFILLABLE_ORDER_STATUSES = ["order_received", "processing", "shipped"];
+
+/**
+ * 10. Bind Cards To Orders (Callable - Gen 2, Admin only)
+ * Fulfillment step: mints one card per order, binds it to the order and its buyer
+ * ("assigned") and records the card ID on the order. Orders that already have a card
+ * are returned as-is (without a claim code) so the manifest can be re-exported.
+ * Only paid, not yet delivered orders get a new card. Each order is read and bound in
+ * one transaction, so two admins fulfilling at once can't mint two cards for it.
+ * Binding a replacement order revokes the lost card it replaces.
  */
-export const aggregateStats = onSchedule("every 1 hours", async (event) => {
-    // This function would iterate over all users or active users and aggregate their logs.
-    // For scalability, we might only process recent logs.
-    // For this demo, we will aggregate for *all* users (be careful at scale).
+export const bindCardsToOrders = onCall(async (request) => {
+    if (!request.auth || !isAdminToken(request.auth.token)) {
+        throw new HttpsError("permission-denied", "Only admins can fulfill orders.");
+    }
+
+    const orderIds: string[] = Array.isArray(request.data?.orderIds) ? request.data.orderIds.map(String) : [];
+    if (orderIds.length === 0 || orderIds.length > 50) {
+        throw new HttpsError("invalid-argument", "Select between 1 and 50 orders.");
+    }
 
-    const usersSnap = await db.collection("users").get();
-    const validUsers = usersSnap.docs.filter(doc => doc.exists);
+    const results: {
+        orderId: string;
+        userId?: string;
+        recipient?: string;
+        cardId?: string;
+        claimCode?: string | null;
+        error?: string;
+    }[] = [];
 
-    for (const userDoc of validUsers) {
-        const uid = userDoc.id;
+    for (const orderId of orderIds) {
+        const orderRef = db.collection("orders").doc(orderId);
         try {
-            // Count "view" and "tap" interactions
-            const interactionsRef = db.collection("users").doc(uid).collection("interactions");
-            const viewsQuery = interactionsRef.where("type", "==", "view");
-            const tapsQuery = interactionsRef.where("type", "==", "tap");
-            const contactsQuery = interactionsRef.where("type", "==", "contact_saved");
-
-            const [viewsSnap, tapsSnap, contactsSnap] = await Promise.all([
-                viewsQuery.count().get(),
-                tapsQuery.count().get(),
-                contactsQuery.count().get()
-            ]);
-
-            const totalViews = viewsSnap.data().count;
-            const totalTaps = tapsSnap.data().count;
-            const totalContacts = contactsSnap.data().count;
-
-            // Calculate engagement (e.g., taps / views)
-            const engagementRate = totalViews > 0 ? ((totalTaps + totalContacts) / totalViews) * 100 : 0;
-
-            // Save to "stats" doc
-            await db.collection("users").doc(uid).collection("stats").doc("main").set({
-                totalViews,
-                totalTaps,
-                totalContacts,
-                engagementRate: parseFloat(engagementRate.toFixed(1)),
-                lastUpdated: admin.firestore.FieldValue.serverTimestamp()
-            }, { merge: true });
-
-            logger.info(`Aggregated stats for user ${uid}`);
+            const bound = await db.runTransaction(async (transaction) => {
+                const orderSnap = await transaction.get(orderRef);
+                const order = orderSnap.data();
+                if (!orderSnap.exists || !order) {
+                    return [{ orderId, error: "Order not found" }];
+                }
+
+                const recipient = order.shippingDetails?.fullName || "";
+
+                if (Array.isArray(order.cardIds) && order.cardIds.length > 0) {
+                    return order.cardIds.map((cardId: string) => ({ orderId, userId: order.userId, recipient, cardId, claimCode: null }));
+                }
+                if (!FULFILLABLE_ORDER_STATUSES.includes(order.status)) {
+                    return [{ orderId, error: `Order can't be fulfilled (${order.status || "no status"})` }];
+                }
+
+                const { cardId, claimCode, codeHash } = newCardCredentials();
+
+                transaction.create(db.collection("cards").doc(cardId), {
+                    status: "assigned",
+                    source: "minted",
+                    uid: order.userId,
+                    orderId,
+                    mintedAt: admin.firestore.FieldValue.serverTimestamp(),
+                    assignedAt: admin.firestore.FieldValue.serverTimestamp(),
+                    mintedBy: request.auth?.uid
+                });
+                transaction.create(db.collection("card_secrets").doc(cardId), { codeHash });
+                transaction.update(orderRef, { cardIds: admin.firestore.FieldValue.arrayUnion(cardId) });
+
+                if (order.replacesCardId) {
+                    transaction.update(db.collection("cards").doc(order.replacesCardId), {
+                        status: "revoked",
+                        revokedAt: admin.firestore.FieldValue.serverTimestamp(),
+                        replacedBy: cardId
+                    });
+                }
+
+                return [{ orderId, userId: order.userId, recipient, cardId, claimCode }];
+            });
+            results.push(...bound);
 
         } catch (error) {
-            logger.error(`Error aggregating for user ${uid}`, error);
+            logger.error(`[BindCards] Failed for order ${orderId}:`, error);
+            results.push({ orderId, error: (error as Error).message || "Failed to bind card" });
+        }
+    }
+
+    logger.info(`[BindCards] ${request.auth.uid} processed ${orderIds.length} orders`);
+    return { cards: results };
+});
+
+// --- Organizations ---
+
+// Seats a new organization starts with. Platform admins raise it as the company buys more badges.
+const DEFAULT_ORG_SEATS = 5;
+// Orders in these states don't contribute plan limits (mirrors useSubscriptionLimits)
+const INACTIVE_ORDER_STATUSES = ["cancelled", "refunded", "payment_failed", "pending_verification"];
+
+/**
+ * Collects the plan IDs of every active order placed by any member, so the client can
+ * stack limits for the whole organization the same way it does for a single user.
+ */
+const recomputeOrganizationPool = async (orgId: string) => {
+    const orgRef = db.collection("organizations").doc(orgId);
+    const orgSnap = await orgRef.get();
+    if (!orgSnap.exists) return;
+
+    const memberIds: string[] = orgSnap.data()?.memberIds || [];
+    const pooledPlanIds: string[] = [];
+
+    // 'in' queries take at most 30 values
+    for (let i = 0; i < memberIds.length; i += 30) {
+        const snap = await db.collection("orders").where("userId", "in", memberIds.slice(i, i + 30)).get();
+        snap.docs.forEach((orderDoc) => {
+            const order = orderDoc.data();
+            if (order.planId && order.planId !== REPLACEMENT_PLAN_ID && !INACTIVE_ORDER_STATUSES.includes(order.status)) {
+                pooledPlanIds.push(order.planId);
+            }
+        });
+    }
+
+    await orgRef.update({
+        pooledPlanIds,
+        poolUpdatedAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+};
+
+// Moves a member's saved-contacts count into (or out of) the organization's pooled usage
+const adjustOrganizationContacts = async (orgId: string, uid: string, direction: 1 | -1) => {
+    const usageSnap = await db.collection("users").doc(uid).collection("usage").doc("stats").get();
+    const contactsCount = usageSnap.data()?.contactsCount || 0;
+    if (!contactsCount) return;
+    await db.collection("organizations").doc(orgId).collection("usage").doc("stats").set({
+        contactsCount: admin.firestore.FieldValue.increment(direction * contactsCount),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    }, { merge: true });
+};
+
+/**
+ * 11. Create Organization (Callable - Gen 2)
+ * The caller becomes the owner (and first admin) of a new organization.
+ */
+export const createOrganization = onCall(async (request) => {
+    if (!request.auth) {
+        throw new HttpsError("unauthenticated", "User must be logged in.");
+    }
+
+    const uid = request.auth.uid;
+    const name = String(request.data?.name || "").trim();
+    if (!name || name.length > 80) {
+        throw new HttpsError("invalid-argument", "Organization name must be 1-80 characters.");
+    }
+
+    const userRef = db.collection("users").doc(uid);
+    const orgRef = db.collection("organizations").doc();
+
+    await db.runTransaction(async (transaction) => {
+        const userSnap = await transaction.get(userRef);
+        if (!userSnap.exists) {
+            throw new HttpsError("not-found", "User profile not found.");
+        }
+        if (userSnap.data()?.organizationId) {
+            throw new HttpsError("failed-precondition", "You already belong to an organization.");
+        }
+
+        transaction.set(orgRef, {
+            name,
+            ownerId: uid,
+            adminIds: [uid],
+            memberIds: [uid],
+            seats: DEFAULT_ORG_SEATS,
+            branding: {},
+            lockedFields: { company: "", titleTemplates: [] },
+            pooledPlanIds: [],
+            createdAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+        transaction.update(userRef, { organizationId: orgRef.id });
+    });
+
+    await adjustOrganizationContacts(orgRef.id, uid, 1);
+    await recomputeOrganizationPool(orgRef.id);
+
+    logger.info(`[Org] ${uid} created organization ${orgRef.id}`);
+    return { orgId: orgRef.id };
+});
+
+/**
+ * 12. Invite Organization Member (Callable - Gen 2)
+ * Org admins invite by email. Pending invites hold a seat, so members plus pending
+ * invites are checked against `seats` inside the transaction.
+ */
+export const inviteOrgMember = onCall(async (request) => {
+    if (!request.auth) {
+        throw new HttpsError("unauthenticated", "User must be logged in.");
+    }
+
+    const uid = request.auth.uid;
+    const orgId = String(request.data?.orgId || "");
+    const email = String(request.data?.email || "").trim().toLowerCase();
+    if (!orgId || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) || email.length > 200) {
+        throw new HttpsError("invalid-argument", "Please enter a valid email address.");
+    }
+
+    const orgRef = db.collection("organizations").doc(orgId);
+    const pendingQuery = db.collection("org_invites").where("orgId", "==", orgId).where("status", "==", "pending");
+
+    const inviteId = await db.runTransaction(async (transaction) => {
+        const [orgSnap, pendingSnap] = await Promise.all([transaction.get(orgRef), transaction.get(pendingQuery)]);
+        const org = orgSnap.data();
+        if (!orgSnap.exists || !org) {
+            throw new HttpsError("not-found", "Organization not found.");
+        }
+        if (!(org.adminIds || []).includes(uid)) {
+            throw new HttpsError("permission-denied", "Only organization admins can invite members.");
+        }
+        if (pendingSnap.docs.some(d => d.data().email === email)) {
+            throw new HttpsError("already-exists", "This person has already been invited.");
+        }
+        if ((org.memberIds || []).length + pendingSnap.size >= (org.seats || 0)) {
+            throw new HttpsError("resource-exhausted", "All seats are taken. Remove a member or cancel an invite first.");
+        }
+
+        const inviteRef = db.collection("org_invites").doc();
+        transaction.create(inviteRef, {
+            orgId,
+            orgName: org.name || "",
+            email,
+            status: "pending",
+            invitedBy: uid,
+            createdAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+        return inviteRef.id;
+    });
+
+    logger.info(`[Org] ${uid} invited a member to ${orgId}`);
+    return { inviteId };
+});
+
+/**
+ * 13. Accept Organization Invite (Callable - Gen 2)
+ * Invites are addressed to an email; the caller's verified email must match.
+ * Seats are checked inside the transaction so two accepts can't overfill the org.
+ */
+export const acceptOrgInvite = onCall(async (request) => {
+    if (!request.auth) {
+        throw new HttpsError("unauthenticated", "User must be logged in.");
+    }
+
+    const uid = request.auth.uid;
+    const email = String(request.auth.token.email || "").toLowerCase();
+    const inviteId = String(request.data?.inviteId || "");
+    if (!inviteId) {
+        throw new HttpsError("invalid-argument", "Missing invite.");
+    }
+
+    const inviteRef = db.collection("org_invites").doc(inviteId);
+    const userRef = db.collection("users").doc(uid);
+
+    const orgId = await db.runTransaction(async (transaction) => {
+        const inviteSnap = await transaction.get(inviteRef);
+        const invite = inviteSnap.data();
+        if (!inviteSnap.exists || !invite || invite.status !== "pending") {
+            throw new HttpsError("not-found", "This invitation is no longer valid.");
+        }
+        if (!email || invite.email !== email) {
+            throw new HttpsError("permission-denied", "This invitation was sent to a different email address.");
+        }
+
+        const orgRef = db.collection("organizations").doc(invite.orgId);
+        const [orgSnap, userSnap] = await Promise.all([transaction.get(orgRef), transaction.get(userRef)]);
+        const org = orgSnap.data();
+        if (!orgSnap.exists || !org) {
+            throw new HttpsError("not-found", "Organization no longer exists.");
+        }
+
+        const currentOrgId = userSnap.data()?.organizationId;
+        if (currentOrgId && currentOrgId !== invite.orgId) {
+            throw new HttpsError("failed-precondition", "Leave your current organization before joining another.");
+        }
+
+        const memberIds: string[] = org.memberIds || [];
+        if (!memberIds.includes(uid) && memberIds.length >= (org.seats || 0)) {
+            throw new HttpsError("resource-exhausted", "This organization has no free seats.");
+        }
+
+        transaction.update(orgRef, { memberIds: admin.firestore.FieldValue.arrayUnion(uid) });
+        transaction.update(userRef, { organizationId: invite.orgId });
+        transaction.update(inviteRef, {
+            status: "accepted",
+            acceptedBy: uid,
+            respondedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+        return currentOrgId === invite.orgId ? null : invite.orgId as string;
+    });
+
+    if (orgId) {
+        await adjustOrganizationContacts(orgId, uid, 1);
+        await recomputeOrganizationPool(orgId);
+        logger.info(`[Org] ${uid} joined organization ${orgId}`);
+    }
+    return { success: true };
+});
+
+/**
+ * 14. Remove Organization Member (Callable - Gen 2)
+ * Admins can remove members; members can remove themselves (leave).
+ * The owner can't be removed.
+ */
+export const removeOrgMember = onCall(async (request) => {
+    if (!request.auth) {
+        throw new HttpsError("unauthenticated", "User must be logged in.");
+    }
+
+    const uid = request.auth.uid;
+    const orgId = String(request.data?.orgId || "");
+    const memberId = String(request.data?.memberId || "");
+    if (!orgId || !memberId) {
+        throw new HttpsError("invalid-argument", "Missing organization or member.");
+    }
+
+    const orgRef = db.collection("organizations").doc(orgId);
+    const memberRef = db.collection("users").doc(memberId);
+
+    await db.runTransaction(async (transaction) => {
+        const orgSnap = await transaction.get(orgRef);
+        const org = orgSnap.data();
+        if (!orgSnap.exists || !org) {
+            throw new HttpsError("not-found", "Organization not found.");
+        }
+        const isOrgAdmin = (org.adminIds || []).includes(uid);
+        if (memberId !== uid && !isOrgAdmin && !isAdminToken(request.auth?.token)) {
+            throw new HttpsError("permission-denied", "Only organization admins can remove members.");
+        }
+        if (memberId === org.ownerId) {
+            throw new HttpsError("failed-precondition", "The organization owner can't be removed.");
+        }
+        if (!(org.memberIds || []).includes(memberId)) {
+            throw new HttpsError("not-found", "Not a member of this organization.");
+        }
+
+        transaction.update(orgRef, {
+            memberIds: admin.firestore.FieldValue.arrayRemove(memberId),
+            adminIds: admin.firestore.FieldValue.arrayRemove(memberId)
+        });
+        transaction.update(memberRef, { organizationId: admin.firestore.FieldValue.delete() });
+    });
+
+    await adjustOrganizationContacts(orgId, memberId, -1);
+    await recomputeOrganizationPool(orgId);
+
+    logger.info(`[Org] ${memberId} removed from organization ${orgId} by ${uid}`);
+    return { success: true };
+});
+
+/**
+ * 15. Sync Organization Pool (Firestore Trigger)
+ * Keeps `pooledPlanIds` current when a member's order is placed, paid or cancelled.
+ */
+export const syncOrganizationPool = onDocumentWritten("orders/{orderId}", async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    const userId = after?.userId || before?.userId;
+    if (!userId) return;
+
+    // Only status/plan changes affect limits
+    if (before && after && before.status === after.status && before.planId === after.planId) return;
+
+    const userSnap = await db.collection("users").doc(userId).get();
+    const orgId = userSnap.data()?.organizationId;
+    if (!orgId) return;
+
+    try {
+        await recomputeOrganizationPool(orgId);
+    } catch (error) {
+        logger.error(`[Org] Failed to recompute pool for ${orgId}`, error);
+    }
+});
+
+/**
+ * 16. Count Imported Contacts (Firestore Trigger)
+ * Keeps the owner's `usage/stats` contacts count, which only functions may write. Only
+ * imports count against the plan's contact limit; one stays counted after it's deleted
+ * unless it was merged into another contact (listed in that contact's `mergedFrom`).
+ */
+export const countImportedContacts = onDocumentWritten("users/{userId}/contacts/{contactId}", async (event) => {
+    const before = event.data?.before;
+    const after = event.data?.after;
+    const userRef = db.collection("users").doc(event.params.userId);
+    let delta = 0;
+
+    if (!before?.exists && after?.data()?.source === "import") {
+        delta = 1;
+    } else if (before?.exists && !after?.exists && before.data()?.source === "import") {
+        const mergedInto = await userRef.collection("contacts")
+            .where("mergedFrom", "array-contains", event.params.contactId)
+            .limit(1)
+            .get();
+        if (!mergedInto.empty) delta = -1;
+    }
+    if (!delta) return;
+
+    try {
+        await userRef.collection("usage").doc("stats").set({
+            contactsCount: admin.firestore.FieldValue.increment(delta),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        }, { merge: true });
+    } catch (error) {
+        logger.error(`[Usage] Failed to count contact ${event.params.contactId} for ${event.params.userId}`, error);
+    }
+});
+
+/**
+ * 17. Sync Organization Usage (Firestore Trigger)
+ * Adds changes to a member's contact count (see countImportedContacts) to their
+ * organization's pooled usage.
+ */
+export const syncOrganizationUsage = onDocumentWritten("users/{userId}/usage/stats", async (event) => {
+    const delta = (event.data?.after.data()?.contactsCount || 0) - (event.data?.before.data()?.contactsCount || 0);
+    if (!delta) return;
+
+    const userSnap = await db.collection("users").doc(event.params.userId).get();
+    const orgId = userSnap.data()?.organizationId;
+    if (!orgId) return;
+
+    try {
+        await db.collection("organizations").doc(orgId).collection("usage").doc("stats").set({
+            contactsCount: admin.firestore.FieldValue.increment(delta),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        }, { merge: true });
+    } catch (error) {
+        logger.error(`[Org] Failed to sync usage for ${orgId}`, error);
+    }
+});
+
+// --- Analytics rollups ---
+// users/{uid}/analytics/{YYYY-MM-DD} holds one UTC day of interaction counts and
+// users/{uid}/analytics/totals the lifetime sum, so dashboards read a handful of
+// small docs instead of the whole interactions subcollection.
+
+interface AnalyticsRollup {
+    total: number;
+    types: Record<string, number>;
+    sources: Record<string, number>;
+    cards: Record<string, number>;
+    personas: Record<string, Record<string, number>>; // personaId ("default" = main profile) -> type -> count
+    campaigns: Record<string, Record<string, number>>; // utm_campaign -> type -> count
+    links: Record<string, Record<string, number>>; // personaId -> "link_{id}" / "portfolio_{id}" -> clicks
+}
+
+const emptyRollup = (): AnalyticsRollup => ({ total: 0, types: {}, sources: {}, cards: {}, personas: {}, campaigns: {}, links: {} });
+
+const ROLLUP_TYPES = ["view", "tap", "contact_saved", "contact", "link_click", "message"];
+const ROLLUP_MAX_KEYS = 100; // Distinct keys per map; anything past that counts under "other"
+const ROLLUP_EVENT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Interactions from before the rollup trigger went live are only counted by the backfill
+const ROLLUP_LAUNCH = admin.firestore.Timestamp.fromDate(new Date(process.env.ROLLUP_LAUNCH || "2026-10-19T16:30:00Z"));
+
+// Map keys come partly from visitor-written fields, so they're trimmed and reserved names refused
+const rollupKey = (value: unknown, fallback: string) => {
+    const key = String(value ?? "").trim().slice(0, 60);
+    return key && !/^__.*__$/.test(key) ? key : fallback;
+};
+
+// New keys only while the map (as already stored in `known`) has room
+const capRollupKey = (known: Record<string, unknown> | undefined, key: string) =>
+    !known || key in known || Object.keys(known).length < ROLLUP_MAX_KEYS ? key : "other";
+
+/**
+ * Adds one interaction to `rollup`. `known` is the lifetime totals the counts end up in;
+ * map keys it has no room for are folded into "other" so the totals doc stays bounded.
+ */
+const addToRollup = (rollup: AnalyticsRollup, interaction: admin.firestore.DocumentData, known?: admin.firestore.DocumentData) => {
+    const type = ROLLUP_TYPES.includes(interaction.type) ? String(interaction.type) : "other";
+    const source = capRollupKey(known?.sources, rollupKey(interaction.source || interaction.via, "direct"));
+    const personaId = capRollupKey(known?.personas, rollupKey(interaction.personaId, "default"));
+
+    rollup.total++;
+    rollup.types[type] = (rollup.types[type] || 0) + 1;
+    rollup.sources[source] = (rollup.sources[source] || 0) + 1;
+    if (interaction.cardId) {
+        const cardId = capRollupKey(known?.cards, rollupKey(interaction.cardId, "other"));
+        rollup.cards[cardId] = (rollup.cards[cardId] || 0) + 1;
+    }
+    rollup.personas[personaId] = rollup.personas[personaId] || {};
+    rollup.personas[personaId][type] = (rollup.personas[personaId][type] || 0) + 1;
+
+    if (interaction.metadata?.utm?.campaign) {
+        const campaign = capRollupKey(known?.campaigns, rollupKey(interaction.metadata.utm.campaign, "other"));
+        rollup.campaigns[campaign] = rollup.campaigns[campaign] || {};
+        rollup.campaigns[campaign][type] = (rollup.campaigns[campaign][type] || 0) + 1;
+    }
+
+    if (type === "link_click" && interaction.linkId) {
+        const kind = interaction.linkKind === "portfolio" ? "portfolio" : "link";
+        const linkKey = capRollupKey(known?.links?.[personaId], `${kind}_${rollupKey(interaction.linkId, "other")}`);
+        rollup.links[personaId] = rollup.links[personaId] || {};
+        rollup.links[personaId][linkKey] = (rollup.links[personaId][linkKey] || 0) + 1;
+    }
+};
+
+// Wraps every count in an increment so the rollup can be merged into existing docs
+const toIncrements = (value: unknown): unknown => {
+    if (typeof value === "number") return admin.firestore.FieldValue.increment(value);
+    return Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([key, v]) => [key, toIncrements(v)]));
+};
+
+const interactionDay = (interaction: admin.firestore.DocumentData): string => {
+    const when = interaction.timestamp?.toDate ? interaction.timestamp.toDate() : new Date();
+    return when.toISOString().slice(0, 10);
+};
+
+/**
+ * 18. Roll Up Interaction (Firestore Trigger)
+ * Adds each new interaction to its daily bucket and the lifetime totals.
+ * Deleting an interaction later (e.g. clearing notifications) keeps it counted.
+ * Counts are blind increments, so a busy profile's writes don't contend on totals. The
+ * batch also creates a marker per event id (rollup_events), which fails the whole batch
+ * when a redelivered event has already been counted.
+ */
+export const rollupInteraction = onDocumentCreated("users/{userId}/interactions/{interactionId}", async (event) => {
+    const interaction = event.data?.data();
+    if (!interaction) return;
+
+    const day = interactionDay(interaction);
+    const analyticsRef = db.collection("users").doc(event.params.userId).collection("analytics");
+    const markerRef = db.collection("rollup_events").doc(event.id);
+
+    try {
+        // Key caps are checked against a plain read; concurrent events can only overshoot by a few keys
+        const totalsSnap = await analyticsRef.doc("totals").get();
+        const rollup = emptyRollup();
+        addToRollup(rollup, interaction, totalsSnap.data());
+        const increments = toIncrements(rollup) as admin.firestore.DocumentData;
+
+        const batch = db.batch();
+        batch.create(markerRef, {
+            // Firestore TTL policy on this field cleans up old markers
+            expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + ROLLUP_EVENT_TTL_MS)
+        });
+        batch.set(analyticsRef.doc(day), { ...increments, date: day, updatedAt: admin.firestore.FieldValue.serverTimestamp() }, { merge: true });
+        batch.set(analyticsRef.doc("totals"), { ...increments, updatedAt: admin.firestore.FieldValue.serverTimestamp() }, { merge: true });
+        markStatsDirty(batch, event.params.userId);
+        await batch.commit();
+    } catch (error) {
+        if ((error as { code?: number }).code === 6) return; // ALREADY_EXISTS: event already counted
+        logger.error(`[Rollup] Failed for ${event.params.userId}/${event.params.interactionId}`, error);
+    }
+});
+
+/**
+ * 19. Backfill Analytics Rollups (Callable - Gen 2)
+ * Adds interactions from before the rollup trigger went live to the daily buckets and
+ * totals. Counts are merged in as increments, so anything the trigger adds meanwhile is
+ * kept. Runs once per profile: `totals.backfilledAt` is claimed in a transaction first.
+ */
+export const backfillAnalyticsRollups = onCall(async (request) => {
+    if (!request.auth) {
+        throw new HttpsError("unauthenticated", "User must be logged in.");
+    }
+
+    // Admins may backfill any profile
+    const targetUid: string = request.data?.uid && isAdminToken(request.auth.token) ? request.data.uid : request.auth.uid;
+    const analyticsRef = db.collection("users").doc(targetUid).collection("analytics");
+
+    const totalsRef = analyticsRef.doc("totals");
+
+    const claimed = await db.runTransaction(async (transaction) => {
+        const totalsSnap = await transaction.get(totalsRef);
+        if (totalsSnap.data()?.backfilledAt) return null;
+        transaction.set(totalsRef, { backfilledAt: admin.firestore.FieldValue.serverTimestamp() }, { merge: true });
+        return totalsSnap.data() || {};
+    });
+    if (!claimed) {
+        return { success: true, skipped: true };
+    }
+
+    let committed = 0;
+    try {
+        const interactionsSnap = await db.collection("users").doc(targetUid).collection("interactions")
+            .where("timestamp", "<", ROLLUP_LAUNCH)
+            .select("type", "timestamp", "source", "via", "cardId", "personaId", "metadata.utm", "linkId", "linkKind")
+            .get();
+
+        // `known` starts from the stored totals so the key caps cover trigger counts too
+        const known = { ...emptyRollup(), ...claimed } as AnalyticsRollup;
+        const totals = emptyRollup();
+        const days: Record<string, AnalyticsRollup> = {};
+        interactionsSnap.docs.forEach(d => {
+            const interaction = d.data();
+            const day = interactionDay(interaction);
+            days[day] = days[day] || emptyRollup();
+            addToRollup(days[day], interaction, known);
+            addToRollup(totals, interaction, known);
+            addToRollup(known, interaction, known);
+        });
+
+        const entries = Object.entries(days);
+        for (let i = 0; i < entries.length; i += 400) {
+            const batch = db.batch();
+            entries.slice(i, i + 400).forEach(([day, rollup]) => {
+                batch.set(analyticsRef.doc(day), {
+                    ...(toIncrements(rollup) as admin.firestore.DocumentData),
+                    date: day,
+                    updatedAt: admin.firestore.FieldValue.serverTimestamp()
+                }, { merge: true });
+            });
+            await batch.commit();
+            committed++;
+        }
+        const totalsBatch = db.batch();
+        totalsBatch.set(totalsRef, {
+            ...(toIncrements(totals) as admin.firestore.DocumentData),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        }, { merge: true });
+        markStatsDirty(totalsBatch, targetUid);
+        await totalsBatch.commit();
+
+        logger.info(`[Rollup] Backfilled ${interactionsSnap.size} interactions over ${entries.length} days for ${targetUid}`);
+        return { success: true, skipped: false };
+    } catch (error) {
+        logger.error("Error backfilling analytics rollups:", error);
+        // Nothing counted yet: release the claim so the backfill can run again
+        if (committed === 0) {
+            await totalsRef.update({ backfilledAt: admin.firestore.FieldValue.delete() }).catch(() => undefined);
+        }
+        throw new HttpsError("internal", "Failed to build analytics: " + (error as Error).message);
+    }
+});
+
+/**
+ * 20. Describe Visitor (Callable - Gen 2)
+ * Lets the browser enrich views and saves with the same device and coarse location
+ * data that taps get in resolveCard. Open to anonymous visitors.
+ */
+export const describeVisitor = onCall({ memory: "512MiB" }, async (request) => {
+    const req = request.rawRequest;
+    return getVisitorContext(getRequestIp(req), String(req.headers["user-agent"] || ""));
+});
+
+// --- Mail ---
+// Outgoing mail goes through a transport picked by MAIL_TRANSPORT:
+//   "smtp" - SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASS (SMTP_SECURE=true for port 465)
+//   "file" - writes each message as an .eml file to MAIL_OUTBOX_DIR (for local testing)
+// Defaults to "smtp" when SMTP_HOST is set, otherwise "file".
+
+interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html: string;
+    headers?: Record<string, string>;
+}
+
+interface MailTransport {
+    name: string;
+    send: (message: MailMessage) => Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "NXC Badge <no-reply@nxcbadge.com>";
+
+
+const createSmtpTransport = (): MailTransport => {
+    let transporter: { sendMail: (options: Record<string, unknown>) => Promise<unknown> } | null = null;
+    return {
+        name: "smtp",
+        send: async (message) => {
+            if (!transporter) {
+                // Loaded on first send so functions that never mail don't pay for it
+                const nodemailer = await import("nodemailer");
+                transporter = nodemailer.createTransport({
+                    host: process.env.SMTP_HOST,
+                    port: Number(process.env.SMTP_PORT || 587),
+                    secure: process.env.SMTP_SECURE === "true",
+                    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+                });
+            }
+            await transporter.sendMail({ from: MAIL_FROM, ...message });
+        }
+    };
+};
+
+const createFileTransport = (): MailTransport => ({
+    name: "file",
+    send: async (message) => {
+        const [fs, path, os] = await Promise.all([import("fs/promises"), import("path"), import("os")]);
+        const dir = process.env.MAIL_OUTBOX_DIR || path.join(os.tmpdir(), "nxc-outbox");
+        await fs.mkdir(dir, { recursive: true });
+
+        const headers = { From: MAIL_FROM, To: message.to, Subject: message.subject, ...message.headers };
+        const boundary = `nxc-${crypto.randomBytes(8).toString("hex")}`;
+        const eml = [
+            ...Object.entries(headers).map(([key, value]) => `${key}: ${value}`),
+            "MIME-Version: 1.0",
+            `Content-Type: multipart/alternative; boundary="${boundary}"`,
+            "",
+            `--${boundary}`,
+            "Content-Type: text/plain; charset=utf-8",
+            "",
+            message.text,
+            `--${boundary}`,
+            "Content-Type: text/html; charset=utf-8",
+            "",
+            message.html,
+            `--${boundary}--`,
+            ""
+        ].join("\r\n");
+
+        const file = path.join(dir, `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, "_")}.eml`);
+        await fs.writeFile(file, eml, "utf8");
+        logger.info(`[Mail] Wrote ${file}`);
+    }
+});
+
+let mailTransport: MailTransport | null = null;
+
+const getMailTransport = (): MailTransport => {
+    if (!mailTransport) {
+        const name = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "file");
+        mailTransport = name === "smtp" ? createSmtpTransport() : createFileTransport();
+    }
+    return mailTransport;
+};
+
+const escapeHtml = (value: string) => value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// --- Weekly digest ---
+
+// Signs unsubscribe links so they work without logging in. Digests aren't sent without it.
+const UNSUBSCRIBE_SECRET = process.env.UNSUBSCRIBE_SECRET || "";
+
+const DIGEST_PERIOD_DAYS = 7;
+const DIGEST_RECENT_MESSAGES = 3;
+const DIGEST_BATCH_SIZE = 100;
+const DIGEST_RUN_BUDGET_MS = 8 * 60 * 1000;
+
+const unsubscribeToken = (uid: string) =>
+    crypto.createHmac("sha256", UNSUBSCRIBE_SECRET).update(`digest:${uid}`).digest("base64url").slice(0, 32);
+
+const isValidUnsubscribeToken = (uid: string, token: string) => {
+    if (!UNSUBSCRIBE_SECRET || !uid || !token) return false;
+    const expected = Buffer.from(unsubscribeToken(uid));
+    const given = Buffer.from(token);
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+};
+
+interface DigestData {
+    firstName: string;
+    periodLabel: string;
+    views: number;
+    taps: number;
+    newLeads: number;
+    unreadMessages: number;
+    recentMessages: { name: string; message: string }[];
+}
+
+// Reads the period's interactions for one profile; messages come from its inbox threads
+const buildDigestData = async (uid: string, profile: admin.firestore.DocumentData, since: Date): Promise<DigestData> => {
+    const [periodSnap, conversationsSnap] = await Promise.all([
+        db.collection("users").doc(uid).collection("interactions")
+            .where("timestamp", ">=", admin.firestore.Timestamp.fromDate(since))
+            .orderBy("timestamp", "desc")
+            .select("type")
+            .get(),
+        db.collection("conversations").where("participants", "array-contains", uid).get()
+    ]);
+
+    const counts: Record<string, number> = {};
+    periodSnap.docs.forEach(d => {
+        const type = d.data().type;
+        counts[type] = (counts[type] || 0) + 1;
+    });
+
+    let unreadMessages = 0;
+    const recentMessages: DigestData["recentMessages"] = [];
+    conversationsSnap.docs
+        .map(d => d.data())
+        .sort((a, b) => (b.updatedAt?.toMillis() || 0) - (a.updatedAt?.toMillis() || 0))
+        .forEach(conversation => {
+            unreadMessages += conversation.unread?.[uid] || 0;
+            const last = conversation.lastMessage;
+            if (!last || last.senderId === uid || (last.createdAt?.toMillis() || 0) < since.getTime()) return;
+            if (recentMessages.length < DIGEST_RECENT_MESSAGES) {
+                const sender = conversation.ownerId === last.senderId ? conversation.owner : conversation.visitor;
+                recentMessages.push({ name: String(sender?.name || "Someone"), message: String(last.text || "").slice(0, 200) });
+            }
+        });
+
+    const format = (date: Date) => date.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+    return {
+        firstName: profile.firstName || profile.displayName || "there",
+        periodLabel: `${format(since)} – ${format(new Date())}`,
+        views: counts.view || 0,
+        taps: counts.tap || 0,
+        newLeads: (counts.contact_saved || 0) + (counts.contact || 0),
+        unreadMessages,
+        recentMessages
+    };
+};
+
+const renderDigestEmail = (data: DigestData, unsubscribeUrl: string): Omit<MailMessage, "to" | "headers"> => {
+    const dashboardUrl = `${APP_BASE_URL}/dashboard`;
+    const stats = [
+        ["Profile views", data.views],
+        ["Card taps", data.taps],
+        ["New leads", data.newLeads],
+        ["Unread messages", data.unreadMessages]
+    ] as const;
+
+    const text = [
+        `Hi ${data.firstName},`,
+        "",
+        `Here's how your profile did this week (${data.periodLabel}):`,
+        ...stats.map(([label, value]) => `- ${label}: ${value}`),
+        ...(data.recentMessages.length > 0 ? ["", "Recent messages:", ...data.recentMessages.map(m => `- ${m.name}: ${m.message}`)] : []),
+        "",
+        `Open your dashboard: ${dashboardUrl}`,
+        "",
+        `Unsubscribe from the weekly digest: ${unsubscribeUrl}`
+    ].join("\n");
+
+    const html = `
+<div style="font-family:Arial,sans-serif;max-width:560px;margin:0 auto;color:#111">
+  <h2 style="margin-bottom:4px">Your week on NXC Badge</h2>
+  <p style="color:#666;margin-top:0">${escapeHtml(data.periodLabel)}</p>
+  <p>Hi ${escapeHtml(data.firstName)}, here's how your profile did this week.</p>
+  <table style="width:100%;border-collapse:collapse">
+    ${stats.map(([label, value]) => `<tr><td style="padding:8px 0;border-bottom:1px solid #eee">${label}</td><td style="padding:8px 0;border-bottom:1px solid #eee;text-align:right;font-weight:bold">${value}</td></tr>`).join("")}
+  </table>
+  ${data.recentMessages.length > 0 ? `<h3>Recent messages</h3>${data.recentMessages.map(m => `<p style="margin:0 0 12px"><strong>${escapeHtml(m.name)}</strong><br>${escapeHtml(m.message)}</p>`).join("")}` : ""}
+  <p><a href="${dashboardUrl}" style="display:inline-block;padding:10px 18px;background:#7c3aed;color:#fff;border-radius:8px;text-decoration:none">Open dashboard</a></p>
+  <p style="color:#999;font-size:12px">You're getting this because weekly digests are on in your notification settings. <a href="${unsubscribeUrl}" style="color:#999">Unsubscribe</a></p>
+</div>`;
+
+    return { subject: `Your week: ${data.views} views, ${data.newLeads} new leads`, text, html };
+};
+
+/**
+ * 21. Send Weekly Digest (Scheduled)
+ * Mondays 08:00 UTC. Emails a summary of the past week to users whose saved notification
+ * settings have email notifications on and the weekly digest not turned off.
+ * `digestSentFor` on the settings doc stops a retried run from mailing anyone twice.
+ */
+export const sendWeeklyDigest = onSchedule({ schedule: "every monday 08:00", timeZone: "UTC", timeoutSeconds: 540 }, async () => {
+    if (!UNSUBSCRIBE_SECRET) {
+        logger.error("[Digest] UNSUBSCRIBE_SECRET is not set; skipping weekly digest");
+        return;
+    }
+
+    const startedAt = Date.now();
+    const since = new Date(startedAt - DIGEST_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+    const periodKey = new Date(startedAt).toISOString().slice(0, 10);
+    const transport = getMailTransport();
+    let sent = 0;
+    let skipped = 0;
+    let failures = 0;
+    let lastDoc: admin.firestore.QueryDocumentSnapshot | undefined;
+    let hasMore = true;
+
+    while (hasMore && Date.now() - startedAt < DIGEST_RUN_BUDGET_MS) {
+        let settingsQuery = db.collectionGroup("settings")
+            .where("emailNotifications", "==", true)
+            .limit(DIGEST_BATCH_SIZE);
+        if (lastDoc) settingsQuery = settingsQuery.startAfter(lastDoc);
+        const settingsSnap = await settingsQuery.get();
+
+        hasMore = settingsSnap.size === DIGEST_BATCH_SIZE;
+        lastDoc = settingsSnap.docs[settingsSnap.docs.length - 1];
+
+        for (const settingsDoc of settingsSnap.docs) {
+            const settings = settingsDoc.data();
+            const userRef = settingsDoc.ref.parent.parent;
+            if (settingsDoc.id !== "notifications" || !userRef || settings.weeklyDigest === false || settings.digestSentFor === periodKey) {
+                skipped++;
+                continue;
+            }
+
+            try {
+                const userSnap = await userRef.get();
+                const profile = userSnap.data();
+                if (!profile?.email || profile.isBanned) {
+                    skipped++;
+                    continue;
+                }
+
+                const data = await buildDigestData(userRef.id, profile, since);
+                // Nothing happened and nothing is waiting: don't send an empty email
+                if (data.views + data.taps + data.newLeads + data.unreadMessages === 0) {
+                    skipped++;
+                    continue;
+                }
+
+                const unsubscribeUrl = `${APP_BASE_URL}/email/unsubscribe?uid=${encodeURIComponent(userRef.id)}&token=${unsubscribeToken(userRef.id)}`;
+                await transport.send({
+                    to: profile.email,
+                    ...renderDigestEmail(data, unsubscribeUrl),
+                    headers: {
+                        "List-Unsubscribe": `<${unsubscribeUrl}>`,
+                        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click"
+                    }
+                });
+                await settingsDoc.ref.set({ digestSentFor: periodKey }, { merge: true });
+                sent++;
+            } catch (error) {
+                failures++;
+                logger.error(`[Digest] Failed for user ${userRef.id}`, error);
+            }
+        }
+    }
+
+    await db.collection("system").doc("weeklyDigest").set({
+        lastRun: {
+            startedAt: admin.firestore.Timestamp.fromMillis(startedAt),
+            finishedAt: admin.firestore.FieldValue.serverTimestamp(),
+            durationMs: Date.now() - startedAt,
+            transport: transport.name,
+            sent,
+            skipped,
+            failures,
+            backlogRemaining: hasMore
+        }
+    }, { merge: true });
+
+    logger.info(`[Digest] Sent ${sent} digests via ${transport.name} (${skipped} skipped, ${failures} failed${hasMore ? ", backlog remaining" : ""})`);
+});
+
+/**
+ * 22. Unsubscribe From Digest (HTTP - Gen 2)
+ * Served through the Hosting rewrite for /email/unsubscribe. The signed link in each digest
+ * turns `weeklyDigest` off; POST is the one-click unsubscribe mail clients send.
+ */
+export const unsubscribeDigest = onRequest(async (req, res) => {
+    const params = req.method === "POST" ? { ...req.query, ...req.body } : req.query;
+    const uid = String(params.uid || "");
+    const token = String(params.token || "");
+
+    if (!isValidUnsubscribeToken(uid, token)) {
+        res.status(400).send("This unsubscribe link is invalid or has expired.");
+        return;
+    }
+
+    try {
+        await db.collection("users").doc(uid).collection("settings").doc("notifications").set({
+            weeklyDigest: false,
+            digestUnsubscribedAt: admin.firestore.FieldValue.serverTimestamp()
+        }, { merge: true });
+        logger.info(`[Digest] ${uid} unsubscribed`);
+
+        if (req.method === "POST") {
+            res.status(200).send("OK");
+            return;
+        }
+        res.set("Content-Type", "text/html; charset=utf-8");
+        res.status(200).send(`<!doctype html><html><body style="font-family:Arial,sans-serif;text-align:center;padding:48px">
+<h2>You're unsubscribed</h2>
+<p>You won't get the weekly digest anymore. You can turn it back on in <a href="${APP_BASE_URL}/dashboard/settings">your settings</a>.</p>
+</body></html>`);
+    } catch (error) {
+        logger.error(`[Digest] Unsubscribe failed for ${uid}:`, error);
+        res.status(500).send("Something went wrong. Please try again later.");
+    }
+});
+
+// --- Real-time alerts ---
+// New leads and messages are pushed to the owner by email and/or web push, following
+// users/{uid}/settings/notifications. Web push needs VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY
+// (the public key is also given to the app as VITE_VAPID_PUBLIC_KEY).
+
+const ALERT_TYPES = ["contact_saved", "contact", "message"];
+
+// Alerts per user per window; anything over is still in the dashboard, just not pushed
+const ALERT_RATE_LIMIT = 10;
+const ALERT_RATE_WINDOW_MS = 60 * 60 * 1000;
+
+// Same defaults the Settings page shows before anything is saved
+const DEFAULT_ALERT_SETTINGS = {
+    emailNotifications: true,
+    pushNotifications: true,
+    newContactAlerts: true
+};
+
+interface QuietHours {
+    enabled?: boolean;
+    start?: string; // "HH:MM"
+    end?: string; // "HH:MM"
+    timeZone?: string; // IANA zone, e.g. "Asia/Kolkata"
+}
+
+// True when now falls inside the window (which may wrap past midnight)
+const isWithinQuietHours = (quietHours: QuietHours | undefined, now: Date = new Date()) => {
+    if (!quietHours?.enabled || !quietHours.start || !quietHours.end) return false;
+
+    let current: string;
+    try {
+        current = new Intl.DateTimeFormat("en-GB", { hour: "2-digit", minute: "2-digit", hourCycle: "h23", timeZone: quietHours.timeZone || "UTC" }).format(now);
+    } catch {
+        // Unknown time zone
+        current = now.toISOString().slice(11, 16);
+    }
+
+    const { start, end } = quietHours;
+    return start <= end ? current >= start && current < end : current >= start || current < end;
+};
+
+/**
+ * Fixed-window rate limit kept in a Firestore doc. Counts one use and returns false
+ * once `limit` uses have been taken in the current window.
+ */
+const consumeRateLimit = async (limitRef: admin.firestore.DocumentReference, limit: number, windowMs: number) => {
+    return db.runTransaction(async (transaction) => {
+        const snap = await transaction.get(limitRef);
+        const windowStart = snap.data()?.windowStart?.toMillis() || 0;
+        const count = snap.data()?.count || 0;
+        const now = Date.now();
+
+        if (now - windowStart >= windowMs) {
+            transaction.set(limitRef, {
+                windowStart: admin.firestore.Timestamp.fromMillis(now),
+                count: 1,
+                // Firestore TTL policy on this field cleans up idle entries
+                expiresAt: admin.firestore.Timestamp.fromMillis(now + 24 * 60 * 60 * 1000)
+            });
+            return true;
+        }
+        if (count >= limit) return false;
+        transaction.update(limitRef, { count: admin.firestore.FieldValue.increment(1) });
+        return true;
+    });
+};
+
+// Counts the alert against the user's hourly budget; false when the budget is spent
+const takeAlertBudget = (uid: string) =>
+    consumeRateLimit(db.collection("alert_limits").doc(uid), ALERT_RATE_LIMIT, ALERT_RATE_WINDOW_MS);
+
+// Message interactions only point at the thread; the text is read from the conversation,
+// and only when it's the alerted user's own thread
+const describeAlert = async (uid: string, interaction: admin.firestore.DocumentData) => {
+    const name = String(interaction.name || "Someone");
+    if (interaction.type === "message") {
+        const thread = interaction.conversationId
+            ? (await db.collection("conversations").doc(String(interaction.conversationId)).get()).data()
+            : undefined;
+        const conversation = thread?.ownerId === uid ? thread : undefined;
+        return {
+            title: `New message from ${name}`,
+            body: String(conversation?.lastMessage?.text || "Open your inbox to read it.").slice(0, 140),
+            url: conversation ? `/dashboard/inbox?c=${interaction.conversationId}` : "/dashboard/inbox"
+        };
+    }
+    return {
+        title: "New lead",
+        body: interaction.source === "lead_form" ? `${name} shared their details with you` : `${name} saved your contact`,
+        url: "/dashboard/contacts"
+    };
+};
+
+// Sends to every registered browser; subscriptions the push service says are gone are removed
+const sendWebPush = async (uid: string, payload: { title: string; body: string; url: string }) => {
+    if (!process.env.VAPID_PUBLIC_KEY || !process.env.VAPID_PRIVATE_KEY) {
+        logger.warn("[Alerts] VAPID keys are not set; skipping web push");
+        return 0;
+    }
+
+    const subsSnap = await db.collection("users").doc(uid).collection("push_subscriptions").get();
+    if (subsSnap.empty) return 0;
+
+    const webpush = await import("web-push");
+    webpush.setVapidDetails(
+        process.env.VAPID_SUBJECT || `mailto:${MAIL_FROM.replace(/^.*<|>.*$/g, "")}`,
+        process.env.VAPID_PUBLIC_KEY,
+        process.env.VAPID_PRIVATE_KEY
+    );
+
+    let delivered = 0;
+    await Promise.all(subsSnap.docs.map(async (subDoc) => {
+        const { endpoint, keys } = subDoc.data();
+        try {
+            await webpush.sendNotification({ endpoint, keys }, JSON.stringify(payload), { TTL: 24 * 60 * 60 });
+            delivered++;
+        } catch (error) {
+            const statusCode = (error as { statusCode?: number }).statusCode;
+            if (statusCode === 404 || statusCode === 410) {
+                await subDoc.ref.delete();
+            } else {
+                logger.error(`[Alerts] Push failed for ${uid}/${subDoc.id}`, error);
+            }
+        }
+    }));
+    return delivered;
+};
+
+/**
+ * 23. Send Interaction Alert (Firestore Trigger)
+ * Emails and/or web-pushes the owner when someone saves their contact or sends a message.
+ * Honors the notification toggles, per-user quiet hours and an hourly rate limit.
+ */
+export const sendInteractionAlert = onDocumentCreated("users/{userId}/interactions/{interactionId}", async (event) => {
+    const interaction = event.data?.data();
+    if (!interaction || !ALERT_TYPES.includes(interaction.type)) return;
+
+    const uid = event.params.userId;
+    const isContact = interaction.type !== "message";
+
+    try {
+        const [settingsSnap, userSnap] = await Promise.all([
+            db.collection("users").doc(uid).collection("settings").doc("notifications").get(),
+            db.collection("users").doc(uid).get()
+        ]);
+        const settings: admin.firestore.DocumentData = { ...DEFAULT_ALERT_SETTINGS, ...settingsSnap.data() };
+
+        if (isContact && !settings.newContactAlerts) return;
+        const wantsEmail = settings.emailNotifications && !!userSnap.data()?.email;
+        const wantsPush = settings.pushNotifications;
+        if (!wantsEmail && !wantsPush) return;
+
+        if (isWithinQuietHours(settings.quietHours)) {
+            logger.info(`[Alerts] ${uid} is in quiet hours; not alerting`);
+            return;
+        }
+        if (!(await takeAlertBudget(uid))) {
+            logger.info(`[Alerts] ${uid} hit the alert rate limit`);
+            return;
+        }
+
+        const alert = await describeAlert(uid, interaction);
+        const results = await Promise.allSettled([
+            wantsPush ? sendWebPush(uid, alert) : Promise.resolve(0),
+            wantsEmail ? getMailTransport().send({
+                to: userSnap.data()?.email,
+                subject: alert.title,
+                text: `${alert.body}\n\nOpen your dashboard: ${APP_BASE_URL}${alert.url}`,
+                html: `<div style="font-family:Arial,sans-serif;max-width:560px;margin:0 auto;color:#111">
+  <h2>${escapeHtml(alert.title)}</h2>
+  <p>${escapeHtml(alert.body)}</p>
+  <p><a href="${APP_BASE_URL}${alert.url}" style="display:inline-block;padding:10px 18px;background:#7c3aed;color:#fff;border-radius:8px;text-decoration:none">Open dashboard</a></p>
+  <p style="color:#999;font-size:12px">You can change alerts and quiet hours in your <a href="${APP_BASE_URL}/dashboard/settings" style="color:#999">notification settings</a>.</p>
+</div>`
+            }) : Promise.resolve()
+        ]);
+
+        results.forEach(result => {
+            if (result.status === "rejected") logger.error(`[Alerts] Delivery failed for ${uid}`, result.reason);
+        });
+    } catch (error) {
+        logger.error(`[Alerts] Failed for ${uid}/${event.params.interactionId}`, error);
+    }
+});
+
+// --- Lead capture form ---
+// Anonymous visitors can leave their details on a profile whose owner turned on
+// `leadForm` (users/{uid}). Bots are filtered by a hidden honeypot field and a one-time
+// form token that must be at least a few seconds old; each IP gets a few submissions per hour.
+
+const LEAD_TOKEN_MIN_AGE_MS = 3 * 1000;
+const LEAD_TOKEN_MAX_AGE_MS = 2 * 60 * 60 * 1000;
+const LEAD_RATE_LIMIT = 5;
+const LEAD_RATE_WINDOW_MS = 60 * 60 * 1000;
+const LEAD_EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const hashIp = (ip: string) => crypto.createHash("sha256").update(ip).digest("hex").slice(0, 32);
+
+const leadText = (value: unknown, max: number) => String(value ?? "").trim().slice(0, max);
+
+interface LeadQuestion {
+    id: string;
+    label: string;
+    type: string;
+    required?: boolean;
+    options?: string[];
+}
+
+/**
+ * Checks the visitor's answers against the owner's custom questions (FormBuilder field
+ * model) and returns them with each question's label, so renamed or deleted questions
+ * still read correctly on old contacts.
+ */
+const collectLeadAnswers = (questions: LeadQuestion[], raw: unknown, ownerId: string, token: string) => {
+    const given = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+    const imagePrefix = `lead_uploads%2F${encodeURIComponent(ownerId)}%2F${encodeURIComponent(token)}%2F`;
+
+    return questions.slice(0, 10).flatMap(question => {
+        const value = leadText(given[question.id], question.type === "textarea" ? 2000 : 500);
+        const label = leadText(question.label, 200);
+        if (!value) {
+            if (question.required) throw new HttpsError("invalid-argument", `Please answer "${label}".`);
+            return [];
+        }
+        if ((question.type === "radio" || question.type === "mcq") && !(question.options || []).includes(value)) {
+            throw new HttpsError("invalid-argument", `Please pick one of the options for "${label}".`);
+        }
+        if (question.type === "email" && !LEAD_EMAIL_PATTERN.test(value)) {
+            throw new HttpsError("invalid-argument", `Please enter a valid email for "${label}".`);
+        }
+        // Images must be ones this visitor uploaded with their form token
+        if (question.type === "image" && !(value.startsWith("https://firebasestorage.googleapis.com/") && value.includes(imagePrefix))) {
+            throw new HttpsError("invalid-argument", `Please upload the image for "${label}" again.`);
+        }
+        return [{ fieldId: leadText(question.id, 64), label, type: question.type, value }];
+    });
+};
+
+/**
+ * 24. Issue Lead Form Token (Callable - Gen 2)
+ * Called when the lead form is shown. Open to anonymous visitors.
+ */
+export const issueLeadFormToken = onCall(async (request) => {
+    const ownerId = leadText(request.data?.ownerId, 128);
+    if (!ownerId) throw new HttpsError("invalid-argument", "Missing profile.");
+
+    const ownerSnap = await db.collection("users").doc(ownerId).get();
+    if (!ownerSnap.exists || ownerSnap.data()?.isBanned || !ownerSnap.data()?.leadForm?.enabled) {
+        throw new HttpsError("failed-precondition", "This profile isn't accepting details right now.");
+    }
+
+    const tokenRef = db.collection("lead_form_tokens").doc();
+    await tokenRef.set({
+        ownerId,
+        ipHash: hashIp(getRequestIp(request.rawRequest)),
+        issuedAt: admin.firestore.Timestamp.now(),
+        // Firestore TTL policy on this field cleans up unused tokens
+        expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + LEAD_TOKEN_MAX_AGE_MS)
+    });
+    return { token: tokenRef.id };
+});
+
+/**
+ * 25. Submit Lead (Callable - Gen 2)
+ * Saves an anonymous visitor's details (and answers to the owner's questions) to the
+ * owner's contacts as a lead and logs a `contact_saved` interaction (source "lead_form")
+ * so alerts, digests and analytics count it.
+ */
+export const submitLead = onCall({ memory: "512MiB" }, async (request) => {
+    const data = request.data || {};
+    const ownerId = leadText(data.ownerId, 128);
+    const token = leadText(data.token, 64);
+
+    // Honeypot: people never see this field. Pretend it worked so bots don't adapt.
+    if (leadText(data.website, 200)) {
+        logger.info(`[Lead] Honeypot tripped for ${ownerId}`);
+        return { success: true };
+    }
+
+    const lead = {
+        name: leadText(data.name, 100),
+        email: leadText(data.email, 200).toLowerCase(),
+        phone: leadText(data.phone, 40),
+        company: leadText(data.company, 100),
+        notes: leadText(data.note, 1000)
+    };
+    if (!ownerId || !token) throw new HttpsError("invalid-argument", "Please reload the page and try again.");
+    if (!lead.name) throw new HttpsError("invalid-argument", "Please enter your name.");
+    if (!LEAD_EMAIL_PATTERN.test(lead.email)) throw new HttpsError("invalid-argument", "Please enter a valid email address.");
+    if (data.consent !== true) throw new HttpsError("invalid-argument", "Please agree to share your details.");
+
+    const ip = getRequestIp(request.rawRequest);
+    const ipHash = hashIp(ip);
+    if (!(await consumeRateLimit(db.collection("lead_rate_limits").doc(ipHash), LEAD_RATE_LIMIT, LEAD_RATE_WINDOW_MS))) {
+        throw new HttpsError("resource-exhausted", "Too many submissions. Please try again later.");
+    }
+
+    const ownerRef = db.collection("users").doc(ownerId);
+    const tokenRef = db.collection("lead_form_tokens").doc(token);
+    const personaId = leadText(data.personaId, 128);
+    const metadata = await getVisitorContext(ip, String(request.rawRequest.headers["user-agent"] || ""));
+
+    try {
+        await db.runTransaction(async (transaction) => {
+            const [tokenSnap, ownerSnap] = await Promise.all([transaction.get(tokenRef), transaction.get(ownerRef)]);
+            const issuedAt = tokenSnap.data()?.issuedAt?.toMillis() || 0;
+            const age = Date.now() - issuedAt;
+
+            if (!tokenSnap.exists || tokenSnap.data()?.ownerId !== ownerId || age > LEAD_TOKEN_MAX_AGE_MS) {
+                throw new HttpsError("failed-precondition", "This form has expired. Please reload the page and try again.");
+            }
+            if (age < LEAD_TOKEN_MIN_AGE_MS) {
+                throw new HttpsError("failed-precondition", "That was quick! Please wait a moment and submit again.");
+            }
+            const leadForm = ownerSnap.data()?.leadForm;
+            if (!leadForm?.enabled) {
+                throw new HttpsError("failed-precondition", "This profile isn't accepting details right now.");
+            }
+
+            const answers = collectLeadAnswers(leadForm.customFields || [], data.answers, ownerId, token);
+
+            // Tokens are single use
+            transaction.delete(tokenRef);
+            transaction.create(ownerRef.collection("contacts").doc(), {
+                ...lead,
+                source: "lead_form",
+                isLead: true,
+                consent: true,
+                consentText: leadText(leadForm.consentText, 500),
+                ...(answers.length > 0 ? { answers } : {}),
+                ...(personaId ? { personaId } : {}),
+                savedAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+            transaction.create(ownerRef.collection("interactions").doc(), {
+                type: "contact_saved",
+                timestamp: admin.firestore.FieldValue.serverTimestamp(),
+                name: lead.name,
+                email: lead.email,
+                source: "lead_form",
+                ...(personaId ? { personaId } : {}),
+                metadata,
+                read: false
+            });
+        });
+
+        logger.info(`[Lead] New lead for ${ownerId}`);
+        return { success: true };
+    } catch (error) {
+        if (error instanceof HttpsError) throw error;
+        logger.error(`[Lead] Failed for ${ownerId}:`, error);
+        throw new HttpsError("internal", "Failed to send your details: " + (error as Error).message);
+    }
+});
+
+// Profile fields copied onto saved contacts, and which of them a private profile still shows.
+// Contact details (email, phone, location) have their own visibility settings, so they never sync.
+const SYNCED_PROFILE_FIELDS = ["name", "title", "company", "photoURL"] as const;
+const PRIVATE_PROFILE_FIELDS = ["name"];
+const MAX_PROFILE_CHANGES = 20;
+
+const profileContactFields = (profile: admin.firestore.DocumentData) => ({
+    name: profile.displayName || `${profile.firstName || ""} ${profile.lastName || ""}`.trim(),
+    title: profile.title || "",
+    company: profile.company || "",
+    photoURL: profile.photoURL || ""
+});
+
+/**
+ * 26. Sync Saved Contacts (Firestore Trigger)
+ * Refreshes other members' saved copies of this profile (contacts with originalProfileId)
+ * when it changes. Only fields the saved copy already has are refreshed, fields the saver
+ * edited themselves are left alone, a private profile only shares its name, and each
+ * refresh is added to the contact's change history.
+ */
+export const syncSavedContacts = onDocumentUpdated("users/{userId}", async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || !after) return;
+
+    const uid = event.params.userId;
+    const previous = profileContactFields(before);
+    const current = profileContactFields(after);
+    const visible = after.isPublic === false ? PRIVATE_PROFILE_FIELDS : SYNCED_PROFILE_FIELDS;
+    const changed = SYNCED_PROFILE_FIELDS.filter(field => visible.includes(field) && previous[field] !== current[field] && current[field]);
+    if (changed.length === 0) return;
+
+    try {
+        const snapshot = await db.collectionGroup("contacts").where("originalProfileId", "==", uid).get();
+        // Persona-scoped saves show the persona's own fields, so only main-profile copies follow
+        const docs = snapshot.docs.filter(d => !d.data().personaId && d.ref.parent.parent?.id !== uid);
+
+        let updated = 0;
+        for (let i = 0; i < docs.length; i += 400) {
+            const batch = db.batch();
+            docs.slice(i, i + 400).forEach(contactDoc => {
+                const contact = contactDoc.data();
+                const changes = changed
+                    .filter(field => contact[field] && contact[field] === previous[field])
+                    .filter(field => contact[field] !== current[field])
+                    .map(field => ({ field, from: contact[field] || "", to: current[field] }));
+                if (changes.length === 0) return;
+
+                const history = [...(contact.profileChanges || []), { at: admin.firestore.Timestamp.now(), changes }];
+                batch.update(contactDoc.ref, {
+                    ...Object.fromEntries(changes.map(c => [c.field, c.to])),
+                    profileChanges: history.slice(-MAX_PROFILE_CHANGES),
+                    profileUpdatedAt: admin.firestore.FieldValue.serverTimestamp()
+                });
+                updated++;
+            });
+            await batch.commit();
+        }
+
+        if (updated > 0) logger.info(`[ContactSync] Refreshed ${updated} saved contacts of ${uid}: ${changed.join(", ")}`);
+    } catch (error) {
+        logger.error(`[ContactSync] Failed for ${uid}:`, error);
+    }
+});
+
+// --- CRM connectors ---
+// Pushes contacts to the owner's CRM through users/{uid}/connectors/{connectorId}:
+//   { type: "hubspot" | "salesforce" | "webhook", name, baseUrl, apiKey, fieldMap, autoSync, enabled }
+// `fieldMap` maps the CRM's field names to contact fields (see CONTACT_SOURCE_FIELDS).
+// Every attempt lands in the connector's sync_log. `baseUrl` must be https on a public host, except in the
+// emulator, where it may point at the local stand-in (scripts/mockCrm.cjs).
+
+type CrmConnectorType = "hubspot" | "salesforce" | "webhook";
+
+interface CrmConnectorConfig {
+    type: CrmConnectorType;
+    name?: string;
+    baseUrl: string;
+    apiKey?: string;
+    fieldMap?: Record<string, string>;
+    autoSync?: boolean;
+    enabled?: boolean;
+}
+
+interface OutboundRequest {
+    method: "POST" | "PATCH";
+    url: string;
+    headers: Record<string, string>;
+    body: string;
+}
+
+interface CrmAdapter {
+    // First request for a contact; `fallback` retries it as an update when the CRM says it already exists
+    create: (connector: CrmConnectorConfig, fields: Record<string, string>) => OutboundRequest;
+    fallback?: (connector: CrmConnectorConfig, fields: Record<string, string>, status: number) => OutboundRequest | null;
+    externalId: (response: Record<string, unknown>) => string;
+}
+
+const CRM_MAX_ATTEMPTS = 3;
+const CRM_RETRY_BASE_MS = 500;
+const CRM_TIMEOUT_MS = 10000;
+const CRM_MAX_CONTACTS_PER_PUSH = 200;
+
+// Values a field map can pull from a contact
+const CONTACT_SOURCE_FIELDS: Record<string, (contact: admin.firestore.DocumentData) => string> = {
+    name: (c) => c.name || "",
+    firstName: (c) => String(c.name || "").trim().split(/\s+/).slice(0, -1).join(" ") || String(c.name || "").trim(),
+    lastName: (c) => {
+        const words = String(c.name || "").trim().split(/\s+/);
+        return words.length > 1 ? words[words.length - 1] : "";
+    },
+    email: (c) => c.email || "",
+    phone: (c) => c.phone || "",
+    company: (c) => c.company || "",
+    title: (c) => c.title || "",
+    location: (c) => c.location || "",
+    notes: (c) => c.notes || "",
+    tags: (c) => (c.tags || []).join(";"),
+    stage: (c) => c.stage || "new",
+    source: (c) => c.source || "",
+    savedAt: (c) => c.savedAt?.toDate ? c.savedAt.toDate().toISOString() : ""
+};
+
+const DEFAULT_FIELD_MAPS: Record<CrmConnectorType, Record<string, string>> = {
+    hubspot: { email: "email", firstname: "firstName", lastname: "lastName", phone: "phone", company: "company", jobtitle: "title", city: "location" },
+    salesforce: { FirstName: "firstName", LastName: "lastName", Email: "email", Phone: "phone", Title: "title", MailingCity: "location", Description: "notes" },
+    webhook: { name: "name", email: "email", phone: "phone", company: "company", title: "title", location: "location", tags: "tags", stage: "stage" }
+};
+
+const mapContactFields = (connector: CrmConnectorConfig, contact: admin.firestore.DocumentData) => {
+    const fieldMap = connector.fieldMap && Object.keys(connector.fieldMap).length > 0 ? connector.fieldMap : DEFAULT_FIELD_MAPS[connector.type];
+    const fields: Record<string, string> = {};
+    Object.entries(fieldMap).forEach(([target, source]) => {
+        const value = CONTACT_SOURCE_FIELDS[source]?.(contact);
+        if (target && value) fields[target] = value;
+    });
+    return fields;
+};
+
+const crmUrl = (connector: CrmConnectorConfig, path: string) => `${connector.baseUrl.replace(/\/+$/, "")}${path}`;
+
+const jsonHeaders = (connector: CrmConnectorConfig): Record<string, string> => ({
+    "Content-Type": "application/json",
+    ...(connector.apiKey ? { Authorization: `Bearer ${connector.apiKey}` } : {})
+});
+
+const CRM_ADAPTERS: Record<CrmConnectorType, CrmAdapter> = {
+    // HubSpot CRM v3: 409 on a known email, then update by email
+    hubspot: {
+        create: (connector, fields) => ({
+            method: "POST",
+            url: crmUrl(connector, "/crm/v3/objects/contacts"),
+            headers: jsonHeaders(connector),
+            body: JSON.stringify({ properties: fields })
+        }),
+        fallback: (connector, fields, status) => status === 409 && fields.email ? {
+            method: "PATCH",
+            url: crmUrl(connector, `/crm/v3/objects/contacts/${encodeURIComponent(fields.email)}?idProperty=email`),
+            headers: jsonHeaders(connector),
+            body: JSON.stringify({ properties: fields })
+        } : null,
+        externalId: (response) => String(response.id || "")
+    },
+    // Salesforce REST sObjects; LastName is required there
+    salesforce: {
+        create: (connector, fields) => ({
+            method: "POST",
+            url: crmUrl(connector, "/services/data/v59.0/sobjects/Contact"),
+            headers: jsonHeaders(connector),
+            body: JSON.stringify({ ...fields, LastName: fields.LastName || fields.FirstName || fields.Email || "Unknown" })
+        }),
+        externalId: (response) => String(response.id || "")
+    },
+    // Any endpoint; signed with the API key so the receiver can verify it came from us
+    webhook: {
+        create: (connector, fields) => {
+            const body = JSON.stringify({ event: "contact.exported", sentAt: new Date().toISOString(), contact: fields });
+            return {
+                method: "POST",
+                url: connector.baseUrl,
+                headers: {
+                    "Content-Type": "application/json",
+                    ...(connector.apiKey ? { "X-NXC-Signature": `sha256=${crypto.createHmac("sha256", connector.apiKey).update(body).digest("hex")}` } : {})
+                },
+                body
+            };
+        },
+        externalId: (response) => String(response.id || "")
+    }
+};
+
+// Private, loopback, link-local and other non-public ranges outbound requests may not reach
+const BLOCKED_OUTBOUND_ADDRESSES = new net.BlockList();
+[
+    ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+    ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4]
+].forEach(([address, prefix]) => BLOCKED_OUTBOUND_ADDRESSES.addSubnet(address as string, prefix as number, "ipv4"));
+[
+    ["::", 128], ["::1", 128], ["::ffff:0:0", 96], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]
+].forEach(([address, prefix]) => BLOCKED_OUTBOUND_ADDRESSES.addSubnet(address as string, prefix as number, "ipv6"));
+
+const isBlockedAddress = (address: string, family: number) =>
+    BLOCKED_OUTBOUND_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+
+// https only, and every address the host resolves to must be public. The URL parser
+// already normalizes decimal, octal and hex IPv4 hosts, and lookup() returns IP literals as-is.
+// This is the up-front check (saving a connector, before queueing work); the connection
+// itself goes through publicOnlyLookup, so a host can't re-resolve somewhere private later.
+const isAllowedOutboundUrl = async (value: string) => {
+    try {
+        const url = new URL(value);
+        if (process.env.FUNCTIONS_EMULATOR === "true") return url.protocol === "https:" || url.protocol === "http:";
+        if (url.protocol !== "https:" || url.username || url.password) return false;
+        const hostname = url.hostname.replace(/^\[|\]$/g, "");
+        if (!hostname || /^(localhost|metadata)(\.|$)/i.test(hostname)) return false;
+        const addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+        return addresses.length > 0 && addresses.every(({ address, family }) => !isBlockedAddress(address, family));
+    } catch {
+        return false;
+    }
+};
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void;
+
+// Socket lookup for outbound requests: resolves like dns.lookup but fails if any address is
+// non-public, so the address that was checked is the one connected to (no DNS rebinding)
+const publicOnlyLookup = (hostname: string, options: dns.LookupOptions, callback: LookupCallback) => {
+    dns.lookup(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+        const resolved = addresses as unknown as dns.LookupAddress[];
+        if (error) return callback(error, "");
+        if (resolved.length === 0 || resolved.some(({ address, family }) => isBlockedAddress(address, family))) {
+            return callback(Object.assign(new Error(`${hostname} does not resolve to a public address`), { code: "EBLOCKED" }), "");
+        }
+        if (options.all) return callback(null, resolved);
+        callback(null, resolved[0].address, resolved[0].family);
+    });
+};
+
+const OUTBOUND_MAX_RESPONSE_BYTES = 1024 * 1024;
+
+// One request, connected through publicOnlyLookup. Redirects are returned, not followed:
+// the target could be a host we'd refuse.
+const requestOutbound = (request: OutboundRequest) =>
+    new Promise<{ status: number; headers: http.IncomingHttpHeaders; text: string }>((resolve, reject) => {
+        const url = new URL(request.url);
+        const client = url.protocol === "http:" ? http : https;
+        const req = client.request(url, {
+            method: request.method,
+            headers: request.headers,
+            lookup: process.env.FUNCTIONS_EMULATOR === "true" ? undefined : publicOnlyLookup
+        }, (res) => {
+            const chunks: Buffer[] = [];
+            let size = 0;
+            res.on("data", (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > OUTBOUND_MAX_RESPONSE_BYTES) {
+                    req.destroy(new Error("Response too large"));
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            res.on("end", () => {
+                clearTimeout(timer);
+                resolve({ status: res.statusCode || 0, headers: res.headers, text: Buffer.concat(chunks).toString("utf8") });
+            });
+            res.on("error", reject);
+        });
+        const timer = setTimeout(() => req.destroy(new Error(`Timed out after ${CRM_TIMEOUT_MS}ms`)), CRM_TIMEOUT_MS);
+        req.on("error", (error) => {
+            clearTimeout(timer);
+            reject(error);
+        });
+        req.end(request.body);
+    });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// 429, 5xx and network errors are retried with backoff (honoring Retry-After up to 10s)
+const sendOutboundRequest = async (request: OutboundRequest, maxAttempts = CRM_MAX_ATTEMPTS) => {
+    let lastError = "";
+    let status = 0;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        let retryAfterMs = CRM_RETRY_BASE_MS * 2 ** (attempt - 1);
+        try {
+            const response = await requestOutbound(request);
+            status = response.status;
+            const text = response.text;
+            if (status >= 200 && status < 300) {
+                let json: Record<string, unknown> = {};
+                try {
+                    json = text ? JSON.parse(text) : {};
+                } catch {
+                    // Not every endpoint answers with JSON
+                }
+                return { ok: true, status, attempts: attempt, json, error: "" };
+            }
+            lastError = `HTTP ${status}: ${text.slice(0, 300)}`;
+            if (status !== 429 && status < 500) return { ok: false, status, attempts: attempt, json: {}, error: lastError };
+            const retryAfter = Number(response.headers["retry-after"]);
+            if (retryAfter > 0) retryAfterMs = Math.min(retryAfter * 1000, 10000);
+        } catch (error) {
+            lastError = (error as Error).message;
+        }
+        if (attempt < maxAttempts) await sleep(retryAfterMs);
+    }
+    return { ok: false, status, attempts: maxAttempts, json: {}, error: lastError };
+};
+
+const pushContactToCrm = async (
+    uid: string,
+    connectorRef: admin.firestore.DocumentReference,
+    connector: CrmConnectorConfig,
+    contactDoc: admin.firestore.DocumentSnapshot,
+    trigger: "manual" | "auto"
+) => {
+    const contact = contactDoc.data() || {};
+    const adapter = CRM_ADAPTERS[connector.type];
+    const fields = mapContactFields(connector, contact);
+
+    let result = await sendOutboundRequest(adapter.create(connector, fields));
+    let attempts = result.attempts;
+    const fallback = !result.ok && adapter.fallback?.(connector, fields, result.status);
+    if (fallback) {
+        result = await sendOutboundRequest(fallback);
+        attempts += result.attempts;
+    }
+
+    const externalId = result.ok ? adapter.externalId(result.json) : "";
+    await connectorRef.collection("sync_log").add({
+        contactId: contactDoc.id,
+        contactName: contact.name || "",
+        status: result.ok ? "success" : "failed",
+        httpStatus: result.status,
+        attempts,
+        error: result.error,
+        externalId,
+        trigger,
+        at: admin.firestore.FieldValue.serverTimestamp()
+    });
+    if (result.ok) {
+        await contactDoc.ref.set({ crmSync: { [connectorRef.id]: { externalId, syncedAt: admin.firestore.FieldValue.serverTimestamp() } } }, { merge: true });
+    } else {
+        logger.warn(`[CRM] ${connector.type} push failed for ${uid}/${contactDoc.id}: ${result.error}`);
+    }
+    return result.ok;
+};
+
+// Free plan's export limit plus every active plan's, mirroring useSubscriptionLimits
+const DEFAULT_EXPORT_LIMITS: Record<string, number> = { free: 5, plus: 30, platinum: 100, ultra: 999999 };
+const UNLIMITED_EXPORTS = 500000;
+
+const exportUsageScopes = async (uid: string) => {
+    const userSnap = await db.collection("users").doc(uid).get();
+    const orgId: string | undefined = userSnap.data()?.organizationId;
+    const monthKey = new Date().toISOString().slice(0, 7);
+    const refs = [db.collection("users").doc(uid).collection("usage").doc(`monthly_${monthKey}`)];
+    if (orgId) refs.push(db.collection("organizations").doc(orgId).collection("usage").doc(`monthly_${monthKey}`));
+    return { orgId, refs };
+};
+
+// Exports left this month for the user (or their organization's pool)
+const remainingExports = async (uid: string) => {
+    const { orgId, refs } = await exportUsageScopes(uid);
+    let planIds: string[];
+    if (orgId) {
+        planIds = (await db.collection("organizations").doc(orgId).get()).data()?.pooledPlanIds || [];
+    } else {
+        const orders = await db.collection("orders").where("userId", "==", uid).get();
+        planIds = orders.docs.map(d => d.data()).filter(o => !INACTIVE_ORDER_STATUSES.includes(o.status)).map(o => o.planId);
+    }
+
+    const planLimit = async (planId: string) => {
+        const planSnap = await db.collection("plans").doc(planId).get();
+        return Number(planSnap.data()?.limits?.exports ?? DEFAULT_EXPORT_LIMITS[planId] ?? 0);
+    };
+    const paidPlans = planIds.filter(id => id && id !== "free" && id !== REPLACEMENT_PLAN_ID);
+    const limits = await Promise.all(["free", ...paidPlans].map(planLimit));
+    const limit = limits.reduce((sum, value) => sum + value, 0);
+    if (limit > UNLIMITED_EXPORTS) return Infinity;
+
+    const usageSnap = await refs[refs.length - 1].get();
+    return Math.max(0, limit - (usageSnap.data()?.exportsCount || 0));
+};
+
+const recordExports = async (uid: string, count: number) => {
+    const { refs } = await exportUsageScopes(uid);
+    await Promise.all(refs.map(ref => ref.set({
+        exportsCount: admin.firestore.FieldValue.increment(count),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    }, { merge: true })));
+};
+
+const loadConnector = async (uid: string, connectorId: string) => {
+    const connectorRef = db.collection("users").doc(uid).collection("connectors").doc(connectorId);
+    const connector = (await connectorRef.get()).data() as CrmConnectorConfig | undefined;
+    if (!connector || !CRM_ADAPTERS[connector.type]) return null;
+    return { connectorRef, connector };
+};
+
+/**
+ * 27. Push Contacts To CRM (Callable - Gen 2)
+ * Sends the chosen contacts through one of the caller's connectors. Each push counts
+ * as one export against the plan's monthly `exports` limit, like a CSV download.
+ */
+export const pushContactsToCrm = onCall({ timeoutSeconds: 300 }, async (request) => {
+    if (!request.auth) {
+        throw new HttpsError("unauthenticated", "User must be logged in.");
+    }
+    const uid = request.auth.uid;
+    const connectorId = String(request.data?.connectorId || "");
+    const contactIds: string[] = Array.isArray(request.data?.contactIds) ? request.data.contactIds.map(String) : [];
+    if (!connectorId || contactIds.length === 0) {
+        throw new HttpsError("invalid-argument", "Pick a connector and at least one contact.");
+    }
+    if (contactIds.length > CRM_MAX_CONTACTS_PER_PUSH) {
+        throw new HttpsError("invalid-argument", `Push at most ${CRM_MAX_CONTACTS_PER_PUSH} contacts at a time.`);
+    }
+
+    const loaded = await loadConnector(uid, connectorId);
+    if (!loaded || loaded.connector.enabled === false) {
+        throw new HttpsError("not-found", "Connector not found or turned off.");
+    }
+    if (!await isAllowedOutboundUrl(loaded.connector.baseUrl)) {
+        throw new HttpsError("invalid-argument", "The connector URL must use https and point to a public host.");
+    }
+    if (await remainingExports(uid) < 1) {
+        throw new HttpsError("resource-exhausted", "You've used all your exports for this month.");
+    }
+
+    try {
+        const contactsRef = db.collection("users").doc(uid).collection("contacts");
+        const contactDocs = await db.getAll(...contactIds.map(id => contactsRef.doc(id)));
+        let pushed = 0;
+        let failed = 0;
+        // One at a time so CRM rate limits aren't hit in bursts
+        for (const contactDoc of contactDocs.filter(d => d.exists)) {
+            if (await pushContactToCrm(uid, loaded.connectorRef, loaded.connector, contactDoc, "manual")) pushed++;
+            else failed++;
+        }
+
+        if (pushed > 0) await recordExports(uid, 1);
+        await loaded.connectorRef.update({
+            lastSyncAt: admin.firestore.FieldValue.serverTimestamp(),
+            lastSyncStatus: failed === 0 ? "success" : pushed === 0 ? "failed" : "partial"
+        });
+        logger.info(`[CRM] ${uid} pushed ${pushed}/${pushed + failed} contacts via ${loaded.connector.type}`);
+        return { pushed, failed };
+    } catch (error) {
+        logger.error(`[CRM] Push failed for ${uid}:`, error);
+        throw new HttpsError("internal", "Failed to push contacts: " + (error as Error).message);
+    }
+});
+
+/**
+ * 28. Auto-Sync New Contact (Firestore Trigger)
+ * Pushes every new contact through the owner's connectors that have `autoSync` on.
+ * Each contact pushed counts as one export; nothing is sent once the month's exports are used.
+ */
+export const autoSyncNewContact = onDocumentCreated("users/{userId}/contacts/{contactId}", async (event) => {
+    const contactDoc = event.data;
+    if (!contactDoc) return;
+    const uid = event.params.userId;
+
+    try {
+        const connectors = await db.collection("users").doc(uid).collection("connectors")
+            .where("autoSync", "==", true)
+            .get();
+        const allowed = await Promise.all(connectors.docs.map(d => {
+            const connector = d.data() as CrmConnectorConfig;
+            return connector.enabled !== false && CRM_ADAPTERS[connector.type] && isAllowedOutboundUrl(connector.baseUrl);
+        }));
+        const active = connectors.docs.filter((_, i) => allowed[i]);
+        if (active.length === 0) return;
+
+        if (await remainingExports(uid) < 1) {
+            logger.info(`[CRM] Skipped auto-sync for ${uid}: no exports left this month`);
+            return;
+        }
+
+        let pushed = false;
+        for (const connectorDoc of active) {
+            const connector = connectorDoc.data() as CrmConnectorConfig;
+            const ok = await pushContactToCrm(uid, connectorDoc.ref, connector, contactDoc, "auto");
+            await connectorDoc.ref.update({
+                lastSyncAt: admin.firestore.FieldValue.serverTimestamp(),
+                lastSyncStatus: ok ? "success" : "failed"
+            });
+            pushed = pushed || ok;
+        }
+        if (pushed) await recordExports(uid, 1);
+    } catch (error) {
+        logger.error(`[CRM] Auto-sync failed for ${uid}/${event.params.contactId}:`, error);
+    }
+});
+
+// --- Outgoing webhooks ---
+// users/{uid}/webhooks/{webhookId}: { url, events, secret, enabled, description }
+// Each matching interaction becomes a delivery in the webhook's `deliveries` subcollection.
+// The first attempt is immediate; failures back off exponentially through retryWebhookDeliveries
+// and can be replayed by the owner. Receivers verify X-NXC-Signature:
+//   t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>" keyed with the webhook secret>
+
+const WEBHOOK_EVENTS = ["view", "tap", "contact_saved", "link_click", "message"];
+const WEBHOOK_MAX_ATTEMPTS = 6;
+const WEBHOOK_RETRY_BASE_MS = 60 * 1000; // 1, 2, 4, 8 and 16 minutes between attempts
+const WEBHOOK_RETRY_BATCH = 100;
+
+interface WebhookConfig {
+    url: string;
+    events: string[];
+    secret: string;
+    enabled?: boolean;
+}
+
+const toIso = (value: unknown) =>
+    value instanceof admin.firestore.Timestamp ? value.toDate().toISOString() : new Date().toISOString();
+
+// Only the interaction fields a receiver needs; timestamps as ISO strings
+const webhookPayload = (uid: string, deliveryId: string, interactionId: string, interaction: admin.firestore.DocumentData) => JSON.stringify({
+    id: deliveryId,
+    event: interaction.type,
+    createdAt: toIso(interaction.timestamp),
+    profileId: uid,
+    data: {
+        interactionId,
+        ...(interaction.personaId ? { personaId: interaction.personaId } : {}),
+        ...(interaction.cardId ? { cardId: interaction.cardId } : {}),
+        ...(interaction.source ? { source: interaction.source } : {}),
+        ...(interaction.linkTitle ? { linkTitle: interaction.linkTitle, linkUrl: interaction.linkUrl || "" } : {}),
+        ...(interaction.name ? { name: interaction.name } : {}),
+        ...(interaction.email ? { email: interaction.email } : {}),
+        ...(interaction.message ? { message: interaction.message } : {}),
+        ...(interaction.conversationId ? { conversationId: interaction.conversationId } : {}),
+        metadata: interaction.metadata || {}
+    }
+});
+
+const webhookSignature = (secret: string, timestamp: number, body: string) =>
+    `t=${timestamp},v1=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+// One attempt; schedules the next one with backoff, or gives up after WEBHOOK_MAX_ATTEMPTS.
+// A URL that fails validation won't pass later either, so that fails right away.
+const attemptWebhookDelivery = async (deliveryRef: admin.firestore.DocumentReference, webhook: WebhookConfig) => {
+    const delivery = (await deliveryRef.get()).data();
+    if (!delivery) return false;
+
+    const attempts = (delivery.attempts || 0) + 1;
+    const timestamp = Math.floor(Date.now() / 1000);
+    const allowed = await isAllowedOutboundUrl(webhook.url);
+    const result = allowed
+        ? await sendOutboundRequest({
+            method: "POST",
+            url: webhook.url,
+            headers: {
+                "Content-Type": "application/json",
+                "User-Agent": "NXC-Webhooks/1.0",
+                "X-NXC-Event": delivery.event,
+                "X-NXC-Delivery": deliveryRef.id,
+                "X-NXC-Signature": webhookSignature(webhook.secret, timestamp, delivery.payload)
+            },
+            body: delivery.payload
+        }, 1)
+        : { ok: false, status: 0, error: "The webhook URL must use https and point to a public host." };
+
+    const status = result.ok ? "delivered" : !allowed || attempts >= WEBHOOK_MAX_ATTEMPTS ? "failed" : "retrying";
+    await deliveryRef.update({
+        status,
+        attempts,
+        httpStatus: result.status,
+        error: result.error,
+        lastAttemptAt: admin.firestore.FieldValue.serverTimestamp(),
+        nextAttemptAt: status === "retrying"
+            ? admin.firestore.Timestamp.fromMillis(Date.now() + WEBHOOK_RETRY_BASE_MS * 2 ** (attempts - 1))
+            : admin.firestore.FieldValue.delete()
+    });
+    await deliveryRef.parent.parent?.update({
+        lastDeliveryAt: admin.firestore.FieldValue.serverTimestamp(),
+        lastStatus: status
+    });
+    return result.ok;
+};
+
+/**
+ * 29. Deliver Interaction Webhooks (Firestore Trigger)
+ * Sends each new interaction to the owner's enabled webhooks subscribed to its type.
+ */
+export const deliverInteractionWebhooks = onDocumentCreated("users/{userId}/interactions/{interactionId}", async (event) => {
+    const interaction = event.data?.data();
+    if (!interaction || !WEBHOOK_EVENTS.includes(interaction.type)) return;
+    const uid = event.params.userId;
+
+    try {
+        const webhooks = await db.collection("users").doc(uid).collection("webhooks")
+            .where("events", "array-contains", interaction.type)
+            .get();
+
+        await Promise.all(webhooks.docs.filter(d => d.data().enabled !== false).map(async (webhookDoc) => {
+            const deliveryRef = webhookDoc.ref.collection("deliveries").doc();
+            await deliveryRef.set({
+                event: interaction.type,
+                interactionId: event.params.interactionId,
+                payload: webhookPayload(uid, deliveryRef.id, event.params.interactionId, interaction),
+                status: "pending",
+                attempts: 0,
+                createdAt: admin.firestore.FieldValue.serverTimestamp()
+            });
+            await attemptWebhookDelivery(deliveryRef, webhookDoc.data() as WebhookConfig);
+        }));
+    } catch (error) {
+        logger.error(`[Webhooks] Delivery failed for ${uid}/${event.params.interactionId}:`, error);
+    }
+});
+
+/**
+ * 30. Retry Webhook Deliveries (Scheduled)
+ * Picks up deliveries whose backoff has elapsed.
+ */
+export const retryWebhookDeliveries = onSchedule({ schedule: "every 5 minutes", timeoutSeconds: 300 }, async () => {
+    const due = await db.collectionGroup("deliveries")
+        .where("status", "==", "retrying")
+        .where("nextAttemptAt", "<=", admin.firestore.Timestamp.now())
+        .limit(WEBHOOK_RETRY_BATCH)
+        .get();
+
+    let delivered = 0;
+    for (const deliveryDoc of due.docs) {
+        const webhookRef = deliveryDoc.ref.parent.parent;
+        const webhook = webhookRef ? (await webhookRef.get()).data() as WebhookConfig | undefined : undefined;
+        if (!webhook || webhook.enabled === false) {
+            await deliveryDoc.ref.update({
+                status: "failed",
+                error: "Webhook was removed or turned off.",
+                nextAttemptAt: admin.firestore.FieldValue.delete()
+            });
+            continue;
+        }
+        try {
+            if (await attemptWebhookDelivery(deliveryDoc.ref, webhook)) delivered++;
+        } catch (error) {
+            logger.error(`[Webhooks] Retry failed for ${deliveryDoc.ref.path}:`, error);
+        }
+    }
+    if (due.size > 0) logger.info(`[Webhooks] Retried ${due.size} deliveries, ${delivered} delivered`);
+});
+
+/**
+ * 31. Replay Webhook Delivery (Callable - Gen 2)
+ * Sends a delivery again right away with a fresh signature and attempt budget.
+ */
+export const replayWebhookDelivery = onCall(async (request) => {
+    if (!request.auth) {
+        throw new HttpsError("unauthenticated", "User must be logged in.");
+    }
+    const webhookId = String(request.data?.webhookId || "");
+    const deliveryId = String(request.data?.deliveryId || "");
+    if (!webhookId || !deliveryId) {
+        throw new HttpsError("invalid-argument", "Missing delivery.");
+    }
+
+    const webhookRef = db.collection("users").doc(request.auth.uid).collection("webhooks").doc(webhookId);
+    const deliveryRef = webhookRef.collection("deliveries").doc(deliveryId);
+    const [webhookSnap, deliverySnap] = await Promise.all([webhookRef.get(), deliveryRef.get()]);
+    if (!webhookSnap.exists || !deliverySnap.exists) {
+        throw new HttpsError("not-found", "Delivery not found.");
+    }
+
+    try {
+        await deliveryRef.update({
+            status: "pending",
+            attempts: 0,
+            replayedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+        const delivered = await attemptWebhookDelivery(deliveryRef, webhookSnap.data() as WebhookConfig);
+        return { delivered };
+    } catch (error) {
+        logger.error(`[Webhooks] Replay failed for ${deliveryRef.path}:`, error);
+        throw new HttpsError("internal", "Failed to replay delivery: " + (error as Error).message);
+    }
+});
+
+// --- Public REST API ---
+// Read-only access to the caller's own data with personal API keys ("nxc_<hex>").
+// Keys are stored in api_keys/{sha256 of key}; the plain key is shown once at creation.
+// Served at /api/v1/* through Hosting (or /v1/* on the function URL); the OpenAPI
+// document is at /api/v1/openapi.json.
+
+const API_SCOPES = ["profile:read", "contacts:read", "interactions:read", "stats:read"];
+const API_MAX_KEYS = 10;
+const API_RATE_LIMIT = 60; // Requests per key per minute
+const API_RATE_WINDOW_MS = 60 * 1000;
+const API_DEFAULT_PAGE_SIZE = 25;
+const API_MAX_PAGE_SIZE = 100;
+const INTERACTION_TYPES = ["view", "tap", "contact_saved", "link_click", "message"];
+
+// Profile fields the API returns; PIN-protected content and internal flags stay out
+const API_PROFILE_FIELDS = [
+    "displayName", "username", "firstName", "lastName", "photoURL", "coverImage", "bio", "location",
+    "company", "title", "phone", "email", "links", "portfolioItems", "isPublic", "organizationId"
+];
+
+const hashApiKey = (key: string) => crypto.createHash("sha256").update(key).digest("hex");
+
+class ApiError extends Error {
+    constructor(public status: number, public code: string, message: string) {
+        super(message);
+    }
+}
+
+// Firestore Timestamps become ISO strings, recursively
+const toApiJson = (value: unknown): unknown => {
+    if (value instanceof admin.firestore.Timestamp) return value.toDate().toISOString();
+    if (Array.isArray(value)) return value.map(toApiJson);
+    if (value && typeof value === "object") {
+        return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, toApiJson(inner)]));
+    }
+    return value;
+};
+
+const apiPageSize = (value: unknown) => {
+    const size = Number(value || API_DEFAULT_PAGE_SIZE);
+    if (!Number.isInteger(size) || size < 1 || size > API_MAX_PAGE_SIZE) {
+        throw new ApiError(400, "invalid_limit", `limit must be between 1 and ${API_MAX_PAGE_SIZE}.`);
+    }
+    return size;
+};
+
+// Cursor pagination: `cursor` is the id of the last item of the previous page
+const apiPage = async (collectionRef: admin.firestore.CollectionReference, baseQuery: admin.firestore.Query, params: Record<string, unknown>) => {
+    const size = apiPageSize(params.limit);
+    let pageQuery = baseQuery.limit(size + 1);
+    if (params.cursor) {
+        const cursorSnap = await collectionRef.doc(String(params.cursor)).get();
+        if (!cursorSnap.exists) throw new ApiError(400, "invalid_cursor", "cursor doesn't match an item.");
+        pageQuery = pageQuery.startAfter(cursorSnap);
+    }
+    const snapshot = await pageQuery.get();
+    const docs = snapshot.docs.slice(0, size);
+    return {
+        data: docs.map(d => toApiJson({ id: d.id, ...d.data() })),
+        nextCursor: snapshot.docs.length > size ? docs[docs.length - 1].id : null
+    };
+};
+
+const authenticateApiKey = async (authorization: string | undefined) => {
+    const key = (authorization || "").replace(/^Bearer\s+/i, "").trim();
+    if (!key.startsWith("nxc_")) throw new ApiError(401, "unauthorized", "Send your API key as 'Authorization: Bearer <key>'.");
+
+    const keyHash = hashApiKey(key);
+    const keySnap = await db.collection("api_keys").doc(keyHash).get();
+    const apiKey = keySnap.data();
+    if (!apiKey || apiKey.revokedAt) throw new ApiError(401, "unauthorized", "This API key is invalid or has been revoked.");
+
+    const ownerSnap = await db.collection("users").doc(apiKey.uid).get();
+    if (!ownerSnap.exists || ownerSnap.data()?.isBanned) throw new ApiError(403, "forbidden", "This account can't use the API.");
+
+    if (!await consumeRateLimit(db.collection("api_rate_limits").doc(keyHash), API_RATE_LIMIT, API_RATE_WINDOW_MS)) {
+        throw new ApiError(429, "rate_limited", `Rate limit is ${API_RATE_LIMIT} requests per minute.`);
+    }
+    // Written at most once a minute so busy keys don't contend on the doc
+    const lastUsed = apiKey.lastUsedAt?.toMillis() || 0;
+    if (Date.now() - lastUsed > 60 * 1000) {
+        await keySnap.ref.update({ lastUsedAt: admin.firestore.FieldValue.serverTimestamp() });
+    }
+    return { uid: apiKey.uid as string, scopes: (apiKey.scopes || []) as string[], profile: ownerSnap.data() || {} };
+};
+
+const requireScope = (scopes: string[], scope: string) => {
+    if (!scopes.includes(scope)) throw new ApiError(403, "insufficient_scope", `This key needs the '${scope}' scope.`);
+};
+
+const apiOpenApiDocument = (serverUrl: string) => {
+    const page = (item: string) => ({
+        type: "object",
+        properties: {
+            data: { type: "array", items: { $ref: `#/components/schemas/${item}` } },
+            nextCursor: { type: "string", nullable: true, description: "Pass as `cursor` to get the next page" }
+        }
+    });
+    const pageParams = [
+        { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: API_MAX_PAGE_SIZE, default: API_DEFAULT_PAGE_SIZE } },
+        { name: "cursor", in: "query", schema: { type: "string" } }
+    ];
+    const errors = {
+        401: { $ref: "#/components/responses/Error" },
+        403: { $ref: "#/components/responses/Error" },
+        429: { $ref: "#/components/responses/Error" }
+    };
+    const ok = (schema: object) => ({ 200: { description: "OK", content: { "application/json": { schema } } }, ...errors });
+
+    return {
+        openapi: "3.0.3",
+        info: {
+            title: "NXC Badge API",
+            version: "1.0.0",
+            description: `Read-only access to your own profile, contacts, interactions and stats. Create keys in Settings. Limited to ${API_RATE_LIMIT} requests per minute per key.`
+        },
+        servers: [{ url: serverUrl }],
+        security: [{ apiKey: [] }],
+        paths: {
+            "/profile": { get: { summary: "Your profile", "x-scope": "profile:read", responses: ok({ $ref: "#/components/schemas/Profile" }) } },
+            "/contacts": {
+                get: {
+                    summary: "Your saved contacts, newest first",
+                    "x-scope": "contacts:read",
+                    parameters: pageParams,
+                    responses: ok(page("Contact"))
+                }
+            },
+            "/contacts/{id}": {
+                get: {
+                    summary: "One contact",
+                    "x-scope": "contacts:read",
+                    parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+                    responses: { ...ok({ $ref: "#/components/schemas/Contact" }), 404: { $ref: "#/components/responses/Error" } }
+                }
+            },
+            "/interactions": {
+                get: {
+                    summary: "Views, taps, saves, link clicks and messages, newest first",
+                    "x-scope": "interactions:read",
+                    parameters: [...pageParams, { name: "type", in: "query", schema: { type: "string", enum: INTERACTION_TYPES } }],
+                    responses: ok(page("Interaction"))
+                }
+            },
+            "/stats": { get: { summary: "Aggregated totals and daily counts (updated hourly)", "x-scope": "stats:read", responses: ok({ $ref: "#/components/schemas/Stats" }) } }
+        },
+        components: {
+            securitySchemes: { apiKey: { type: "http", scheme: "bearer", description: "Personal API key (nxc_...)" } },
+            responses: {
+                Error: {
+                    description: "Error",
+                    content: {
+                        "application/json": {
+                            schema: {
+                                type: "object",
+                                properties: { error: { type: "object", properties: { code: { type: "string" }, message: { type: "string" } } } }
+                            }
+                        }
+                    }
+                }
+            },
+            schemas: {
+                Profile: {
+                    type: "object",
+                    properties: Object.fromEntries(API_PROFILE_FIELDS.map(field => [field, field === "links" || field === "portfolioItems"
+                        ? { type: "array", items: { type: "object" } }
+                        : field === "isPublic" ? { type: "boolean" } : { type: "string" }]))
+                },
+                Contact: {
+                    type: "object",
+                    properties: {
+                        id: { type: "string" }, name: { type: "string" }, email: { type: "string" }, phone: { type: "string" },
+                        company: { type: "string" }, title: { type: "string" }, location: { type: "string" }, source: { type: "string" },
+                        stage: { type: "string" }, tags: { type: "array", items: { type: "string" } },
+                        savedAt: { type: "string", format: "date-time" }, followUpAt: { type: "string", format: "date-time", nullable: true }
+                    }
+                },
+                Interaction: {
+                    type: "object",
+                    properties: {
+                        id: { type: "string" }, type: { type: "string", enum: INTERACTION_TYPES },
+                        timestamp: { type: "string", format: "date-time" }, personaId: { type: "string" }, metadata: { type: "object" }
+                    }
+                },
+                Stats: {
+                    type: "object",
+                    properties: {
+                        totalViews: { type: "integer" }, totalTaps: { type: "integer" }, totalContacts: { type: "integer" },
+                        engagementRate: { type: "number" }, daily: { type: "object", additionalProperties: { type: "object" } },
+                        lastUpdated: { type: "string", format: "date-time" }
+                    }
+                }
+            }
+        }
+    };
+};
+
+/**
+ * 32. Create API Key (Callable - Gen 2)
+ * Returns the new key once; only its hash is kept.
+ */
+export const createApiKey = onCall(async (request) => {
+    if (!request.auth) {
+        throw new HttpsError("unauthenticated", "User must be logged in.");
+    }
+    const uid = request.auth.uid;
+    const name = String(request.data?.name || "").trim().slice(0, 60) || "API key";
+    const scopes: string[] = Array.isArray(request.data?.scopes) ? request.data.scopes.filter((s: unknown) => API_SCOPES.includes(String(s))) : [];
+    if (scopes.length === 0) {
+        throw new HttpsError("invalid-argument", "Pick at least one scope.");
+    }
+
+    const active = await db.collection("api_keys").where("uid", "==", uid).where("revokedAt", "==", null).get();
+    if (active.size >= API_MAX_KEYS) {
+        throw new HttpsError("resource-exhausted", `You can have up to ${API_MAX_KEYS} active keys. Revoke one first.`);
+    }
+
+    const key = `nxc_${crypto.randomBytes(24).toString("hex")}`;
+    await db.collection("api_keys").doc(hashApiKey(key)).set({
+        uid,
+        name,
+        scopes,
+        prefix: key.slice(0, 12),
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        lastUsedAt: null,
+        revokedAt: null
+    });
+    logger.info(`[API] Key created for ${uid} with ${scopes.join(", ")}`);
+    return { key };
+});
+
+/**
+ * 33. Revoke API Key (Callable - Gen 2)
+ */
+export const revokeApiKey = onCall(async (request) => {
+    if (!request.auth) {
+        throw new HttpsError("unauthenticated", "User must be logged in.");
+    }
+    const keyRef = db.collection("api_keys").doc(String(request.data?.keyId || "-"));
+    const keySnap = await keyRef.get();
+    if (!keySnap.exists || keySnap.data()?.uid !== request.auth.uid) {
+        throw new HttpsError("not-found", "API key not found.");
+    }
+    await keyRef.update({ revokedAt: admin.firestore.FieldValue.serverTimestamp() });
+    return { success: true };
+});
+
+/**
+ * 34. REST API (HTTP - Gen 2)
+ * GET-only JSON API over the key owner's data. Errors are { error: { code, message } }.
+ */
+export const api = onRequest(async (req, res) => {
+    res.set("Access-Control-Allow-Origin", "*");
+    res.set("Access-Control-Allow-Headers", "Authorization");
+    res.set("Access-Control-Allow-Methods", "GET, OPTIONS");
+    if (req.method === "OPTIONS") {
+        res.status(204).send("");
+        return;
+    }
+
+    // Hosting forwards the full path (/api/v1/...); the function URL doesn't
+    const path = req.path.replace(/^\/api/, "").replace(/\/+$/, "");
+    const [, version, resource, id] = path.split("/");
+    const params = req.query as Record<string, unknown>;
+
+    try {
+        if (req.method !== "GET") throw new ApiError(405, "method_not_allowed", "The API is read-only.");
+        if (version !== "v1") throw new ApiError(404, "not_found", "Unknown endpoint. See /api/v1/openapi.json.");
+
+        if (resource === "openapi.json") {
+            const base = req.path.startsWith("/api") ? "/api/v1" : "/v1";
+            res.json(apiOpenApiDocument(base));
+            return;
+        }
+
+        const { uid, scopes, profile } = await authenticateApiKey(req.headers.authorization);
+        res.set("X-RateLimit-Limit", String(API_RATE_LIMIT));
+        const userRef = db.collection("users").doc(uid);
+
+        if (resource === "profile" && !id) {
+            requireScope(scopes, "profile:read");
+            const fields = Object.fromEntries(API_PROFILE_FIELDS.filter(field => profile[field] !== undefined).map(field => [field, profile[field]]));
+            res.json(toApiJson({ uid, ...fields }));
+            return;
+        }
+
+        if (resource === "contacts") {
+            requireScope(scopes, "contacts:read");
+            const contactsRef = userRef.collection("contacts");
+            if (id) {
+                const contactSnap = await contactsRef.doc(id).get();
+                if (!contactSnap.exists) throw new ApiError(404, "not_found", "Contact not found.");
+                res.json(toApiJson({ id: contactSnap.id, ...contactSnap.data() }));
+                return;
+            }
+            res.json(await apiPage(contactsRef, contactsRef.orderBy("savedAt", "desc"), params));
+            return;
+        }
+
+        if (resource === "interactions" && !id) {
+            requireScope(scopes, "interactions:read");
+            const interactionsRef = userRef.collection("interactions");
+            let interactionsQuery: admin.firestore.Query = interactionsRef;
+            if (params.type) {
+                if (!INTERACTION_TYPES.includes(String(params.type))) throw new ApiError(400, "invalid_type", `type must be one of ${INTERACTION_TYPES.join(", ")}.`);
+                interactionsQuery = interactionsQuery.where("type", "==", String(params.type));
+            }
+            res.json(await apiPage(interactionsRef, interactionsQuery.orderBy("timestamp", "desc"), params));
+            return;
+        }
+
+        if (resource === "stats" && !id) {
+            requireScope(scopes, "stats:read");
+            const statsSnap = await userRef.collection("stats").doc("main").get();
+            res.json(toApiJson(statsSnap.data() || { totalViews: 0, totalTaps: 0, totalContacts: 0, engagementRate: 0, daily: {} }));
+            return;
+        }
+
+        throw new ApiError(404, "not_found", "Unknown endpoint. See /api/v1/openapi.json.");
+    } catch (error) {
+        if (error instanceof ApiError) {
+            if (error.status === 429) res.set("Retry-After", String(API_RATE_WINDOW_MS / 1000));
+            res.status(error.status).json({ error: { code: error.code, message: error.message } });
+            return;
         }
+        logger.error(`[API] ${req.method} ${req.path} failed:`, error);
+        res.status(500).json({ error: { code: "internal", message: "Something went wrong." } });
     }
 });
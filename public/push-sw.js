@@ -0,0 +1,34 @@
+// Web push for new leads and messages (sent by the sendInteractionAlert function)
+self.addEventListener("push", (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : "" };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "NXC Badge", {
+      body: payload.body || "",
+      icon: "/nxcverse.svg",
+      data: { url: payload.url || "/dashboard" }
+    })
+  );
+});
+
+// Focus an open dashboard tab if there is one, otherwise open the alert's page
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/dashboard", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => c.url.startsWith(self.location.origin));
+      if (client) {
+        client.navigate(url);
+        return client.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
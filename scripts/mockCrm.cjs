@@ -0,0 +1,92 @@
+// Local stand-in for the CRM connectors, for use with the functions emulator.
+// Speaks just enough of the HubSpot and Salesforce contact APIs, plus a plain webhook.
+//
+// Usage: node scripts/mockCrm.cjs [port]
+// Then set a connector's base URL to http://localhost:4010 (webhook: http://localhost:4010/hook).
+//
+// Failure injection, to exercise retries:
+//   MOCK_CRM_FAIL_FIRST=2    answer 503 to the first 2 requests for each contact
+//   MOCK_CRM_STATUS=401      answer every request with this status
+const http = require('http');
+const crypto = require('crypto');
+
+const port = Number(process.argv[2] || process.env.PORT || 4010);
+const failFirst = Number(process.env.MOCK_CRM_FAIL_FIRST || 0);
+const forcedStatus = Number(process.env.MOCK_CRM_STATUS || 0);
+
+const contacts = new Map(); // email (or generated key) -> { id, properties }
+const attemptsByKey = new Map();
+
+const send = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve) => {
+    let data = '';
+    req.on('data', (chunk) => { data += chunk; });
+    req.on('end', () => {
+        try {
+            resolve(data ? JSON.parse(data) : {});
+        } catch {
+            resolve(null);
+        }
+    });
+});
+
+const server = http.createServer(async (req, res) => {
+    const body = await readBody(req);
+    const url = new URL(req.url, `http://localhost:${port}`);
+    console.log(`${req.method} ${url.pathname}`, JSON.stringify(body));
+
+    if (body === null) return send(res, 400, { message: 'Invalid JSON' });
+    if (forcedStatus) return send(res, forcedStatus, { message: `Forced ${forcedStatus}` });
+
+    const properties = body.properties || body.contact || body;
+    const key = String(properties.email || properties.Email || JSON.stringify(properties));
+    const attempt = (attemptsByKey.get(key) || 0) + 1;
+    attemptsByKey.set(key, attempt);
+    if (attempt <= failFirst) {
+        res.setHeader('Retry-After', '1');
+        return send(res, 503, { message: `Injected failure ${attempt}/${failFirst}` });
+    }
+
+    // HubSpot-style
+    if (req.method === 'POST' && url.pathname === '/crm/v3/objects/contacts') {
+        if (properties.email && contacts.has(properties.email)) {
+            return send(res, 409, { status: 'error', category: 'CONFLICT', message: 'Contact already exists' });
+        }
+        const id = crypto.randomBytes(6).toString('hex');
+        contacts.set(properties.email || id, { id, properties });
+        return send(res, 201, { id, properties, createdAt: new Date().toISOString() });
+    }
+    if (req.method === 'PATCH' && url.pathname.startsWith('/crm/v3/objects/contacts/')) {
+        const email = decodeURIComponent(url.pathname.split('/').pop());
+        const existing = contacts.get(email);
+        if (!existing) return send(res, 404, { message: 'Not found' });
+        existing.properties = { ...existing.properties, ...properties };
+        return send(res, 200, { id: existing.id, properties: existing.properties });
+    }
+
+    // Salesforce-style
+    if (req.method === 'POST' && /^\/services\/data\/v[\d.]+\/sobjects\/Contact$/.test(url.pathname)) {
+        if (!properties.LastName) {
+            return send(res, 400, [{ errorCode: 'REQUIRED_FIELD_MISSING', message: 'Required fields are missing: [LastName]' }]);
+        }
+        const id = `003${crypto.randomBytes(6).toString('hex')}`;
+        contacts.set(properties.Email || id, { id, properties });
+        return send(res, 201, { id, success: true, errors: [] });
+    }
+
+    // Generic webhook
+    if (req.method === 'POST' && url.pathname === '/hook') {
+        console.log('  signature:', req.headers['x-nxc-signature'] || '(none)');
+        return send(res, 200, { id: crypto.randomBytes(6).toString('hex'), received: true });
+    }
+
+    send(res, 404, { message: 'Unknown endpoint' });
+});
+
+server.listen(port, () => {
+    console.log(`Mock CRM listening on http://localhost:${port}`);
+});
@@ -25,7 +25,9 @@ const Signup = lazy(() => import("./pages/Signup"));
 const PublicProfile = lazy(() => import("./pages/PublicProfile"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 const RedirectHandler = lazy(() => import("./pages/RedirectHandler"));
+const ShareLinkRedirect = lazy(() => import("./pages/ShareLinkRedirect"));
 const TapHandler = lazy(() => import("./pages/TapHandler"));
+const CardSuspended = lazy(() => import("./pages/CardSuspended"));
 
 // Dashboard Pages - Lazy Loaded
 const DashboardHome = lazy(() => import("./pages/dashboard/DashboardHome"));
@@ -39,6 +41,10 @@ const Checkout = lazy(() => import("@/pages/dashboard/Checkout"));
 const CustomizeOrder = lazy(() => import("@/pages/dashboard/CustomizeOrder").then(module => ({ default: module.CustomizeOrder })));
 const EditOrder = lazy(() => import("@/pages/dashboard/EditOrder").then(module => ({ default: module.EditOrder })));
 const MyCards = lazy(() => import("@/pages/dashboard/MyCards"));
+const Organization = lazy(() => import("./pages/dashboard/Organization"));
+const TeamAnalytics = lazy(() => import("./pages/dashboard/TeamAnalytics"));
+const ShareLinks = lazy(() => import("./pages/dashboard/ShareLinks"));
+const Inbox = lazy(() => import("./pages/dashboard/Inbox"));
 
 // Admin - Lazy Loaded
 const AdminOrders = lazy(() => import("./pages/admin/Orders"));
@@ -127,6 +133,8 @@ const App = () => {
 
                 {/* NFC Card Redirect */}
                 <Route path="/c/:cardId" element={<RedirectHandler />} />
+                <Route path="/s/:code" element={<ShareLinkRedirect />} />
+                <Route path="/card-suspended" element={<CardSuspended />} />
 
                 {/* Dashboard Routes - Protected */}
                 <Route element={<RequireAuth />}>
@@ -143,6 +151,10 @@ const App = () => {
                     <Route path="/dashboard/edit-order/:orderId" element={<EditOrder />} />
                     <Route path="/dashboard/checkout" element={<Checkout />} />
                     <Route path="my-cards" element={<MyCards />} />
+                    <Route path="organization" element={<Organization />} />
+                    <Route path="team-analytics" element={<TeamAnalytics />} />
+                    <Route path="share-links" element={<ShareLinks />} />
+                    <Route path="inbox" element={<Inbox />} />
                   </Route>
                 </Route>
 
@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { NeonButton } from "@/components/ui/NeonButton";
+import { Cpu, Download, Loader2, AlertTriangle, X } from "lucide-react";
+import { toast } from "sonner";
+import { cardService, FulfilledCard } from "@/services/cardService";
+import { getFriendlyErrorMessage } from "@/lib/errorUtils";
+
+interface FulfillmentPanelProps {
+    selectedOrderIds: string[];
+    onClearSelection: () => void;
+    onBound: (cards: FulfilledCard[]) => void;
+}
+
+// NDEF URI record: TNF 0x01 (well-known), type "U", payload = prefix byte + rest of URI.
+// Prefix 0x04 abbreviates "https://" so the chip stores fewer bytes.
+const NDEF_URI_PREFIX_HTTPS = 0x04;
+
+const toNdefRecord = (cardId: string) => {
+    const uri = `https://${cardService.getCardUrl(cardId)}`;
+    const rest = new TextEncoder().encode(uri.replace(/^https:\/\//, ""));
+    const payloadHex = [NDEF_URI_PREFIX_HTTPS, ...rest].map(b => b.toString(16).padStart(2, "0")).join("");
+    return { tnf: 1, type: "U", uri, payloadHex };
+};
+
+const downloadFile = (content: string, filename: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Admin fulfillment: mint + bind a card for each selected order, then export an
+ * NDEF encoding manifest (one URI record per chip) for the encoding station.
+ */
+export const FulfillmentPanel = ({ selectedOrderIds, onClearSelection, onBound }: FulfillmentPanelProps) => {
+    const [binding, setBinding] = useState(false);
+    const [manifest, setManifest] = useState<FulfilledCard[]>([]);
+
+    const handleBind = async () => {
+        setBinding(true);
+        try {
+            const cards = await cardService.bindCardsToOrders(selectedOrderIds);
+            setManifest(cards);
+            const failed = cards.filter(c => c.error).length;
+            if (failed > 0) {
+                toast.error(`${failed} order(s) could not be fulfilled`);
+            } else {
+                toast.success(`Bound ${cards.length} card(s)`);
+            }
+            onClearSelection();
+            onBound(cards);
+        } catch (error) {
+            toast.error(getFriendlyErrorMessage(error) || "Failed to bind cards");
+        } finally {
+            setBinding(false);
+        }
+    };
+
+    const records = manifest.filter(c => c.cardId).map((c, index) => ({
+        chip: index + 1,
+        cardId: c.cardId as string,
+        orderId: c.orderId,
+        userId: c.userId || "",
+        recipient: c.recipient || "",
+        claimCode: c.claimCode || "",
+        ndef: toNdefRecord(c.cardId as string)
+    }));
+
+    const exportCSV = () => {
+        const headers = ["Chip", "Card ID", "Order ID", "User ID", "Recipient", "URL", "NDEF TNF", "NDEF Type", "NDEF Payload (hex)", "Claim Code"];
+        const rows = records.map(r => [
+            r.chip, r.cardId, r.orderId, r.userId, r.recipient, r.ndef.uri, r.ndef.tnf, r.ndef.type, r.ndef.payloadHex, r.claimCode
+        ]);
+        const csvContent = [headers, ...rows]
+            .map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(","))
+            .join("\n");
+        downloadFile(csvContent, `ndef-manifest-${new Date().toISOString().split("T")[0]}.csv`, "text/csv;charset=utf-8;");
+    };
+
+    const exportJSON = () => {
+        const content = JSON.stringify({ version: 1, generatedAt: new Date().toISOString(), records }, null, 2);
+        downloadFile(content, `ndef-manifest-${new Date().toISOString().split("T")[0]}.json`, "application/json");
+    };
+
+    if (selectedOrderIds.length === 0 && manifest.length === 0) return null;
+
+    return (
+        <GlassCard className="p-6 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-primary/10 text-primary">
+                        <Cpu className="w-5 h-5" />
+                    </div>
+                    <div>
+                        <h3 className="font-bold text-foreground">Card Fulfillment</h3>
+                        <p className="text-sm text-muted-foreground">
+                            {selectedOrderIds.length > 0
+                                ? `${selectedOrderIds.length} order(s) selected`
+                                : `${records.length} card(s) in manifest`}
+                        </p>
+                    </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    {selectedOrderIds.length > 0 && (
+                        <NeonButton onClick={handleBind} disabled={binding} size="sm">
+                            {binding ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Cpu className="w-4 h-4 mr-2" />}
+                            Mint & Bind Cards
+                        </NeonButton>
+                    )}
+                    {records.length > 0 && (
+                        <>
+                            <NeonButton variant="outline" onClick={exportCSV} size="sm">
+                                <Download className="w-4 h-4 mr-2" /> CSV
+                            </NeonButton>
+                            <NeonButton variant="outline" onClick={exportJSON} size="sm">
+                                <Download className="w-4 h-4 mr-2" /> JSON
+                            </NeonButton>
+                            <button
+                                onClick={() => setManifest([])}
+                                className="p-2 rounded-lg hover:bg-white/10 text-muted-foreground"
+                                title="Clear manifest"
+                            >
+                                <X className="w-4 h-4" />
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {records.some(r => r.claimCode) && (
+                <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/20 text-xs text-yellow-500 flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    Claim codes are shown only once. Export the manifest before leaving this page.
+                </div>
+            )}
+
+            {manifest.length > 0 && (
+                <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs uppercase text-muted-foreground border-b border-white/10">
+                                <th className="py-2 pr-4">Order</th>
+                                <th className="py-2 pr-4">Recipient</th>
+                                <th className="py-2 pr-4">Card URL</th>
+                                <th className="py-2">Claim Code</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {manifest.map((c, i) => (
+                                <tr key={`${c.orderId}-${c.cardId || i}`} className="border-b border-white/5">
+                                    <td className="py-2 pr-4 font-mono">#{c.orderId.slice(0, 8)}</td>
+                                    <td className="py-2 pr-4">{c.recipient || "—"}</td>
+                                    <td className="py-2 pr-4 font-mono">
+                                        {c.cardId ? cardService.getCardUrl(c.cardId) : <span className="text-destructive">{c.error}</span>}
+                                    </td>
+                                    <td className="py-2 font-mono text-primary">{c.claimCode || "—"}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </motion.div>
+            )}
+        </GlassCard>
+    );
+};
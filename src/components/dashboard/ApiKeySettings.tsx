@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Copy, ExternalLink, KeyRound, Plus, Trash2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiKeyService, ApiKey, ApiScope, API_SCOPES, API_DOCS_PATH } from "@/services/apiKeyService";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { NeonButton } from "@/components/ui/NeonButton";
+import { NeonBadge } from "@/components/ui/NeonBadge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { toast } from "@/hooks/use-toast";
+import { getFriendlyErrorMessage } from "@/lib/errorUtils";
+
+const inputClass = "w-full px-4 py-3 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20 text-foreground";
+
+// Owner settings for personal REST API keys
+export const ApiKeySettings = () => {
+  const { currentUser } = useAuth();
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiScope[]>(API_SCOPES.map(s => s.id));
+  const [creating, setCreating] = useState(false);
+  const [newKey, setNewKey] = useState<string | null>(null); // Shown once
+
+  const loadKeys = useCallback(async () => {
+    if (!currentUser) return;
+    try {
+      setKeys(await apiKeyService.getApiKeys(currentUser.uid));
+    } catch (error) {
+      console.error("Error loading API keys:", error);
+    }
+  }, [currentUser]);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const handleCreate = async () => {
+    if (scopes.length === 0) {
+      toast({ title: "Pick at least one scope", variant: "destructive" });
+      return;
+    }
+    setCreating(true);
+    try {
+      setNewKey(await apiKeyService.createApiKey(name.trim(), scopes));
+      setName("");
+      await loadKeys();
+    } catch (error) {
+      toast({ title: "Error", description: getFriendlyErrorMessage(error), variant: "destructive" });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!window.confirm(`Revoke "${key.name}"? Anything using it stops working right away.`)) return;
+    try {
+      await apiKeyService.revokeApiKey(key.id);
+      await loadKeys();
+    } catch (error) {
+      toast({ title: "Error", description: getFriendlyErrorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const copyKey = async (key: string) => {
+    await navigator.clipboard.writeText(key);
+    toast({ title: "Copied", description: "API key copied to clipboard." });
+  };
+
+  const toggleScope = (scope: ApiScope) =>
+    setScopes(scopes.includes(scope) ? scopes.filter(s => s !== scope) : [...scopes, scope]);
+
+  return (
+    <GlassCard className="p-6">
+      <div className="flex items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+            <KeyRound className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold font-display text-foreground">API Keys</h2>
+            <p className="text-sm text-muted-foreground">Read your profile, contacts and stats from your own code</p>
+          </div>
+        </div>
+        <a
+          href={API_DOCS_PATH}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-sm text-primary hover:underline shrink-0"
+        >
+          API docs <ExternalLink className="w-3 h-3" />
+        </a>
+      </div>
+
+      {newKey && (
+        <div className="p-4 mb-4 rounded-xl bg-primary/10 border border-primary/20">
+          <p className="text-sm font-medium text-foreground mb-2">Copy your new key now. You won't see it again.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs text-foreground bg-muted px-3 py-2 rounded break-all">{newKey}</code>
+            <button onClick={() => copyKey(newKey)} className="p-2 text-muted-foreground hover:text-primary" title="Copy">
+              <Copy className="w-4 h-4" />
+            </button>
+          </div>
+          <button onClick={() => setNewKey(null)} className="mt-2 text-xs text-muted-foreground hover:text-primary">Done</button>
+        </div>
+      )}
+
+      <div className="space-y-3 mb-6">
+        {keys.map(key => (
+          <div key={key.id} className={`flex items-center justify-between gap-4 p-4 rounded-xl bg-muted/50 ${key.revokedAt ? "opacity-60" : ""}`}>
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <p className="font-medium text-foreground truncate">{key.name}</p>
+                {key.revokedAt && <NeonBadge variant="error" className="px-2 py-0.5">Revoked</NeonBadge>}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                <code>{key.prefix}…</code> · {key.scopes.map(s => API_SCOPES.find(a => a.id === s)?.label || s).join(", ")}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {key.lastUsedAt ? `Last used ${formatDistanceToNow(key.lastUsedAt.toDate(), { addSuffix: true })}` : "Never used"}
+              </p>
+            </div>
+            {!key.revokedAt && (
+              <button onClick={() => handleRevoke(key)} className="p-2 text-muted-foreground hover:text-destructive" title="Revoke">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">Key Name</label>
+          <input
+            type="text"
+            value={name}
+            maxLength={60}
+            placeholder="e.g. Reporting script"
+            onChange={(e) => setName(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">Scopes</label>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {API_SCOPES.map(scope => (
+              <label key={scope.id} className="flex items-center gap-3 p-3 rounded-xl bg-muted/50 cursor-pointer">
+                <Checkbox checked={scopes.includes(scope.id)} onCheckedChange={() => toggleScope(scope.id)} />
+                <span className="text-sm text-foreground">{scope.label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+        <NeonButton onClick={handleCreate} disabled={creating}>
+          <Plus className="w-4 h-4 mr-2" />
+          {creating ? "Creating..." : "Create API Key"}
+        </NeonButton>
+      </div>
+    </GlassCard>
+  );
+};
@@ -0,0 +1,49 @@
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
+import { GlassCard } from "@/components/ui/GlassCard";
+
+interface BreakdownChartProps {
+    title: string;
+    values: string[]; // One entry per interaction, e.g. its device or country
+    limit?: number;
+}
+
+/**
+ * Horizontal bar chart of the most common values, with the rest grouped as "Other".
+ */
+export const BreakdownChart = ({ title, values, limit = 5 }: BreakdownChartProps) => {
+    const counts = new Map<string, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+
+    const sorted = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+    const data = sorted.slice(0, limit).map(([name, count]) => ({ name, count }));
+    const rest = sorted.slice(limit).reduce((sum, [, count]) => sum + count, 0);
+    if (rest > 0) data.push({ name: "Other", count: rest });
+
+    return (
+        <GlassCard className="p-4">
+            <h3 className="text-sm font-semibold text-foreground mb-3">{title}</h3>
+            {data.length > 0 ? (
+                <div style={{ height: data.length * 32 + 8 }}>
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={data} layout="vertical" margin={{ left: 0, right: 16 }}>
+                            <XAxis type="number" hide allowDecimals={false} />
+                            <YAxis type="category" dataKey="name" width={96} stroke="hsl(var(--muted-foreground))" fontSize={12} tickLine={false} axisLine={false} />
+                            <Tooltip
+                                cursor={{ fill: "hsl(var(--muted))" }}
+                                contentStyle={{
+                                    backgroundColor: "hsl(var(--card))",
+                                    border: "1px solid hsl(var(--border))",
+                                    borderRadius: "12px",
+                                    color: "hsl(var(--foreground))"
+                                }}
+                            />
+                            <Bar dataKey="count" name="Interactions" fill="hsl(var(--primary))" radius={[0, 6, 6, 0]} barSize={16} />
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+            ) : (
+                <p className="text-sm text-muted-foreground py-4 text-center">No data yet</p>
+            )}
+        </GlassCard>
+    );
+};
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Bell, Plus, Tag, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { contactService, Contact, PIPELINE_STAGES, MAX_NOTE_LENGTH } from "@/services/contactService";
+
+interface ContactCrmPanelProps {
+  contact: Contact;
+}
+
+// Stage, follow-up, tags and private notes for one contact (used in the contact detail modal)
+export const ContactCrmPanel = ({ contact }: ContactCrmPanelProps) => {
+  const { currentUser } = useAuth();
+  const [tagInput, setTagInput] = useState("");
+  const [noteInput, setNoteInput] = useState("");
+  const [savingNote, setSavingNote] = useState(false);
+
+  if (!currentUser) return null;
+  const uid = currentUser.uid;
+
+  const run = async (action: Promise<void>, failure: string) => {
+    try {
+      await action;
+    } catch (error) {
+      toast.error((error as Error).message || failure);
+    }
+  };
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = contactService.normalizeTag(tagInput);
+    if (!tag) return;
+    setTagInput("");
+    run(contactService.setTags(uid, contact.id, [...contact.tags, tag]), "Failed to add tag");
+  };
+
+  const handleAddNote = async () => {
+    setSavingNote(true);
+    try {
+      await contactService.addNote(uid, contact.id, noteInput);
+      setNoteInput("");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to add note");
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 mt-4">
+      {/* Pipeline stage */}
+      <div>
+        <p className="text-xs text-muted-foreground mb-2">Stage</p>
+        <div className="flex flex-wrap gap-2">
+          {PIPELINE_STAGES.map(stage => (
+            <button
+              key={stage.id}
+              onClick={() => run(contactService.setStage(uid, contact.id, stage.id), "Failed to update stage")}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm border transition-colors ${contact.stage === stage.id
+                ? "border-primary bg-primary/10 text-foreground font-medium"
+                : "border-border text-muted-foreground hover:bg-muted"
+                }`}
+            >
+              <span className={`w-2 h-2 rounded-full ${stage.color}`} />
+              {stage.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Follow-up reminder */}
+      <div className="flex items-center gap-3 p-3 rounded-xl bg-muted">
+        <Bell className={`w-5 h-5 ${contactService.isOverdue(contact) ? "text-destructive" : "text-primary"}`} />
+        <div className="flex-1">
+          <p className="text-xs text-muted-foreground">Follow Up On</p>
+          <input
+            type="date"
+            value={contact.followUpAt ? format(contact.followUpAt, "yyyy-MM-dd") : ""}
+            onChange={(e) => run(
+              contactService.setFollowUp(uid, contact.id, e.target.value ? new Date(`${e.target.value}T09:00:00`) : null),
+              "Failed to set reminder"
+            )}
+            className="bg-transparent text-foreground focus:outline-none"
+          />
+        </div>
+        {contact.followUpAt && (
+          <button
+            onClick={() => run(contactService.setFollowUp(uid, contact.id, null), "Failed to clear reminder")}
+            className="p-1.5 rounded-lg hover:bg-background/50 text-muted-foreground"
+            title="Clear Reminder"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {/* Tags */}
+      <div>
+        <p className="text-xs text-muted-foreground mb-2">Tags</p>
+        <div className="flex flex-wrap items-center gap-2">
+          {contact.tags.map(tag => (
+            <span key={tag} className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full bg-primary/10 text-primary text-xs">
+              <Tag className="w-3 h-3" />
+              {tag}
+              <button
+                onClick={() => run(contactService.setTags(uid, contact.id, contact.tags.filter(t => t !== tag)), "Failed to remove tag")}
+                className="hover:text-destructive"
+                title="Remove Tag"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <form onSubmit={handleAddTag} className="flex items-center gap-1">
+            <input
+              type="text"
+              placeholder="Add tag"
+              value={tagInput}
+              maxLength={30}
+              onChange={(e) => setTagInput(e.target.value)}
+              className="w-24 px-2 py-1 rounded-lg bg-muted border border-border focus:border-primary focus:outline-none text-foreground text-xs"
+            />
+            <button type="submit" className="p-1 rounded-lg hover:bg-muted text-primary" title="Add Tag">
+              <Plus className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+      </div>
+
+      {/* Private notes */}
+      <div>
+        <p className="text-xs text-muted-foreground mb-2">Private Notes</p>
+        <div className="space-y-2 mb-2">
+          {[...contact.privateNotes].reverse().map(note => (
+            <div key={note.id} className="group p-3 rounded-xl bg-muted">
+              <div className="flex items-start justify-between gap-2">
+                <p className="text-foreground text-sm whitespace-pre-wrap flex-1">{note.text}</p>
+                <button
+                  onClick={() => run(contactService.deleteNote(uid, contact.id, note), "Failed to delete note")}
+                  className="opacity-0 group-hover:opacity-100 p-1 text-muted-foreground hover:text-destructive transition-opacity"
+                  title="Delete Note"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">{format(note.createdAt.toDate(), "MMM d, yyyy · h:mm a")}</p>
+            </div>
+          ))}
+        </div>
+        <textarea
+          rows={2}
+          placeholder="Add a note only you can see..."
+          value={noteInput}
+          maxLength={MAX_NOTE_LENGTH}
+          onChange={(e) => setNoteInput(e.target.value)}
+          className="w-full px-3 py-2 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none text-foreground text-sm resize-none"
+        />
+        <button
+          onClick={handleAddNote}
+          disabled={savingNote || !noteInput.trim()}
+          className="mt-1 text-sm text-primary font-medium hover:underline disabled:opacity-50 disabled:no-underline"
+        >
+          {savingNote ? "Saving..." : "Add Note"}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Bell, Building } from "lucide-react";
+import { contactService, Contact, PipelineStage, PIPELINE_STAGES } from "@/services/contactService";
+
+interface ContactPipelineBoardProps {
+  contacts: Contact[];
+  onOpen: (contact: Contact) => void;
+  onMove: (contact: Contact, stage: PipelineStage) => void;
+}
+
+// Kanban view of contacts by pipeline stage; drag a card to another column to move it
+export const ContactPipelineBoard = ({ contacts, onOpen, onMove }: ContactPipelineBoardProps) => {
+  const [dragOver, setDragOver] = useState<PipelineStage | null>(null);
+
+  const handleDrop = (e: React.DragEvent, stage: PipelineStage) => {
+    e.preventDefault();
+    setDragOver(null);
+    const contact = contacts.find(c => c.id === e.dataTransfer.getData("text/plain"));
+    if (contact && contact.stage !== stage) onMove(contact, stage);
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {PIPELINE_STAGES.map(stage => {
+        const column = contacts.filter(c => c.stage === stage.id);
+        return (
+          <div
+            key={stage.id}
+            onDragOver={(e) => { e.preventDefault(); setDragOver(stage.id); }}
+            onDragLeave={() => setDragOver(null)}
+            onDrop={(e) => handleDrop(e, stage.id)}
+            className={`flex-shrink-0 w-64 rounded-2xl border p-3 transition-colors ${dragOver === stage.id ? "border-primary bg-primary/5" : "border-border bg-muted/30"}`}
+          >
+            <div className="flex items-center gap-2 mb-3 px-1">
+              <span className={`w-2.5 h-2.5 rounded-full ${stage.color}`} />
+              <h3 className="font-semibold text-foreground">{stage.label}</h3>
+              <span className="ml-auto text-xs text-muted-foreground">{column.length}</span>
+            </div>
+            <div className="space-y-2 min-h-[4rem]">
+              {column.map(contact => (
+                <div
+                  key={contact.id}
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData("text/plain", contact.id)}
+                  onClick={() => onOpen(contact)}
+                  className="p-3 rounded-xl bg-card border border-border hover:border-primary/50 cursor-pointer transition-colors"
+                >
+                  <p className="font-medium text-foreground truncate">{contact.name}</p>
+                  {contact.company && (
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground truncate">
+                      <Building className="w-3 h-3" /> {contact.company}
+                    </p>
+                  )}
+                  {contact.followUpAt && (
+                    <p className={`flex items-center gap-1 text-xs mt-1 ${contactService.isOverdue(contact) ? "text-destructive" : "text-muted-foreground"}`}>
+                      <Bell className="w-3 h-3" /> {format(contact.followUpAt, "MMM d")}
+                    </p>
+                  )}
+                  {contact.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {contact.tags.map(tag => (
+                        <span key={tag} className="px-1.5 py-0.5 rounded bg-primary/10 text-primary text-[10px]">{tag}</span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import { useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { ArrowDown } from "lucide-react";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDashboard } from "@/contexts/DashboardContext";
+import { analyticsService, AnalyticsBucket } from "@/services/analyticsService";
+
+// 0 = all time (read from the lifetime totals)
+const RANGES = [7, 30, 90, 0] as const;
+type FunnelRange = typeof RANGES[number];
+
+/**
+ * View → link click → contact saved → message, with the conversion from each step
+ * to the next. Follows the dashboard's persona filter.
+ */
+export const ConversionFunnel = () => {
+    const { currentUser } = useAuth();
+    const { activePersonaId } = useDashboard();
+    const [range, setRange] = useState<FunnelRange>(30);
+    const [buckets, setBuckets] = useState<AnalyticsBucket[]>([]);
+
+    useEffect(() => {
+        if (!currentUser) return;
+        analyticsService.getBuckets(currentUser.uid, range || undefined)
+            .then(setBuckets)
+            .catch(error => console.error(error));
+    }, [currentUser, range]);
+
+    const steps = useMemo(() => analyticsService.getFunnel(buckets, activePersonaId), [buckets, activePersonaId]);
+    const top = Math.max(steps[0]?.count || 0, 1);
+
+    return (
+        <GlassCard className="p-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+                <h2 className="text-xl font-bold font-display text-foreground">Conversion Funnel</h2>
+                <div className="flex rounded-xl bg-muted/50 border border-border p-1">
+                    {RANGES.map(days => (
+                        <button
+                            key={days}
+                            onClick={() => setRange(days)}
+                            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${range === days ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground"}`}
+                        >
+                            {days ? `${days}d` : "All"}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                {steps.map((step, index) => (
+                    <div key={step.type}>
+                        {step.conversionRate !== null && (
+                            <div className="flex items-center gap-2 text-xs text-muted-foreground py-1 pl-2">
+                                <ArrowDown className="w-3 h-3" />
+                                <span><span className="text-primary font-medium">{step.conversionRate}%</span> of the previous step</span>
+                            </div>
+                        )}
+                        <div className="flex items-center gap-4">
+                            <span className="w-32 text-sm text-muted-foreground shrink-0">{step.label}</span>
+                            <div className="flex-1 h-8 rounded-lg bg-muted/50 overflow-hidden">
+                                <motion.div
+                                    className="h-full rounded-lg bg-primary"
+                                    style={{ opacity: 1 - index * 0.18 }}
+                                    initial={{ width: 0 }}
+                                    animate={{ width: `${Math.min(100, (step.count / top) * 100)}%` }}
+                                    transition={{ duration: 0.5, delay: index * 0.1 }}
+                                />
+                            </div>
+                            <span className="w-14 text-right text-sm font-medium text-foreground">{step.count.toLocaleString()}</span>
+                        </div>
+                    </div>
+                ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-4">Link clicks are counted once per link per visit.</p>
+        </GlassCard>
+    );
+};
@@ -0,0 +1,297 @@
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { ChevronDown, ChevronUp, Plus, Save, Share2, Trash2, X } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  connectorService,
+  Connector,
+  ConnectorInput,
+  ConnectorType,
+  CONNECTOR_TYPES,
+  CONTACT_SOURCE_FIELDS,
+  ContactSourceField,
+  SyncLogEntry,
+} from "@/services/connectorService";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { NeonButton } from "@/components/ui/NeonButton";
+import { NeonBadge } from "@/components/ui/NeonBadge";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "@/hooks/use-toast";
+import { getFriendlyErrorMessage } from "@/lib/errorUtils";
+
+const inputClass = "w-full px-4 py-3 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20 text-foreground";
+
+// Field map rows are kept as a list while editing so CRM field names can be renamed in place
+interface Draft extends Omit<ConnectorInput, "fieldMap"> {
+  id?: string;
+  fieldRows: [string, ContactSourceField][];
+}
+
+const toDraft = ({ fieldMap, ...data }: ConnectorInput & { id?: string }): Draft => ({
+  id: data.id,
+  type: data.type,
+  name: data.name,
+  baseUrl: data.baseUrl,
+  apiKey: data.apiKey,
+  autoSync: data.autoSync,
+  enabled: data.enabled,
+  fieldRows: Object.entries(fieldMap),
+});
+
+const STATUS_VARIANTS = { success: "success", partial: "warning", failed: "error" } as const;
+
+// Owner settings for pushing contacts to HubSpot, Salesforce or any webhook
+export const CrmConnectorSettings = () => {
+  const { currentUser } = useAuth();
+  const [connectors, setConnectors] = useState<Connector[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [logFor, setLogFor] = useState<string | null>(null);
+  const [log, setLog] = useState<SyncLogEntry[]>([]);
+
+  const loadConnectors = useCallback(async () => {
+    if (!currentUser) return;
+    try {
+      setConnectors(await connectorService.getConnectors(currentUser.uid));
+    } catch (error) {
+      console.error("Error loading connectors:", error);
+    }
+  }, [currentUser]);
+
+  useEffect(() => {
+    loadConnectors();
+  }, [loadConnectors]);
+
+  const toggleLog = async (connectorId: string) => {
+    if (!currentUser) return;
+    if (logFor === connectorId) {
+      setLogFor(null);
+      return;
+    }
+    setLogFor(connectorId);
+    setLog([]);
+    try {
+      setLog(await connectorService.getSyncLog(currentUser.uid, connectorId));
+    } catch (error) {
+      toast({ title: "Error", description: getFriendlyErrorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!currentUser || !draft) return;
+    if (!/^https?:\/\/.+/.test(draft.baseUrl.trim())) {
+      toast({ title: "Check the URL", description: "Enter the full address, starting with https://", variant: "destructive" });
+      return;
+    }
+    const fieldMap = Object.fromEntries(
+      draft.fieldRows.map(([target, source]) => [target.trim(), source]).filter(([target]) => target)
+    ) as Record<string, ContactSourceField>;
+    if (Object.keys(fieldMap).length === 0) {
+      toast({ title: "Map at least one field", variant: "destructive" });
+      return;
+    }
+
+    const { id, fieldRows: _rows, ...data } = draft;
+    const payload = { ...data, name: data.name.trim() || CONNECTOR_TYPES[data.type].label, baseUrl: data.baseUrl.trim(), apiKey: data.apiKey.trim(), fieldMap };
+    setSaving(true);
+    try {
+      if (id) await connectorService.updateConnector(currentUser.uid, id, payload);
+      else await connectorService.createConnector(currentUser.uid, payload);
+      toast({ title: "Connector Saved", description: payload.autoSync ? "New contacts will be pushed automatically." : "Push contacts from the Contacts page." });
+      setDraft(null);
+      await loadConnectors();
+    } catch (error) {
+      toast({ title: "Error", description: getFriendlyErrorMessage(error), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (connectorId: string) => {
+    if (!currentUser || !window.confirm("Delete this connector? Contacts already pushed stay in your CRM.")) return;
+    try {
+      await connectorService.deleteConnector(currentUser.uid, connectorId);
+      await loadConnectors();
+    } catch (error) {
+      toast({ title: "Error", description: getFriendlyErrorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const mapRows = draft?.fieldRows || [];
+  const setMapRows = (fieldRows: [string, ContactSourceField][]) => {
+    if (draft) setDraft({ ...draft, fieldRows });
+  };
+
+  const renderDraft = (current: Draft) => (
+    <div className="space-y-4 p-4 rounded-xl bg-muted/30 border border-border">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">Name</label>
+          <input
+            type="text"
+            value={current.name}
+            maxLength={60}
+            onChange={(e) => setDraft({ ...current, name: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-2">{current.type === "webhook" ? "Webhook URL" : "API Base URL"}</label>
+          <input
+            type="url"
+            value={current.baseUrl}
+            onChange={(e) => setDraft({ ...current, baseUrl: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-foreground mb-2">{CONNECTOR_TYPES[current.type].keyLabel}</label>
+        <input
+          type="password"
+          value={current.apiKey}
+          autoComplete="off"
+          onChange={(e) => setDraft({ ...current, apiKey: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-foreground mb-2">Field Mapping</label>
+        <p className="text-xs text-muted-foreground mb-3">CRM field name on the left, the contact value to send on the right.</p>
+        <div className="space-y-2">
+          {mapRows.map(([target, source], index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={target}
+                onChange={(e) => setMapRows(mapRows.map((row, i) => (i === index ? [e.target.value, row[1]] : row)))}
+                className={`${inputClass} py-2`}
+              />
+              <select
+                value={source}
+                onChange={(e) => setMapRows(mapRows.map((row, i) => (i === index ? [row[0], e.target.value as ContactSourceField] : row)))}
+                className={`${inputClass} py-2`}
+              >
+                {CONTACT_SOURCE_FIELDS.map(field => (
+                  <option key={field.id} value={field.id}>{field.label}</option>
+                ))}
+              </select>
+              <button onClick={() => setMapRows(mapRows.filter((_, i) => i !== index))} className="p-2 text-muted-foreground hover:text-destructive">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setMapRows([...mapRows, ["", "email"]])}
+          className="flex items-center gap-1 mt-2 text-sm text-primary hover:underline"
+        >
+          <Plus className="w-4 h-4" /> Add field
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between p-3 rounded-xl bg-muted/50">
+        <div>
+          <p className="text-sm text-foreground">Push new contacts automatically</p>
+          <p className="text-xs text-muted-foreground">Each contact pushed counts as one export</p>
+        </div>
+        <Switch checked={current.autoSync} onCheckedChange={(autoSync) => setDraft({ ...current, autoSync })} />
+      </div>
+      <div className="flex items-center justify-between p-3 rounded-xl bg-muted/50">
+        <span className="text-sm text-foreground">Enabled</span>
+        <Switch checked={current.enabled} onCheckedChange={(enabled) => setDraft({ ...current, enabled })} />
+      </div>
+
+      <div className="flex gap-3">
+        <NeonButton onClick={handleSave} disabled={saving}>
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? "Saving..." : "Save Connector"}
+        </NeonButton>
+        <NeonButton variant="outline" onClick={() => setDraft(null)}>Cancel</NeonButton>
+      </div>
+    </div>
+  );
+
+  return (
+    <GlassCard className="p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+          <Share2 className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <h2 className="text-xl font-bold font-display text-foreground">CRM Connectors</h2>
+          <p className="text-sm text-muted-foreground">Send your contacts and leads to the CRM you already use</p>
+        </div>
+      </div>
+
+      <div className="space-y-3 mb-4">
+        {connectors.map(connector => (
+          <div key={connector.id} className="p-4 rounded-xl bg-muted/50">
+            <div className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium text-foreground truncate">{connector.name}</p>
+                  <NeonBadge variant={connector.enabled ? "info" : "default"} className="px-2 py-0.5">
+                    {CONNECTOR_TYPES[connector.type]?.label || connector.type}
+                  </NeonBadge>
+                  {connector.autoSync && connector.enabled && <NeonBadge variant="success" className="px-2 py-0.5">Auto</NeonBadge>}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {connector.lastSyncAt
+                    ? `Last push ${formatDistanceToNow(connector.lastSyncAt.toDate(), { addSuffix: true })}`
+                    : "Never pushed"}
+                  {connector.lastSyncStatus && connector.lastSyncStatus !== "success" && (
+                    <NeonBadge variant={STATUS_VARIANTS[connector.lastSyncStatus]} className="ml-2 px-2 py-0.5">{connector.lastSyncStatus}</NeonBadge>
+                  )}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <NeonButton size="sm" variant="outline" onClick={() => toggleLog(connector.id)}>
+                  Log {logFor === connector.id ? <ChevronUp className="w-4 h-4 ml-1" /> : <ChevronDown className="w-4 h-4 ml-1" />}
+                </NeonButton>
+                <NeonButton size="sm" variant="outline" onClick={() => setDraft(toDraft(connector))}>Edit</NeonButton>
+                <button onClick={() => handleDelete(connector.id)} className="p-2 text-muted-foreground hover:text-destructive">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {logFor === connector.id && (
+              <div className="mt-4 space-y-2 max-h-64 overflow-y-auto">
+                {log.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No pushes yet</p>
+                ) : log.map(entry => (
+                  <div key={entry.id} className="flex items-start justify-between gap-3 text-sm border-t border-border/50 pt-2">
+                    <div className="min-w-0">
+                      <p className="text-foreground truncate">{entry.contactName || entry.contactId}</p>
+                      {entry.error && <p className="text-xs text-destructive break-words">{entry.error}</p>}
+                      <p className="text-xs text-muted-foreground">
+                        {entry.trigger === "auto" ? "Auto" : "Manual"} · {entry.attempts} attempt{entry.attempts === 1 ? "" : "s"}
+                        {entry.at && ` · ${formatDistanceToNow(entry.at.toDate(), { addSuffix: true })}`}
+                      </p>
+                    </div>
+                    <NeonBadge variant={STATUS_VARIANTS[entry.status]} className="px-2 py-0.5 shrink-0">
+                      {entry.status === "success" ? "Sent" : `Failed${entry.httpStatus ? ` (${entry.httpStatus})` : ""}`}
+                    </NeonBadge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {draft ? renderDraft(draft) : (
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(CONNECTOR_TYPES) as ConnectorType[]).map(type => (
+            <NeonButton key={type} size="sm" variant="outline" onClick={() => setDraft(toDraft(connectorService.newConnector(type)))}>
+              <Plus className="w-4 h-4 mr-2" />
+              {CONNECTOR_TYPES[type].label}
+            </NeonButton>
+          ))}
+        </div>
+      )}
+    </GlassCard>
+  );
+};
@@ -0,0 +1,57 @@
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { Bell, ChevronRight } from "lucide-react";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { useDashboard } from "@/contexts/DashboardContext";
+import { contactService } from "@/services/contactService";
+
+// Contacts whose follow-up reminder is today or overdue (won / lost deals are skipped)
+export const DueFollowUps = () => {
+    const { contacts } = useDashboard();
+    const due = useMemo(() => contactService.getDueFollowUps(contacts.map(contactService.toContact)), [contacts]);
+
+    return (
+        <GlassCard className="p-6">
+            <div className="flex items-center justify-between mb-6">
+                <h2 className="text-xl font-bold font-display text-foreground">Due Today</h2>
+                {due.length > 0 && (
+                    <span className="px-2.5 py-0.5 rounded-full bg-primary/10 text-primary text-sm font-medium">{due.length}</span>
+                )}
+            </div>
+            {due.length > 0 ? (
+                <div className="space-y-2">
+                    {due.slice(0, 6).map(contact => {
+                        const overdue = contactService.isOverdue(contact);
+                        return (
+                            <Link
+                                key={contact.id}
+                                to={`/dashboard/contacts?c=${contact.id}`}
+                                className="flex items-center gap-3 p-3 rounded-xl bg-muted/50 hover:bg-muted transition-colors group"
+                            >
+                                <Bell className={`w-5 h-5 ${overdue ? "text-destructive" : "text-primary"}`} />
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-foreground font-medium truncate">{contact.name}</p>
+                                    <p className={`text-xs ${overdue ? "text-destructive" : "text-muted-foreground"}`}>
+                                        {overdue ? `Overdue since ${format(contact.followUpAt as Date, "MMM d")}` : "Today"}
+                                        {contact.company && ` • ${contact.company}`}
+                                    </p>
+                                </div>
+                                <ChevronRight className="w-4 h-4 text-muted-foreground group-hover:text-primary transition-colors" />
+                            </Link>
+                        );
+                    })}
+                    {due.length > 6 && (
+                        <Link to="/dashboard/contacts" className="block text-center text-sm text-primary hover:underline pt-2">
+                            View all {due.length}
+                        </Link>
+                    )}
+                </div>
+            ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                    No follow-ups due
+                </div>
+            )}
+        </GlassCard>
+    );
+};
@@ -0,0 +1,236 @@
+import { useMemo, useState } from "react";
+import { ArrowLeft, Mail, Merge, Phone, User } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { NeonButton } from "@/components/ui/NeonButton";
+import { useAuth } from "@/contexts/AuthContext";
+import { contactService, Contact, MERGE_FIELDS, MergePicks } from "@/services/contactService";
+import { DuplicateGroup, MatchReason } from "@/lib/contactMatching";
+
+interface DuplicateContactsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  contacts: Contact[];
+  groups: DuplicateGroup[]; // from findDuplicateGroups(contacts)
+}
+
+const REASON_LABELS: Record<MatchReason, { label: string; icon: typeof Mail }> = {
+  email: { label: "Same email", icon: Mail },
+  phone: { label: "Same phone", icon: Phone },
+  name: { label: "Similar name", icon: User },
+};
+
+interface Review {
+  group: DuplicateGroup;
+  included: string[];
+  primaryId: string;
+  picks: MergePicks;
+}
+
+// Lists likely duplicates; merge them one group at a time side by side, or all exact matches at once
+export const DuplicateContactsDialog = ({ isOpen, onClose, contacts, groups }: DuplicateContactsDialogProps) => {
+  const { currentUser } = useAuth();
+  const [review, setReview] = useState<Review | null>(null);
+  const [merging, setMerging] = useState(false);
+
+  const exactGroups = groups.filter(g => g.exact);
+  const byId = useMemo(() => new Map(contacts.map(c => [c.id, c])), [contacts]);
+  const groupContacts = (ids: string[]) => ids.map(id => byId.get(id)).filter((c): c is Contact => !!c);
+
+  const startReview = (group: DuplicateGroup) => {
+    const members = groupContacts(group.ids);
+    const primaryId = contactService.pickPrimary(members).id;
+    setReview({ group, included: group.ids, primaryId, picks: contactService.defaultPicks(members, primaryId) });
+  };
+
+  const handleMerge = async () => {
+    if (!currentUser || !review) return;
+    const members = groupContacts(review.included);
+    if (members.length < 2) {
+      toast.error("Pick at least two contacts to merge");
+      return;
+    }
+    setMerging(true);
+    try {
+      await contactService.mergeContacts(currentUser.uid, members, review.primaryId, review.picks);
+      toast.success(`Merged ${members.length} contacts`);
+      setReview(null);
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to merge contacts");
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const handleAutoMerge = async () => {
+    if (!currentUser) return;
+    setMerging(true);
+    let merged = 0;
+    try {
+      for (const group of exactGroups) {
+        const members = groupContacts(group.ids);
+        await contactService.mergeContacts(currentUser.uid, members, contactService.pickPrimary(members).id);
+        merged++;
+      }
+      toast.success(`Merged ${merged} group${merged === 1 ? "" : "s"} of duplicates`);
+    } catch (error) {
+      console.error(error);
+      toast.error(`Merged ${merged} group${merged === 1 ? "" : "s"}, then failed. Please try again.`);
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const renderReview = ({ included, primaryId, picks, group }: Review) => {
+    const members = groupContacts(group.ids);
+    const toggleIncluded = (id: string) => {
+      const next = included.includes(id) ? included.filter(i => i !== id) : [...included, id];
+      setReview({ group, included: next, primaryId: next.includes(primaryId) ? primaryId : next[0] || primaryId, picks });
+    };
+
+    return (
+      <div className="space-y-4">
+        <button
+          onClick={() => setReview(null)}
+          className="flex items-center gap-2 text-sm text-muted-foreground hover:text-primary transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          All duplicates
+        </button>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className="p-2 w-24"></th>
+                {members.map(contact => (
+                  <th key={contact.id} className="p-2 text-left align-top">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={included.includes(contact.id)}
+                        onChange={() => toggleIncluded(contact.id)}
+                        className="w-4 h-4 accent-primary"
+                      />
+                      <span className="font-semibold text-foreground">{contact.source === "import" ? "Imported" : contact.isLead ? "Lead form" : "Saved"}</span>
+                    </label>
+                    <p className="text-xs font-normal text-muted-foreground mt-1">{contact.savedAt.toLocaleDateString()}</p>
+                    <label className="flex items-center gap-2 mt-2 text-xs font-normal text-muted-foreground cursor-pointer">
+                      <input
+                        type="radio"
+                        name="primary"
+                        checked={primaryId === contact.id}
+                        disabled={!included.includes(contact.id)}
+                        onChange={() => setReview({ group, included, primaryId: contact.id, picks })}
+                        className="accent-primary"
+                      />
+                      Keep this record
+                    </label>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {MERGE_FIELDS.filter(({ key }) => members.some(c => c[key])).map(({ key, label }) => (
+                <tr key={key} className="border-t border-border/50">
+                  <td className="p-2 text-xs text-muted-foreground">{label}</td>
+                  {members.map(contact => (
+                    <td key={contact.id} className={`p-2 ${included.includes(contact.id) ? "" : "opacity-40"}`}>
+                      {contact[key] ? (
+                        <label className="flex items-start gap-2 cursor-pointer">
+                          <input
+                            type="radio"
+                            name={`pick-${key}`}
+                            checked={picks[key] === contact.id}
+                            disabled={!included.includes(contact.id)}
+                            onChange={() => setReview({ group, included, primaryId, picks: { ...picks, [key]: contact.id } })}
+                            className="mt-1 accent-primary"
+                          />
+                          {key === "photoURL" ? (
+                            <img src={contact[key]} alt="" className="w-10 h-10 rounded-full object-cover" />
+                          ) : (
+                            <span className="text-foreground break-words">{contact[key]}</span>
+                          )}
+                        </label>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Tags, private notes, links and lead answers from every selected contact are kept. The other records are deleted.
+        </p>
+        <NeonButton onClick={handleMerge} disabled={merging || included.length < 2} className="w-full">
+          <Merge className="w-4 h-4 mr-2" />
+          {merging ? "Merging..." : `Merge ${included.length} Contacts`}
+        </NeonButton>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) { setReview(null); onClose(); } }}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Duplicate Contacts</DialogTitle>
+          <DialogDescription>
+            Matched by email, phone number or a similar name.
+          </DialogDescription>
+        </DialogHeader>
+
+        {review ? renderReview(review) : groups.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No duplicates found</p>
+        ) : (
+          <div className="space-y-3">
+            {exactGroups.length > 0 && (
+              <div className="flex items-center justify-between gap-4 p-4 rounded-xl bg-primary/10 border border-primary/20">
+                <p className="text-sm text-foreground">
+                  {exactGroups.length} group{exactGroups.length === 1 ? "" : "s"} share an email or phone and can be merged automatically.
+                </p>
+                <NeonButton size="sm" onClick={handleAutoMerge} disabled={merging}>
+                  {merging ? "Merging..." : "Merge All"}
+                </NeonButton>
+              </div>
+            )}
+            {groups.map(group => (
+              <div key={group.ids.join("|")} className="flex items-center justify-between gap-4 p-4 rounded-xl bg-muted/50">
+                <div className="min-w-0">
+                  <p className="font-medium text-foreground truncate">
+                    {groupContacts(group.ids).map(c => c.name).join(" · ")}
+                  </p>
+                  <div className="flex flex-wrap gap-3 mt-1">
+                    {group.reasons.map(reason => {
+                      const { label, icon: Icon } = REASON_LABELS[reason];
+                      return (
+                        <span key={reason} className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <Icon className="w-3 h-3" /> {label}
+                        </span>
+                      );
+                    })}
+                    {!group.exact && <span className="text-xs text-warning">Possible match</span>}
+                  </div>
+                </div>
+                <NeonButton size="sm" variant="outline" onClick={() => startReview(group)}>
+                  Review
+                </NeonButton>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { ClipboardList, Save } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { userService } from "@/services/userService";
+import { leadService, LeadFormConfig, LeadOptionalField, DEFAULT_LEAD_FORM, MAX_LEAD_QUESTIONS } from "@/services/leadService";
+import { formService } from "@/services/formService";
+import { FormFieldsEditor } from "@/components/forms/FormFieldsEditor";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { NeonButton } from "@/components/ui/NeonButton";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "@/hooks/use-toast";
+import { getFriendlyErrorMessage } from "@/lib/errorUtils";
+
+const OPTIONAL_FIELDS: { key: LeadOptionalField; label: string }[] = [
+  { key: "phone", label: "Phone" },
+  { key: "company", label: "Company" },
+  { key: "note", label: "Note" },
+];
+
+const inputClass = "w-full px-4 py-3 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20 text-foreground";
+
+// Owner settings for the "share your details" form on the public profile (all personas)
+export const LeadFormSettings = () => {
+  const { currentUser } = useAuth();
+  const [config, setConfig] = useState<LeadFormConfig>(DEFAULT_LEAD_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    userService.getUserProfile(currentUser.uid)
+      .then(profile => setConfig(leadService.withDefaults(profile?.leadForm)))
+      .catch(err => console.error("Error loading lead form settings:", err));
+  }, [currentUser]);
+
+  const handleSave = async () => {
+    if (!currentUser) return;
+    if (!config.consentText.trim()) {
+      toast({ title: "Consent text required", description: "Tell visitors what they're agreeing to.", variant: "destructive" });
+      return;
+    }
+    const invalid = config.customFields.find(f => !f.label.trim() || (formService.hasOptions(f) && !f.options?.some(o => o.trim())));
+    if (invalid) {
+      toast({ title: "Check your questions", description: "Every question needs a label, and choice questions need at least one option.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      await userService.updateUserProfile(currentUser.uid, {
+        leadForm: {
+          ...config,
+          title: config.title.trim() || DEFAULT_LEAD_FORM.title,
+          consentText: config.consentText.trim(),
+          customFields: config.customFields.map(f => ({
+            ...f,
+            label: f.label.trim(),
+            options: formService.hasOptions(f) ? (f.options || []).map(o => o.trim()).filter(Boolean) : []
+          }))
+        }
+      });
+      toast({ title: "Lead Form Saved", description: config.enabled ? "Visitors can now share their details with you." : "The lead form is hidden." });
+    } catch (error) {
+      toast({ title: "Error", description: getFriendlyErrorMessage(error), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <GlassCard className="p-6">
+      <div className="flex items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+            <ClipboardList className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold font-display text-foreground">Lead Capture Form</h2>
+            <p className="text-sm text-muted-foreground">Let visitors share their details without an account</p>
+          </div>
+        </div>
+        <Switch checked={config.enabled} onCheckedChange={(enabled) => setConfig({ ...config, enabled })} />
+      </div>
+
+      {config.enabled && (
+        <div className="space-y-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">Form Title</label>
+            <input
+              type="text"
+              value={config.title}
+              maxLength={60}
+              onChange={(e) => setConfig({ ...config, title: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">Fields</label>
+            <p className="text-xs text-muted-foreground mb-3">Name and email are always asked.</p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {OPTIONAL_FIELDS.map(field => (
+                <div key={field.key} className="flex items-center justify-between p-3 rounded-xl bg-muted/50">
+                  <span className="text-sm text-foreground">{field.label}</span>
+                  <Switch
+                    checked={config.fields[field.key]}
+                    onCheckedChange={(checked) => setConfig({ ...config, fields: { ...config.fields, [field.key]: checked } })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">Your Questions</label>
+            <p className="text-xs text-muted-foreground mb-3">
+              Ask visitors anything else, like "What are you interested in?" ({config.customFields.length}/{MAX_LEAD_QUESTIONS})
+            </p>
+            <FormFieldsEditor
+              fields={config.customFields}
+              onChange={(customFields) => setConfig({ ...config, customFields: customFields.slice(0, MAX_LEAD_QUESTIONS) })}
+              labelPlaceholder="e.g. What are you interested in?"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">Consent Text</label>
+            <textarea
+              rows={2}
+              value={config.consentText}
+              maxLength={500}
+              onChange={(e) => setConfig({ ...config, consentText: e.target.value })}
+              className={`${inputClass} resize-none`}
+            />
+          </div>
+        </div>
+      )}
+
+      <NeonButton onClick={handleSave} disabled={saving}>
+        <Save className="w-4 h-4 mr-2" />
+        {saving ? "Saving..." : "Save Lead Form"}
+      </NeonButton>
+    </GlassCard>
+  );
+};
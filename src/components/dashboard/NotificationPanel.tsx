@@ -4,7 +4,7 @@ import { Bell, X, Check, Eye, MousePointer, UserPlus, MessageSquare, CheckCircle
 import { cn } from "@/lib/utils";
 import { doc, getDoc, updateDoc, collection, query, orderBy, limit, onSnapshot, where } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { interactionService } from "@/services/interactionService";
 import { toast } from "sonner";
@@ -20,6 +20,7 @@ interface Notification {
   email?: string;
   visitorId?: string; // [NEW]
   message?: string;
+  conversationId?: string; // Messages sent since the inbox open in their thread
   time: string;
   location: string;
   read: boolean;
@@ -32,6 +33,7 @@ interface NotificationPanelProps {
 
 export const NotificationPanel = ({ isOpen, onClose }: NotificationPanelProps) => {
   const { currentUser } = useAuth();
+  const navigate = useNavigate();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isSelectionMode, setIsSelectionMode] = useState(false);
@@ -79,6 +81,7 @@ export const NotificationPanel = ({ isOpen, onClose }: NotificationPanelProps) =
               email: data.email,
               visitorId: data.visitorId, // [NEW] Keep visitorId for blocking
               message: data.message,
+              conversationId: data.conversationId,
               location: data.metadata?.location || "Unknown Location",
               time: data.timestamp?.toDate ?
                 data.timestamp.toDate().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) :
@@ -333,6 +336,10 @@ export const NotificationPanel = ({ isOpen, onClose }: NotificationPanelProps) =
                             toggleSelection(notification.id);
                           } else {
                             handleMarkAsRead(notification.id);
+                            if (notification.conversationId) {
+                              navigate(`/dashboard/inbox?c=${notification.conversationId}`);
+                              onClose();
+                            }
                           }
                         }}
                         className={cn(
@@ -0,0 +1,29 @@
+import { UserCircle } from "lucide-react";
+import { useDashboard } from "@/contexts/DashboardContext";
+import { DEFAULT_PERSONA_ID } from "@/services/personaService";
+
+/**
+ * Scopes dashboard analytics to one persona. Hidden until the user has created one.
+ */
+export const PersonaFilter = () => {
+    const { personas, activePersonaId, setActivePersonaId } = useDashboard();
+
+    if (personas.length === 0) return null;
+
+    return (
+        <div className="flex items-center gap-2 px-3 py-2 bg-muted/50 rounded-xl border border-border">
+            <UserCircle className="w-4 h-4 text-muted-foreground" />
+            <select
+                value={activePersonaId}
+                onChange={(e) => setActivePersonaId(e.target.value)}
+                className="bg-transparent border-none text-sm text-foreground focus:ring-0 outline-none cursor-pointer"
+            >
+                <option value="all" className="bg-zinc-900">All Profiles</option>
+                <option value={DEFAULT_PERSONA_ID} className="bg-zinc-900">Main Profile</option>
+                {personas.map(persona => (
+                    <option key={persona.id} value={persona.id} className="bg-zinc-900">{persona.label}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
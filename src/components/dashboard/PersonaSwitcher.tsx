@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { Plus, Trash2, Check, X } from "lucide-react";
+import ConfirmDialog from "@/components/ui/ConfirmDialog";
+import { Persona, DEFAULT_PERSONA_ID } from "@/services/personaService";
+
+interface PersonaSwitcherProps {
+    personas: Persona[];
+    activePersonaId: string;
+    onSelect: (personaId: string) => void;
+    onCreate: (label: string) => Promise<void>;
+    onDelete: (personaId: string) => Promise<void>;
+}
+
+/**
+ * Tabs for the main profile and each persona, plus create/delete.
+ */
+export const PersonaSwitcher = ({ personas, activePersonaId, onSelect, onCreate, onDelete }: PersonaSwitcherProps) => {
+    const [isCreating, setIsCreating] = useState(false);
+    const [newLabel, setNewLabel] = useState("");
+    const [busy, setBusy] = useState(false);
+    const [confirmDelete, setConfirmDelete] = useState(false);
+
+    const activePersona = personas.find(p => p.id === activePersonaId);
+
+    const handleCreate = async () => {
+        setBusy(true);
+        try {
+            await onCreate(newLabel);
+            setNewLabel("");
+            setIsCreating(false);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!activePersona) return;
+        setBusy(true);
+        try {
+            await onDelete(activePersona.id);
+            setConfirmDelete(false);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const tabClass = (active: boolean) =>
+        `px-4 py-2 rounded-xl text-sm font-medium border transition-all ${active
+            ? "bg-primary/10 border-primary text-foreground"
+            : "bg-muted/50 border-border text-muted-foreground hover:border-primary/50"
+        }`;
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => onSelect(DEFAULT_PERSONA_ID)} className={tabClass(activePersonaId === DEFAULT_PERSONA_ID)}>
+                Main Profile
+            </button>
+            {personas.map(persona => (
+                <button key={persona.id} onClick={() => onSelect(persona.id)} className={tabClass(activePersonaId === persona.id)}>
+                    {persona.label}
+                </button>
+            ))}
+
+            {isCreating ? (
+                <div className="flex items-center gap-1">
+                    <input
+                        type="text"
+                        value={newLabel}
+                        onChange={(e) => setNewLabel(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                        placeholder="e.g. Work"
+                        maxLength={30}
+                        autoFocus
+                        className="px-3 py-2 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none text-sm text-foreground w-32"
+                    />
+                    <button onClick={handleCreate} disabled={busy || !newLabel.trim()} className="p-2 rounded-lg text-primary hover:bg-primary/10 disabled:opacity-50">
+                        <Check className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => { setIsCreating(false); setNewLabel(""); }} className="p-2 rounded-lg text-muted-foreground hover:bg-muted">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            ) : (
+                <button onClick={() => setIsCreating(true)} className="flex items-center gap-1 px-3 py-2 rounded-xl text-sm text-primary hover:bg-primary/10 transition-colors">
+                    <Plus className="w-4 h-4" /> New Profile
+                </button>
+            )}
+
+            {activePersona && (
+                <button
+                    onClick={() => setConfirmDelete(true)}
+                    className="ml-auto p-2 rounded-lg text-destructive hover:bg-destructive/10 transition-colors"
+                    title="Delete this profile"
+                >
+                    <Trash2 className="w-4 h-4" />
+                </button>
+            )}
+
+            <ConfirmDialog
+                isOpen={confirmDelete}
+                onClose={() => setConfirmDelete(false)}
+                onConfirm={handleDelete}
+                title={`Delete "${activePersona?.label}"?`}
+                description="Its username is released and any cards or QR codes pointing at it will open your main profile instead."
+                confirmText="Delete Profile"
+                type="danger"
+                loading={busy}
+            />
+        </div>
+    );
+};
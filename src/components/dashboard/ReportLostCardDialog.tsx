@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { doc, getDoc } from "firebase/firestore";
+import { toast } from "sonner";
+import ConfirmDialog from "@/components/ui/ConfirmDialog";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/contexts/AuthContext";
+import { cardService } from "@/services/cardService";
+import { REPLACEMENT_PLAN_ID } from "@/services/planService";
+import { getFriendlyErrorMessage } from "@/lib/errorUtils";
+
+interface ReportLostCardDialogProps {
+    card: { id: string; orderId?: string } | null;
+    onClose: () => void;
+    onReported: (cardId: string) => void;
+}
+
+/**
+ * Two-step flow: suspend the card, then offer a discounted replacement
+ * through the normal Checkout/orders flow.
+ */
+export const ReportLostCardDialog = ({ card, onClose, onReported }: ReportLostCardDialogProps) => {
+    const { currentUser } = useAuth();
+    const navigate = useNavigate();
+    const [step, setStep] = useState<"confirm" | "replace">("confirm");
+    const [loading, setLoading] = useState(false);
+
+    if (!card) return null;
+
+    const handleClose = () => {
+        setStep("confirm");
+        onClose();
+    };
+
+    const handleSuspend = async () => {
+        if (!currentUser) return;
+        setLoading(true);
+        try {
+            await cardService.reportLost(currentUser.uid, card.id);
+            onReported(card.id);
+            toast.success("Card suspended. Taps will no longer open your profile.");
+            setStep("replace");
+        } catch (error) {
+            console.error(error);
+            toast.error(getFriendlyErrorMessage(error) || "Failed to suspend card");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleOrderReplacement = async () => {
+        setLoading(true);
+        // Reprint with the same design when the lost card came from an order
+        let customizationData = {};
+        let formFields = [];
+        try {
+            if (card.orderId) {
+                const orderSnap = await getDoc(doc(db, "orders", card.orderId));
+                if (orderSnap.exists()) {
+                    customizationData = orderSnap.data().customization || {};
+                    formFields = orderSnap.data().formSnapshot || [];
+                }
+            }
+        } catch (error) {
+            console.warn("Could not load original order design:", error);
+        } finally {
+            setLoading(false);
+        }
+
+        navigate(`/dashboard/checkout?plan=${REPLACEMENT_PLAN_ID}&replaces=${card.id}`, {
+            state: { customizationData, formFields }
+        });
+    };
+
+    return step === "confirm" ? (
+        <ConfirmDialog
+            isOpen
+            onClose={handleClose}
+            onConfirm={handleSuspend}
+            title="Report Card Lost?"
+            description="The card will be suspended right away and anyone who taps it will see a neutral page instead of your profile. You can re-activate it if you find it."
+            confirmText="Suspend Card"
+            type="danger"
+            loading={loading}
+        />
+    ) : (
+        <ConfirmDialog
+            isOpen
+            onClose={handleClose}
+            onConfirm={handleOrderReplacement}
+            title="Order a Replacement?"
+            description="Get a new card with the same design at a discounted replacement price."
+            confirmText="Order Replacement"
+            cancelText="Not Now"
+            type="info"
+            loading={loading}
+        />
+    );
+};
@@ -0,0 +1,288 @@
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { ChevronDown, ChevronUp, Copy, Plus, RefreshCw, RotateCcw, Save, Trash2, Webhook as WebhookIcon } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { webhookService, Webhook, WebhookDelivery, WebhookEvent, WebhookInput, WEBHOOK_EVENTS } from "@/services/webhookService";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { NeonButton } from "@/components/ui/NeonButton";
+import { NeonBadge } from "@/components/ui/NeonBadge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { toast } from "@/hooks/use-toast";
+import { getFriendlyErrorMessage } from "@/lib/errorUtils";
+
+const inputClass = "w-full px-4 py-3 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20 text-foreground";
+
+const STATUS_VARIANTS = { pending: "default", delivered: "success", retrying: "warning", failed: "error" } as const;
+
+interface Draft extends WebhookInput {
+  id?: string;
+}
+
+const EMPTY_DRAFT: Draft = { url: "https://", description: "", events: ["contact_saved", "message"], enabled: true };
+
+// Owner settings for sending profile events to their own endpoints
+export const WebhookSettings = () => {
+  const { currentUser } = useAuth();
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [logFor, setLogFor] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  const loadWebhooks = useCallback(async () => {
+    if (!currentUser) return;
+    try {
+      setWebhooks(await webhookService.getWebhooks(currentUser.uid));
+    } catch (error) {
+      console.error("Error loading webhooks:", error);
+    }
+  }, [currentUser]);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  const loadDeliveries = async (webhookId: string) => {
+    if (!currentUser) return;
+    try {
+      setDeliveries(await webhookService.getDeliveries(currentUser.uid, webhookId));
+    } catch (error) {
+      toast({ title: "Error", description: getFriendlyErrorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const toggleLog = (webhookId: string) => {
+    if (logFor === webhookId) {
+      setLogFor(null);
+      return;
+    }
+    setLogFor(webhookId);
+    setDeliveries([]);
+    loadDeliveries(webhookId);
+  };
+
+  const handleSave = async () => {
+    if (!currentUser || !draft) return;
+    if (!/^https:\/\/.+/.test(draft.url.trim())) {
+      toast({ title: "Check the URL", description: "Webhook URLs must start with https://", variant: "destructive" });
+      return;
+    }
+    if (draft.events.length === 0) {
+      toast({ title: "Pick at least one event", variant: "destructive" });
+      return;
+    }
+
+    const { id, ...data } = draft;
+    const payload = { ...data, url: data.url.trim(), description: data.description.trim() };
+    setSaving(true);
+    try {
+      if (id) await webhookService.updateWebhook(currentUser.uid, id, payload);
+      else await webhookService.createWebhook(currentUser.uid, payload);
+      toast({ title: "Webhook Saved", description: "New events will be sent to your endpoint." });
+      setDraft(null);
+      await loadWebhooks();
+    } catch (error) {
+      toast({ title: "Error", description: getFriendlyErrorMessage(error), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (webhookId: string) => {
+    if (!currentUser || !window.confirm("Delete this webhook? Pending retries will stop.")) return;
+    try {
+      await webhookService.deleteWebhook(currentUser.uid, webhookId);
+      if (logFor === webhookId) setLogFor(null);
+      await loadWebhooks();
+    } catch (error) {
+      toast({ title: "Error", description: getFriendlyErrorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const handleRotate = async (webhookId: string) => {
+    if (!currentUser || !window.confirm("Create a new signing secret? The old one stops working right away.")) return;
+    try {
+      await webhookService.rotateSecret(currentUser.uid, webhookId);
+      await loadWebhooks();
+      toast({ title: "Secret Rotated", description: "Update your endpoint with the new secret." });
+    } catch (error) {
+      toast({ title: "Error", description: getFriendlyErrorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const handleReplay = async (webhookId: string, deliveryId: string) => {
+    setReplaying(deliveryId);
+    try {
+      const delivered = await webhookService.replayDelivery(webhookId, deliveryId);
+      toast(delivered
+        ? { title: "Delivered", description: "Your endpoint accepted the event." }
+        : { title: "Still failing", description: "We'll keep retrying with backoff.", variant: "destructive" });
+      await loadDeliveries(webhookId);
+    } catch (error) {
+      toast({ title: "Error", description: getFriendlyErrorMessage(error), variant: "destructive" });
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  const copySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    toast({ title: "Copied", description: "Signing secret copied to clipboard." });
+  };
+
+  const toggleEvent = (current: Draft, event: WebhookEvent) => setDraft({
+    ...current,
+    events: current.events.includes(event) ? current.events.filter(e => e !== event) : [...current.events, event]
+  });
+
+  const renderDraft = (current: Draft) => (
+    <div className="space-y-4 p-4 rounded-xl bg-muted/30 border border-border">
+      <div>
+        <label className="block text-sm font-medium text-foreground mb-2">Endpoint URL</label>
+        <input
+          type="url"
+          value={current.url}
+          onChange={(e) => setDraft({ ...current, url: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-foreground mb-2">Description</label>
+        <input
+          type="text"
+          value={current.description}
+          maxLength={80}
+          placeholder="e.g. Team Slack bot"
+          onChange={(e) => setDraft({ ...current, description: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-foreground mb-2">Events</label>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {WEBHOOK_EVENTS.map(event => (
+            <label key={event.id} className="flex items-center gap-3 p-3 rounded-xl bg-muted/50 cursor-pointer">
+              <Checkbox checked={current.events.includes(event.id)} onCheckedChange={() => toggleEvent(current, event.id)} />
+              <span className="text-sm text-foreground">{event.label}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-between p-3 rounded-xl bg-muted/50">
+        <span className="text-sm text-foreground">Enabled</span>
+        <Switch checked={current.enabled} onCheckedChange={(enabled) => setDraft({ ...current, enabled })} />
+      </div>
+      <div className="flex gap-3">
+        <NeonButton onClick={handleSave} disabled={saving}>
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? "Saving..." : "Save Webhook"}
+        </NeonButton>
+        <NeonButton variant="outline" onClick={() => setDraft(null)}>Cancel</NeonButton>
+      </div>
+    </div>
+  );
+
+  return (
+    <GlassCard className="p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+          <WebhookIcon className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <h2 className="text-xl font-bold font-display text-foreground">Webhooks</h2>
+          <p className="text-sm text-muted-foreground">Send taps, views, saves and messages to your own tools</p>
+        </div>
+      </div>
+
+      <div className="space-y-3 mb-4">
+        {webhooks.map(webhook => (
+          <div key={webhook.id} className="p-4 rounded-xl bg-muted/50">
+            <div className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium text-foreground truncate">{webhook.description || webhook.url}</p>
+                  {!webhook.enabled && <NeonBadge variant="default" className="px-2 py-0.5">Off</NeonBadge>}
+                  {webhook.lastStatus && webhook.lastStatus !== "delivered" && (
+                    <NeonBadge variant={STATUS_VARIANTS[webhook.lastStatus]} className="px-2 py-0.5">{webhook.lastStatus}</NeonBadge>
+                  )}
+                </div>
+                {webhook.description && <p className="text-xs text-muted-foreground truncate">{webhook.url}</p>}
+                <p className="text-xs text-muted-foreground mt-1">
+                  {webhook.events.map(e => WEBHOOK_EVENTS.find(w => w.id === e)?.label || e).join(", ")}
+                </p>
+                <div className="flex items-center gap-2 mt-2">
+                  <code className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded">{webhook.secret.slice(0, 12)}…</code>
+                  <button onClick={() => copySecret(webhook.secret)} className="p-1 text-muted-foreground hover:text-primary" title="Copy signing secret">
+                    <Copy className="w-3 h-3" />
+                  </button>
+                  <button onClick={() => handleRotate(webhook.id)} className="p-1 text-muted-foreground hover:text-primary" title="Rotate signing secret">
+                    <RefreshCw className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <NeonButton size="sm" variant="outline" onClick={() => toggleLog(webhook.id)}>
+                  Log {logFor === webhook.id ? <ChevronUp className="w-4 h-4 ml-1" /> : <ChevronDown className="w-4 h-4 ml-1" />}
+                </NeonButton>
+                <NeonButton
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setDraft({ id: webhook.id, url: webhook.url, description: webhook.description || "", events: webhook.events, enabled: webhook.enabled })}
+                >
+                  Edit
+                </NeonButton>
+                <button onClick={() => handleDelete(webhook.id)} className="p-2 text-muted-foreground hover:text-destructive">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {logFor === webhook.id && (
+              <div className="mt-4 space-y-2 max-h-72 overflow-y-auto">
+                {deliveries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No deliveries yet</p>
+                ) : deliveries.map(delivery => (
+                  <div key={delivery.id} className="flex items-start justify-between gap-3 text-sm border-t border-border/50 pt-2">
+                    <div className="min-w-0">
+                      <p className="text-foreground">{WEBHOOK_EVENTS.find(e => e.id === delivery.event)?.label || delivery.event}</p>
+                      {delivery.error && <p className="text-xs text-destructive break-words">{delivery.error}</p>}
+                      <p className="text-xs text-muted-foreground">
+                        {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}
+                        {delivery.createdAt && ` · ${formatDistanceToNow(delivery.createdAt.toDate(), { addSuffix: true })}`}
+                        {delivery.status === "retrying" && delivery.nextAttemptAt && ` · next try ${formatDistanceToNow(delivery.nextAttemptAt.toDate(), { addSuffix: true })}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <NeonBadge variant={STATUS_VARIANTS[delivery.status]} className="px-2 py-0.5">
+                        {delivery.status}{delivery.httpStatus ? ` (${delivery.httpStatus})` : ""}
+                      </NeonBadge>
+                      {delivery.status !== "delivered" && delivery.status !== "pending" && (
+                        <button
+                          onClick={() => handleReplay(webhook.id, delivery.id)}
+                          disabled={replaying === delivery.id}
+                          className="p-1 text-muted-foreground hover:text-primary disabled:opacity-50"
+                          title="Replay"
+                        >
+                          <RotateCcw className={`w-4 h-4 ${replaying === delivery.id ? "animate-spin" : ""}`} />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {draft ? renderDraft(draft) : (
+        <NeonButton size="sm" variant="outline" onClick={() => setDraft(EMPTY_DRAFT)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Webhook
+        </NeonButton>
+      )}
+    </GlassCard>
+  );
+};
@@ -0,0 +1,172 @@
+import { GlassCard } from "@/components/ui/GlassCard";
+import { Plus, Trash2, GripVertical, ArrowUp, ArrowDown } from "lucide-react";
+import { formService, FormField, FORM_FIELD_TYPES } from "@/services/formService";
+
+interface FormFieldsEditorProps {
+    fields: FormField[];
+    onChange: (fields: FormField[]) => void;
+    labelPlaceholder?: string;
+}
+
+// Add / reorder / edit list of form fields (admin order forms, owner lead forms)
+export const FormFieldsEditor = ({ fields, onChange, labelPlaceholder = "e.g. Name on Card" }: FormFieldsEditorProps) => {
+    const handleAddField = () => {
+        onChange([...fields, formService.createField()]);
+    };
+
+    const handleRemoveField = (id: string) => {
+        onChange(fields.filter(f => f.id !== id));
+    };
+
+    const handleFieldChange = <K extends keyof FormField>(id: string, key: K, value: FormField[K]) => {
+        onChange(fields.map(f => f.id === id ? { ...f, [key]: value } : f));
+    };
+
+    const handleMoveField = (index: number, direction: 'up' | 'down') => {
+        if (direction === 'up' && index === 0) return;
+        if (direction === 'down' && index === fields.length - 1) return;
+
+        const newFields = [...fields];
+        const targetIndex = direction === 'up' ? index - 1 : index + 1;
+
+        [newFields[index], newFields[targetIndex]] = [newFields[targetIndex], newFields[index]];
+
+        onChange(newFields);
+    };
+
+    return (
+        <div className="space-y-4">
+            {fields.map((field, index) => (
+                <GlassCard key={field.id} className="p-4 group">
+                    <div className="flex items-start gap-4">
+                        <div className="flex flex-col gap-2 mt-2">
+                            <button
+                                onClick={() => handleMoveField(index, 'up')}
+                                disabled={index === 0}
+                                className="p-1 hover:bg-white/10 rounded disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                                title="Move Up"
+                            >
+                                <ArrowUp className="w-4 h-4 text-muted-foreground" />
+                            </button>
+                            <div className="text-muted-foreground cursor-grab active:cursor-grabbing px-1">
+                                <GripVertical className="w-4 h-4" />
+                            </div>
+                            <button
+                                onClick={() => handleMoveField(index, 'down')}
+                                disabled={index === fields.length - 1}
+                                className="p-1 hover:bg-white/10 rounded disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                                title="Move Down"
+                            >
+                                <ArrowDown className="w-4 h-4 text-muted-foreground" />
+                            </button>
+                        </div>
+
+                        <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <label className="text-xs font-bold text-muted-foreground uppercase">Field Label</label>
+                                <input
+                                    value={field.label}
+                                    onChange={(e) => handleFieldChange(field.id, 'label', e.target.value)}
+                                    className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm focus:border-primary focus:outline-none"
+                                    placeholder={labelPlaceholder}
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-xs font-bold text-muted-foreground uppercase">Input Type</label>
+                                <select
+                                    value={field.type}
+                                    onChange={(e) => handleFieldChange(field.id, 'type', e.target.value as FormField['type'])}
+                                    className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm focus:border-primary focus:outline-none text-foreground [&>option]:bg-black"
+                                >
+                                    {FORM_FIELD_TYPES.map(type => (
+                                        <option key={type.value} value={type.value}>{type.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-xs font-bold text-muted-foreground uppercase">Placeholder (Optional)</label>
+                                <input
+                                    value={field.placeholder || ''}
+                                    onChange={(e) => handleFieldChange(field.id, 'placeholder', e.target.value)}
+                                    className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm focus:border-primary focus:outline-none"
+                                    placeholder="Enter text to show when empty..."
+                                />
+                            </div>
+
+                            <div className="flex items-center gap-4 pt-6">
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={field.required}
+                                        onChange={(e) => handleFieldChange(field.id, 'required', e.target.checked)}
+                                        className="w-4 h-4 rounded border-gray-500 text-primary focus:ring-primary"
+                                    />
+                                    <span className="text-sm">Required</span>
+                                </label>
+
+                                <button
+                                    onClick={() => handleRemoveField(field.id)}
+                                    className="ml-auto text-red-400 hover:text-red-300 transition-colors p-2 hover:bg-red-500/10 rounded-lg"
+                                    title="Delete Field"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Options Editor for Radio Select or MCQ */}
+                    {formService.hasOptions(field) && (
+                        <div className="mt-4 pl-12 border-t border-white/5 pt-4">
+                            <label className="text-xs font-bold text-muted-foreground uppercase mb-2 block">Options</label>
+                            <div className="space-y-2">
+                                {field.options?.map((option, optIndex) => (
+                                    <div key={optIndex} className="flex gap-2">
+                                        <input
+                                            value={option}
+                                            onChange={(e) => {
+                                                const newOptions = [...(field.options || [])];
+                                                newOptions[optIndex] = e.target.value;
+                                                handleFieldChange(field.id, 'options', newOptions);
+                                            }}
+                                            className="flex-1 bg-white/5 border border-white/10 rounded px-3 py-1.5 text-sm"
+                                            placeholder={`Option ${optIndex + 1}`}
+                                        />
+                                        <button
+                                            onClick={() => {
+                                                const newOptions = field.options?.filter((_, i) => i !== optIndex);
+                                                handleFieldChange(field.id, 'options', newOptions);
+                                            }}
+                                            className="p-1.5 text-red-400 hover:bg-red-500/10 rounded"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ))}
+                                <button
+                                    onClick={() => {
+                                        const newOptions = [...(field.options || []), "New Option"];
+                                        handleFieldChange(field.id, 'options', newOptions);
+                                    }}
+                                    className="text-xs text-primary flex items-center gap-1 hover:text-primary/80"
+                                >
+                                    <Plus className="w-3 h-3" /> Add Option
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </GlassCard>
+            ))}
+
+            <button
+                onClick={handleAddField}
+                className="w-full py-4 rounded-xl border-2 border-dashed border-white/10 hover:border-primary/50 text-muted-foreground hover:text-primary transition-colors flex items-center justify-center gap-2"
+            >
+                <Plus className="w-5 h-5" />
+                Add Field
+            </button>
+        </div>
+    );
+};
@@ -26,7 +26,7 @@ import {
 import { NeonButton } from "@/components/ui/NeonButton";
 import { useAuth } from "@/contexts/AuthContext";
 import { userService, UserProfile } from "@/services/userService";
-import { collection, query, limit, onSnapshot, doc, updateDoc } from "firebase/firestore";
+import { collection, query, limit, orderBy, onSnapshot, doc, updateDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { DashboardProvider } from "@/contexts/DashboardContext";
 
@@ -59,6 +59,7 @@ export const DashboardLayout = () => {
       // Filter out 'view' type alerts to avoid constant blinking
       const q = query(
         collection(db, "users", currentUser.uid, "interactions"),
+        orderBy("timestamp", "desc"),
         limit(100) // Fetch latest 100 interactions to check for unread
       );
 
@@ -19,7 +19,10 @@ import {
   Sparkles,
   QrCode,
   Activity,
-  Users
+  Users,
+  Building2,
+  Link2,
+  MessageSquare
 } from "lucide-react";
 
 const menuItems = [
@@ -27,8 +30,11 @@ const menuItems = [
   { name: "Public Profile", path: "/dashboard/profile", icon: User },
   { name: "QR Builder", path: "/dashboard/qr-builder", icon: QrCode },
   { name: "Interactions", path: "/dashboard/interactions", icon: Activity },
+  { name: "Inbox", path: "/dashboard/inbox", icon: MessageSquare },
   { name: "Contacts", path: "/dashboard/contacts", icon: Users },
+  { name: "Share Links", path: "/dashboard/share-links", icon: Link2 },
   { name: "My Cards", path: "/dashboard/my-cards", icon: CreditCard },
+  { name: "Organization", path: "/dashboard/organization", icon: Building2 },
   { name: "Settings", path: "/dashboard/settings", icon: Settings },
 ];
 
@@ -0,0 +1,235 @@
+import { useCallback, useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { CheckCircle2, Upload, X } from "lucide-react";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { NeonButton } from "@/components/ui/NeonButton";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { leadService, LeadFormConfig } from "@/services/leadService";
+import { formService, FormField } from "@/services/formService";
+
+interface LeadCaptureFormProps {
+  ownerId: string;
+  personaId?: string | null;
+  config: LeadFormConfig;
+}
+
+const inputClass = "w-full px-4 py-3 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none text-foreground";
+
+const emptyForm = { name: "", email: "", phone: "", company: "", note: "", website: "" };
+
+// "Share your details" form for visitors who don't have an account
+export const LeadCaptureForm = ({ ownerId, personaId, config }: LeadCaptureFormProps) => {
+  const [token, setToken] = useState("");
+  const [form, setForm] = useState(emptyForm);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [uploading, setUploading] = useState<string | null>(null);
+  const [consent, setConsent] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState("");
+
+  // The token is issued when the form is shown; the server rejects submissions that come back too fast
+  const loadToken = useCallback(() => {
+    leadService.getFormToken(ownerId)
+      .then(setToken)
+      .catch(() => setError("This form isn't available right now."));
+  }, [ownerId]);
+
+  useEffect(() => {
+    loadToken();
+  }, [loadToken]);
+
+  const update = (field: keyof typeof emptyForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const setAnswer = (fieldId: string, value: string) => setAnswers(prev => ({ ...prev, [fieldId]: value }));
+
+  const handleImageUpload = async (fieldId: string, file: File) => {
+    setError("");
+    setUploading(fieldId);
+    try {
+      setAnswer(fieldId, await leadService.uploadAnswerImage(ownerId, token, file));
+    } catch (err) {
+      setError((err as Error).message || "Upload failed. Please try again.");
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    if (!form.name.trim() || !form.email.trim()) {
+      setError("Please enter your name and email.");
+      return;
+    }
+    const missing = config.customFields.find(f => f.required && !answers[f.id]?.trim());
+    if (missing) {
+      setError(`Please answer "${missing.label}".`);
+      return;
+    }
+    if (!consent) {
+      setError("Please agree to share your details.");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await leadService.submitLead({
+        ownerId,
+        ...(personaId ? { personaId } : {}),
+        token,
+        ...form,
+        answers,
+        consent
+      });
+      setSubmitted(true);
+    } catch (err) {
+      setError((err as Error).message || "Failed to send your details.");
+      // Tokens are single use and may have expired, so get a fresh one for the retry
+      // (image answers were uploaded under the old token and need uploading again)
+      setAnswers(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => config.customFields.find(f => f.id === id)?.type !== "image")));
+      loadToken();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderField = (field: FormField) => {
+    const value = answers[field.id] || "";
+
+    if (formService.hasOptions(field)) {
+      return (
+        <div className="grid sm:grid-cols-2 gap-2">
+          {field.options?.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setAnswer(field.id, value === option ? "" : option)}
+              className={`px-4 py-2.5 rounded-xl border text-left text-sm transition-colors ${value === option
+                ? "bg-primary/20 border-primary text-primary font-medium"
+                : "bg-muted border-border text-muted-foreground hover:border-primary/50"
+                }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    if (field.type === "image") {
+      return value ? (
+        <div className="relative rounded-xl overflow-hidden border border-border">
+          <img src={value} alt={field.label} className="w-full max-h-48 object-cover" />
+          <button
+            type="button"
+            onClick={() => setAnswer(field.id, "")}
+            className="absolute top-2 right-2 p-1.5 rounded-lg bg-black/60 text-white hover:bg-black/80"
+            title="Remove Image"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <label className="w-full h-24 rounded-xl border-2 border-dashed border-border hover:border-primary/50 flex flex-col items-center justify-center gap-1 cursor-pointer transition-colors bg-muted/50">
+          <input
+            type="file"
+            accept="image/*"
+            className="hidden"
+            disabled={!token || uploading === field.id}
+            onChange={(e) => e.target.files?.[0] && handleImageUpload(field.id, e.target.files[0])}
+          />
+          <Upload className="w-5 h-5 text-muted-foreground" />
+          <span className="text-xs text-muted-foreground">{uploading === field.id ? "Uploading..." : "Click to upload image"}</span>
+        </label>
+      );
+    }
+
+    if (field.type === "textarea") {
+      return (
+        <textarea rows={3} placeholder={field.placeholder} value={value} maxLength={2000} onChange={(e) => setAnswer(field.id, e.target.value)} className={`${inputClass} resize-none`} />
+      );
+    }
+
+    return (
+      <input
+        type={field.type === "phone" ? "tel" : field.type}
+        placeholder={field.placeholder}
+        value={value}
+        maxLength={500}
+        onChange={(e) => setAnswer(field.id, e.target.value)}
+        className={inputClass}
+      />
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.35 }}
+    >
+      <GlassCard className="p-6 mb-8">
+        <h2 className="text-xl font-bold font-display text-foreground mb-4">{config.title}</h2>
+
+        {submitted ? (
+          <div className="flex flex-col items-center text-center gap-2 py-4">
+            <CheckCircle2 className="w-10 h-10 text-green-500" />
+            <p className="font-medium text-foreground">Thanks! Your details were shared.</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <input type="text" placeholder="Your Name *" value={form.name} onChange={update("name")} maxLength={100} className={inputClass} />
+            <input type="email" placeholder="Email *" value={form.email} onChange={update("email")} maxLength={200} className={inputClass} />
+            {config.fields.phone && (
+              <input type="tel" placeholder="Phone" value={form.phone} onChange={update("phone")} maxLength={40} className={inputClass} />
+            )}
+            {config.fields.company && (
+              <input type="text" placeholder="Company" value={form.company} onChange={update("company")} maxLength={100} className={inputClass} />
+            )}
+            {config.fields.note && (
+              <textarea rows={3} placeholder="Note" value={form.note} onChange={update("note")} maxLength={1000} className={`${inputClass} resize-none`} />
+            )}
+
+            {config.customFields.map(field => (
+              <div key={field.id} className="space-y-2 pt-1">
+                <label className="text-sm font-medium text-foreground flex gap-1">
+                  {field.label}
+                  {field.required && <span className="text-destructive">*</span>}
+                </label>
+                {renderField(field)}
+              </div>
+            ))}
+
+            {/* Honeypot: hidden from people, bots tend to fill it in */}
+            <input
+              type="text"
+              name="website"
+              tabIndex={-1}
+              autoComplete="off"
+              aria-hidden="true"
+              value={form.website}
+              onChange={update("website")}
+              className="absolute -left-[9999px] h-0 w-0 opacity-0"
+            />
+
+            <div className="flex items-start gap-3 pt-1">
+              <Checkbox id="lead-consent" checked={consent} onCheckedChange={(checked) => setConsent(checked === true)} className="mt-0.5" />
+              <Label htmlFor="lead-consent" className="text-sm text-muted-foreground leading-snug cursor-pointer">
+                {config.consentText}
+              </Label>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <NeonButton type="submit" className="w-full" disabled={submitting || !token || !!uploading}>
+              {submitting ? "Sending..." : "Share My Details"}
+            </NeonButton>
+          </form>
+        )}
+      </GlassCard>
+    </motion.div>
+  );
+};
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useEffect, useState } from "react";
-import { User, onAuthStateChanged } from "firebase/auth";
+import { User, onAuthStateChanged, onIdTokenChanged } from "firebase/auth";
 import { doc, onSnapshot } from "firebase/firestore";
 import { auth, db } from "@/lib/firebase";
 import { toast } from "sonner"; // Assuming sonner is available globally or I need to check where it is used. It is used in other files.
@@ -62,6 +62,20 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         return unsubscribe;
     }, []);
 
+    // The sessionCookie function (/session) swaps the ID token for an HttpOnly `__session`
+    // cookie; resolveCard reads it to leave the owner's own taps out of their stats
+    useEffect(() => {
+        return onIdTokenChanged(auth, async (user) => {
+            try {
+                await fetch("/session", user
+                    ? { method: "POST", headers: { Authorization: `Bearer ${await user.getIdToken()}` } }
+                    : { method: "DELETE" });
+            } catch (error) {
+                console.error("Error syncing session cookie", error);
+            }
+        });
+    }, []);
+
     // Real-time Ban Check & Role Sync
     const lastCheckTime = React.useRef<number>(0);
 
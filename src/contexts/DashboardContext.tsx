@@ -1,25 +1,43 @@
 
-import React, { createContext, useContext, useEffect, useState, useMemo } from 'react';
-import { collection, query, onSnapshot } from 'firebase/firestore';
+import React, { createContext, useContext, useEffect, useState, useMemo, useRef } from 'react';
+import { collection, query, onSnapshot, doc, where, orderBy, limit } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { useAuth } from '@/contexts/AuthContext';
 import { Eye, MousePointer, Users, TrendingUp } from 'lucide-react';
+import { Persona, DEFAULT_PERSONA_ID } from '@/services/personaService';
+import { analyticsService, AnalyticsBucket, TOTALS_BUCKET_ID } from '@/services/analyticsService';
+
+// Latest interactions kept live for the activity feed
+const RECENT_INTERACTIONS_LIMIT = 50;
+
+// "all" shows every persona; DEFAULT_PERSONA_ID is the main profile
+export type PersonaFilter = "all" | string;
 
 interface DashboardContextType {
-    interactions: any[];
+    interactions: any[]; // Latest interactions only; use the analytics buckets for counts
+    dailyBuckets: AnalyticsBucket[]; // Last 7 days, oldest first
+    totals: AnalyticsBucket | null;
     statsData: any[];
     graphData: any[];
     recentActivity: any[];
     contacts: any[]; // Added contacts
+    personas: Persona[];
+    activePersonaId: PersonaFilter;
+    setActivePersonaId: (personaId: PersonaFilter) => void;
     loading: boolean;
 }
 
 const DashboardContext = createContext<DashboardContextType>({
     interactions: [],
+    dailyBuckets: [],
+    totals: null,
     statsData: [],
     graphData: [],
     recentActivity: [],
     contacts: [], // Added contacts
+    personas: [],
+    activePersonaId: "all",
+    setActivePersonaId: () => { },
     loading: true
 });
 
@@ -27,7 +45,13 @@ export const useDashboard = () => useContext(DashboardContext);
 
 export const DashboardProvider = ({ children }: { children: React.ReactNode }) => {
     const { currentUser } = useAuth();
-    const [interactions, setInteractions] = useState<any[]>([]);
+    const uid = currentUser?.uid;
+    const [allInteractions, setAllInteractions] = useState<any[]>([]);
+    const [dailyBuckets, setDailyBuckets] = useState<AnalyticsBucket[]>([]);
+    const [totals, setTotals] = useState<AnalyticsBucket | null>(null);
+    const backfillRequested = useRef(false);
+    const [personas, setPersonas] = useState<Persona[]>([]);
+    const [activePersonaId, setActivePersonaId] = useState<PersonaFilter>("all");
     const [loading, setLoading] = useState(true);
 
     // Initial Stats State
@@ -42,8 +66,8 @@ export const DashboardProvider = ({ children }: { children: React.ReactNode }) =
 
     // Contacts Listener
     useEffect(() => {
-        if (!currentUser) return;
-        const q = query(collection(db, "users", currentUser.uid, "contacts"));
+        if (!uid) return;
+        const q = query(collection(db, "users", uid, "contacts"));
         const unsubscribe = onSnapshot(q, (snapshot) => {
             const loadedContacts = snapshot.docs.map(doc => ({
                 id: doc.id,
@@ -54,15 +78,73 @@ export const DashboardProvider = ({ children }: { children: React.ReactNode }) =
             console.error("Error listening to contacts:", error);
         });
         return () => unsubscribe();
-    }, [currentUser?.uid]);
+    }, [uid]);
+
+    // Personas Listener
+    useEffect(() => {
+        if (!uid) return;
+        const unsubscribe = onSnapshot(collection(db, "users", uid, "personas"), (snapshot) => {
+            const loadedPersonas = snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id } as Persona));
+            loadedPersonas.sort((a, b) => (a.createdAt?.seconds || 0) - (b.createdAt?.seconds || 0));
+            setPersonas(loadedPersonas);
+        }, (error) => {
+            console.error("Error listening to personas:", error);
+        });
+        return () => unsubscribe();
+    }, [uid]);
+
+    // Drop a filter that points at a deleted persona
+    useEffect(() => {
+        if (activePersonaId !== "all" && activePersonaId !== DEFAULT_PERSONA_ID && !personas.some(p => p.id === activePersonaId)) {
+            setActivePersonaId("all");
+        }
+    }, [personas, activePersonaId]);
 
+    // Analytics Listeners (pre-aggregated by the rollupInteraction function)
     useEffect(() => {
-        if (!currentUser) return;
+        if (!uid) return;
+        const analyticsRef = collection(db, "users", uid, "analytics");
+
+        const unsubscribeTotals = onSnapshot(doc(analyticsRef, TOTALS_BUCKET_ID), (snapshot) => {
+            setTotals(snapshot.exists() ? snapshot.data() as AnalyticsBucket : null);
+
+            // Profiles from before rollups existed get their history built once
+            if (!snapshot.data()?.backfilledAt && !backfillRequested.current) {
+                backfillRequested.current = true;
+                analyticsService.backfill().catch(() => { backfillRequested.current = false; });
+            }
+        }, (error) => {
+            console.error("Error listening to analytics totals:", error);
+        });
+
+        const weekStart = new Date();
+        weekStart.setDate(weekStart.getDate() - 6);
+        const unsubscribeDaily = onSnapshot(
+            query(analyticsRef, where("date", ">=", analyticsService.dayKey(weekStart))),
+            (snapshot) => {
+                const buckets = snapshot.docs.map(d => d.data() as AnalyticsBucket);
+                buckets.sort((a, b) => (a.date || "").localeCompare(b.date || ""));
+                setDailyBuckets(buckets);
+            },
+            (error) => {
+                console.error("Error listening to daily analytics:", error);
+            }
+        );
+
+        return () => {
+            unsubscribeTotals();
+            unsubscribeDaily();
+        };
+    }, [uid]);
+
+    useEffect(() => {
+        if (!uid) return;
         setLoading(true);
-        // ... existing interaction listener ...
 
         const q = query(
-            collection(db, "users", currentUser.uid, "interactions")
+            collection(db, "users", uid, "interactions"),
+            orderBy("timestamp", "desc"),
+            limit(RECENT_INTERACTIONS_LIMIT)
         );
 
         const unsubscribe = onSnapshot(q, (snapshot) => {
@@ -71,14 +153,7 @@ export const DashboardProvider = ({ children }: { children: React.ReactNode }) =
                 ...doc.data() as any
             }));
 
-            // Sort by timestamp desc
-            loadedInteractions.sort((a, b) => {
-                const timeA = a.timestamp?.seconds || 0;
-                const timeB = b.timestamp?.seconds || 0;
-                return timeB - timeA;
-            });
-
-            setInteractions(loadedInteractions);
+            setAllInteractions(loadedInteractions);
             setLoading(false);
         }, (error) => {
             console.error("Error listening to interactions:", error);
@@ -86,12 +161,18 @@ export const DashboardProvider = ({ children }: { children: React.ReactNode }) =
         });
 
         return () => unsubscribe();
-    }, [currentUser?.uid]);
+    }, [uid]);
+
+    // Interactions without a personaId belong to the main profile
+    const interactions = useMemo(() => {
+        if (activePersonaId === "all") return allInteractions;
+        return allInteractions.filter(i => (i.personaId || DEFAULT_PERSONA_ID) === activePersonaId);
+    }, [allInteractions, activePersonaId]);
 
     // Calculate Stats when data changes
     useEffect(() => {
-        const views = interactions.filter((i) => i.type === 'view').length;
-        const taps = interactions.filter((i) => i.type === 'tap').length;
+        const views = analyticsService.countType(totals || undefined, 'view', activePersonaId);
+        const taps = analyticsService.countType(totals || undefined, 'tap', activePersonaId);
         const totalContacts = contacts.length;
 
         setStatsData([
@@ -112,14 +193,10 @@ export const DashboardProvider = ({ children }: { children: React.ReactNode }) =
             };
         });
 
-        interactions.forEach(interaction => {
-            if (!interaction.timestamp?.toDate) return;
-            const dateKey = interaction.timestamp.toDate().toISOString().split('T')[0];
-            const dayStat = last7Days.find(d => d.date === dateKey);
-            if (dayStat) {
-                if (interaction.type === 'view') dayStat.views++;
-                else if (interaction.type === 'tap') dayStat.taps++;
-            }
+        last7Days.forEach(dayStat => {
+            const bucket = dailyBuckets.find(b => b.date === dayStat.date);
+            dayStat.views = analyticsService.countType(bucket, 'view', activePersonaId);
+            dayStat.taps = analyticsService.countType(bucket, 'tap', activePersonaId);
         });
         setGraphData(last7Days);
 
@@ -146,6 +223,7 @@ export const DashboardProvider = ({ children }: { children: React.ReactNode }) =
             else if (doc.type === "tap") description = "Tapped your NFC card";
             else if (doc.type === "contact_saved" || doc.type === "contact") description = "Saved your contact info";
             else if (doc.type === "message") description = "Sent you a message";
+            else if (doc.type === "link_click") description = doc.linkTitle ? `Clicked "${doc.linkTitle}"` : "Clicked a link on your profile";
 
             return {
                 id: doc.id,
@@ -158,15 +236,20 @@ export const DashboardProvider = ({ children }: { children: React.ReactNode }) =
         });
         setRecentActivity(recent);
 
-    }, [interactions, contacts]);
+    }, [interactions, contacts, totals, dailyBuckets, activePersonaId]);
 
     return (
         <DashboardContext.Provider value={{
             interactions,
+            dailyBuckets,
+            totals,
             statsData,
             graphData,
             recentActivity,
             contacts, // Added contacts
+            personas,
+            activePersonaId,
+            setActivePersonaId,
             loading
         }}>
             {children}
@@ -1,8 +1,8 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { planService, Plan, DEFAULT_PLANS } from "@/services/planService";
+import { planService, Plan, DEFAULT_PLANS, REPLACEMENT_PLAN_ID } from "@/services/planService";
 import { usageService, UsageStats } from "@/services/usageService";
-import { collection, query, where, getDocs, onSnapshot } from "firebase/firestore";
+import { collection, query, where, getDocs, onSnapshot, doc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 
 export interface SubscriptionLimits {
@@ -55,21 +55,19 @@ export const useSubscriptionLimits = () => {
         }
 
         let unsubscribeOrders: () => void;
+        const INACTIVE_STATUSES = ['cancelled', 'refunded', 'payment_failed', 'pending_verification'];
 
         const setupRealtimeListener = async () => {
             try {
                 // 1. Fetch Plans (cacheable, could be realtime too but less critical)
                 const allPlans = await planService.getAllPlans();
 
-                // 2. Setup Real-time Listener for Orders
-                const ordersRef = collection(db, "orders");
-                const q = query(ordersRef, where("userId", "==", currentUser.uid));
-
-                unsubscribeOrders = onSnapshot(q, async (snapshot) => {
-                    const activeOrders = snapshot.docs
-                        .map(d => d.data())
-                        .filter(o => !['cancelled', 'refunded', 'payment_failed', 'pending_verification'].includes(o.status));
+                // Organization members share one pool: the plans of every member's orders
+                // (kept on the org doc by a function) and the org's combined usage
+                const userSnap = await getDoc(doc(db, "users", currentUser.uid));
+                const organizationId: string | undefined = userSnap.data()?.organizationId;
 
+                const applyPlans = async (planIds: string[], usage: UsageStats) => {
                     // 3. Stack Limits Calculation
                     // Fetch the dynamic 'free' plan from the loaded plans (which includes Firestore updates)
                     const freePlan = allPlans.find(p => p.id === 'free') || DEFAULT_PLANS[0];
@@ -91,13 +89,13 @@ export const useSubscriptionLimits = () => {
 
                     const planNames: string[] = [freePlan.name];
 
-                    activeOrders.forEach(order => {
-                        const planId = order.planId;
+                    planIds.forEach(planId => {
                         const plan = allPlans.find(p => p.id === planId);
 
                         if (plan) {
                             // If the plan is 'free', don't double count (though activeOrders rarely has 'free')
-                            if (plan.id === 'free') return;
+                            // Replacement cards are reprints and don't add to the stack either
+                            if (plan.id === 'free' || plan.id === REPLACEMENT_PLAN_ID) return;
 
                             totalLinks += plan.limits.links;
                             totalContacts += plan.limits.contacts;
@@ -116,13 +114,10 @@ export const useSubscriptionLimits = () => {
 
                             planNames.push(plan.name);
                         } else {
-                            console.warn(`[Limits] Plan not found for order ${order.id}: ${planId}`);
+                            console.warn(`[Limits] Plan not found: ${planId}`);
                         }
                     });
 
-                    // 4. Fetch Usage (Wait for this async)
-                    const usage = await usageService.getUsageStats(currentUser.uid);
-
                     // 5. Determine Finiteness
                     const isInfiniteContacts = totalContacts > 500000;
                     const isInfiniteExports = totalExports > 500000;
@@ -178,7 +173,29 @@ export const useSubscriptionLimits = () => {
                         loading: false,
                         refresh: async () => { /* No-op, realtime now */ }
                     });
-                });
+                };
+
+                // 2. Setup Real-time Listener for Orders (or the organization's pool)
+                if (organizationId) {
+                    unsubscribeOrders = onSnapshot(doc(db, "organizations", organizationId), async (orgSnap) => {
+                        const usage = await usageService.getOrganizationUsageStats(organizationId);
+                        await applyPlans(orgSnap.data()?.pooledPlanIds || [], usage);
+                    });
+                } else {
+                    const ordersRef = collection(db, "orders");
+                    const q = query(ordersRef, where("userId", "==", currentUser.uid));
+
+                    unsubscribeOrders = onSnapshot(q, async (snapshot) => {
+                        const planIds = snapshot.docs
+                            .map(d => d.data())
+                            .filter(o => !INACTIVE_STATUSES.includes(o.status))
+                            .map(o => o.planId);
+
+                        // 4. Fetch Usage (Wait for this async)
+                        const usage = await usageService.getUsageStats(currentUser.uid);
+                        await applyPlans(planIds, usage);
+                    });
+                }
             } catch (error) {
                 console.error("Error setting up limits listener:", error);
                 setLimits(prev => ({ ...prev, loading: false }));
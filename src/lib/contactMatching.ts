@@ -0,0 +1,187 @@
+/**
+ * Normalizers and the duplicate detector for contacts. Email and phone matches are
+ * treated as the same person; similar names alone only make a "possible" duplicate.
+ */
+export type MatchReason = "email" | "phone" | "name";
+
+export interface MatchableContact {
+    id: string;
+    name: string;
+    email?: string;
+    phone?: string;
+}
+
+export interface DuplicateGroup {
+    ids: string[];
+    reasons: MatchReason[];
+    exact: boolean; // Matched on email or phone, safe to merge automatically
+}
+
+const GMAIL_DOMAINS = ["gmail.com", "googlemail.com"];
+
+// Lowercased; Gmail ignores dots and +tags in the local part
+export const normalizeEmail = (email?: string) => {
+    const value = (email || "").trim().toLowerCase();
+    const at = value.lastIndexOf("@");
+    if (at < 1) return "";
+    let local = value.slice(0, at);
+    const domain = value.slice(at + 1);
+    if (GMAIL_DOMAINS.includes(domain)) local = local.split("+")[0].replace(/\./g, "");
+    return `${local}@${GMAIL_DOMAINS.includes(domain) ? "gmail.com" : domain}`;
+};
+
+// Calling codes for numbers typed without one, by the browser's region
+const CALLING_CODES: Record<string, string> = {
+    US: "1", CA: "1", GB: "44", IE: "353", IN: "91", AU: "61", NZ: "64", DE: "49", FR: "33", ES: "34",
+    IT: "39", NL: "31", BE: "32", CH: "41", AT: "43", SE: "46", NO: "47", DK: "45", PT: "351", BR: "55",
+    MX: "52", AE: "971", SG: "65", JP: "81", ZA: "27"
+};
+
+const defaultCallingCode = () => {
+    const region = (typeof navigator !== "undefined" ? navigator.language : "").split("-")[1]?.toUpperCase();
+    return (region && CALLING_CODES[region]) || "1";
+};
+
+/**
+ * Best-effort E.164 ("+15551234567"). Numbers without a country code get the
+ * browser region's code, minus the local trunk 0. Returns "" for anything too short.
+ */
+export const toE164 = (phone?: string, callingCode = defaultCallingCode()) => {
+    const raw = (phone || "").trim();
+    let digits = raw.replace(/\D/g, "");
+    if (digits.length < 6) return "";
+    if (raw.startsWith("+")) return `+${digits}`;
+    if (digits.startsWith("00")) return `+${digits.slice(2)}`;
+    if (callingCode === "1" && digits.length === 11 && digits.startsWith("1")) return `+${digits}`;
+    if (callingCode !== "1") digits = digits.replace(/^0/, "");
+    return `+${callingCode}${digits}`;
+};
+
+// Lowercase, no accents or punctuation, words sorted so "Smith, John" matches "John Smith"
+export const normalizeName = (name?: string) =>
+    (name || "")
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9\s]/g, " ")
+        .split(/\s+/)
+        .filter(Boolean)
+        .sort()
+        .join(" ");
+
+const bigrams = (value: string) => {
+    const pairs = new Map<string, number>();
+    for (let i = 0; i < value.length - 1; i++) {
+        const pair = value.slice(i, i + 2);
+        pairs.set(pair, (pairs.get(pair) || 0) + 1);
+    }
+    return pairs;
+};
+
+// Dice coefficient over character bigrams of the normalized names (0..1)
+export const nameSimilarity = (a?: string, b?: string) => {
+    const left = normalizeName(a);
+    const right = normalizeName(b);
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+    if (left.length < 2 || right.length < 2) return 0;
+
+    const leftPairs = bigrams(left);
+    const rightPairs = bigrams(right);
+    let overlap = 0;
+    leftPairs.forEach((count, pair) => {
+        overlap += Math.min(count, rightPairs.get(pair) || 0);
+    });
+    return (2 * overlap) / (left.length - 1 + right.length - 1);
+};
+
+export const NAME_MATCH_THRESHOLD = 0.8;
+
+// Placeholder names that shouldn't be matched on their own
+const GENERIC_NAMES = ["unknown contact", "anonymous", "anonymous user", "contact"];
+
+/**
+ * Groups contacts that look like the same person. Exact matches share a normalized
+ * email or phone; names are only compared within blocks sharing a word prefix, to
+ * keep big contact lists fast.
+ */
+export const findDuplicateGroups = (contacts: MatchableContact[]): DuplicateGroup[] => {
+    const parent = new Map(contacts.map(c => [c.id, c.id]));
+    const find = (id: string): string => {
+        const root = parent.get(id) as string;
+        if (root === id) return id;
+        const top = find(root);
+        parent.set(id, top);
+        return top;
+    };
+    const reasons = new Map<string, Set<MatchReason>>(); // "idA|idB" -> why they matched
+    const link = (a: string, b: string, reason: MatchReason) => {
+        const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+        if (!reasons.has(key)) reasons.set(key, new Set());
+        reasons.get(key)?.add(reason);
+        parent.set(find(a), find(b));
+    };
+
+    const byKey = new Map<string, string>();
+    const linkOnKey = (key: string, id: string, reason: MatchReason) => {
+        const other = byKey.get(key);
+        if (other) link(other, id, reason);
+        else byKey.set(key, id);
+    };
+
+    const blocks = new Map<string, MatchableContact[]>();
+    contacts.forEach(contact => {
+        const email = normalizeEmail(contact.email);
+        const phone = toE164(contact.phone);
+        if (email) linkOnKey(`email:${email}`, contact.id, "email");
+        if (phone) linkOnKey(`phone:${phone}`, contact.id, "phone");
+
+        const name = normalizeName(contact.name);
+        if (!name || GENERIC_NAMES.includes(name)) return;
+        new Set(name.split(" ").map(word => word.slice(0, 3))).forEach(prefix => {
+            blocks.set(prefix, [...(blocks.get(prefix) || []), contact]);
+        });
+    });
+
+    const compared = new Set<string>();
+    blocks.forEach(block => {
+        for (let i = 0; i < block.length; i++) {
+            for (let j = i + 1; j < block.length; j++) {
+                const a = block[i];
+                const b = block[j];
+                const key = a.id < b.id ? `${a.id}|${b.id}` : `${b.id}|${a.id}`;
+                if (compared.has(key)) continue;
+                compared.add(key);
+                // Different emails or phones on both sides means two people with similar names
+                const emailA = normalizeEmail(a.email), emailB = normalizeEmail(b.email);
+                const phoneA = toE164(a.phone), phoneB = toE164(b.phone);
+                if ((emailA && emailB && emailA !== emailB) || (phoneA && phoneB && phoneA !== phoneB)) continue;
+                if (nameSimilarity(a.name, b.name) >= NAME_MATCH_THRESHOLD) link(a.id, b.id, "name");
+            }
+        }
+    });
+
+    const groups = new Map<string, string[]>();
+    contacts.forEach(contact => {
+        const root = find(contact.id);
+        groups.set(root, [...(groups.get(root) || []), contact.id]);
+    });
+
+    return Array.from(groups.values())
+        .filter(ids => ids.length > 1)
+        .map(ids => {
+            const groupReasons = new Set<MatchReason>();
+            reasons.forEach((why, key) => {
+                if (ids.includes(key.split("|")[0])) why.forEach(r => groupReasons.add(r));
+            });
+            // Exact only if email/phone matches alone tie the whole group together
+            const exactParent = new Map(ids.map(id => [id, id]));
+            const exactFind = (id: string): string => (exactParent.get(id) === id ? id : exactFind(exactParent.get(id) as string));
+            reasons.forEach((why, key) => {
+                const [a, b] = key.split("|");
+                if ((why.has("email") || why.has("phone")) && exactParent.has(a)) exactParent.set(exactFind(a), exactFind(b));
+            });
+            const exact = new Set(ids.map(exactFind)).size === 1;
+            return { ids, reasons: Array.from(groupReasons), exact };
+        });
+};
@@ -21,3 +21,8 @@ export const db = getFirestore(app);
 export const storage = getStorage(app);
 // Explicitly set region to avoid default conflicts
 export const functions = getFunctions(app, 'us-central1');
+
+// Base URL for HTTP (onRequest) functions such as the card resolver.
+// In production /t/* and /c/* are rewritten by Hosting and never reach the SPA.
+export const functionsBaseUrl =
+  import.meta.env.VITE_FUNCTIONS_BASE_URL || `https://us-central1-${firebaseConfig.projectId}.cloudfunctions.net`;
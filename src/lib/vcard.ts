@@ -0,0 +1,295 @@
+/**
+ * vCard 4.0 (RFC 6350) writer and a forgiving reader for .vcf files (2.1 / 3.0 / 4.0),
+ * plus a CSV reader for contact exports like LinkedIn's Connections.csv.
+ */
+export interface VCardData {
+    name: string;
+    firstName?: string;
+    lastName?: string;
+    email?: string;
+    phone?: string;
+    company?: string;
+    title?: string;
+    location?: string;
+    photo?: string; // http(s) URL or data: URI
+    urls?: string[];
+    note?: string;
+    categories?: string[];
+}
+
+const CRLF = "\r\n";
+
+// TEXT values escape backslash, comma, semicolon and newlines (RFC 6350 §3.4)
+const escapeText = (value: string) =>
+    value.replace(/\\/g, "\\\\").replace(/,/g, "\\,").replace(/;/g, "\\;").replace(/\r?\n/g, "\\n");
+
+const unescapeText = (value: string) =>
+    value.replace(/\\([\\,;nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+
+// Lines longer than 75 octets are folded with CRLF + space (RFC 6350 §3.2)
+const foldLine = (line: string) => {
+    const bytes = new TextEncoder().encode(line);
+    if (bytes.length <= 75) return line;
+
+    const parts: string[] = [];
+    let current = "";
+    let currentBytes = 0;
+    for (const char of line) {
+        const size = new TextEncoder().encode(char).length;
+        const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+        if (currentBytes + size > limit) {
+            parts.push(current);
+            current = "";
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += size;
+    }
+    parts.push(current);
+    return parts.join(`${CRLF} `);
+};
+
+const splitName = (data: VCardData) => {
+    if (data.firstName || data.lastName) return { first: data.firstName || "", last: data.lastName || "" };
+    const words = data.name.trim().split(/\s+/);
+    return words.length > 1 ? { first: words.slice(0, -1).join(" "), last: words[words.length - 1] } : { first: words[0] || "", last: "" };
+};
+
+export const buildVCard = (data: VCardData): string => {
+    const { first, last } = splitName(data);
+    const lines = [
+        "BEGIN:VCARD",
+        "VERSION:4.0",
+        `FN:${escapeText(data.name || [first, last].filter(Boolean).join(" "))}`,
+        `N:${escapeText(last)};${escapeText(first)};;;`
+    ];
+
+    if (data.company) lines.push(`ORG:${escapeText(data.company)}`);
+    if (data.title) lines.push(`TITLE:${escapeText(data.title)}`);
+    if (data.phone) lines.push(`TEL;VALUE=uri;TYPE=cell:tel:${data.phone.replace(/[^\d+]/g, "")}`);
+    if (data.email) lines.push(`EMAIL:${escapeText(data.email)}`);
+    // Free-form location goes in the locality part of the address
+    if (data.location) lines.push(`ADR;LABEL="${data.location.replace(/"/g, "'")}":;;;${escapeText(data.location)};;;`);
+    data.urls?.filter(Boolean).forEach(url => lines.push(`URL:${url}`));
+    if (data.photo) lines.push(data.photo.startsWith("data:") ? `PHOTO:${data.photo}` : `PHOTO;MEDIATYPE=image/jpeg:${data.photo}`);
+    if (data.categories?.length) lines.push(`CATEGORIES:${data.categories.map(escapeText).join(",")}`);
+    if (data.note) lines.push(`NOTE:${escapeText(data.note)}`);
+    lines.push(`REV:${new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")}`);
+    lines.push("END:VCARD");
+
+    return lines.map(foldLine).join(CRLF) + CRLF;
+};
+
+// One .vcf holding several cards
+export const buildVCards = (cards: VCardData[]): string => cards.map(buildVCard).join("");
+
+export const vcardFileName = (name: string) =>
+    `${(name || "contact").trim().replace(/[^\w\s-]/g, "").replace(/\s+/g, "_") || "contact"}.vcf`;
+
+export const downloadVCard = (content: string, fileName: string) => {
+    const blob = new Blob([content], { type: "text/vcard;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+// Inlines a photo URL as a data: URI so the card works offline; falls back to the URL (e.g. CORS)
+export const embedPhoto = async (url: string): Promise<string> => {
+    try {
+        const response = await fetch(url);
+        if (!response.ok) return url;
+        const blob = await response.blob();
+        if (blob.size > 512 * 1024) return url;
+        return await new Promise<string>((resolve) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(String(reader.result));
+            reader.onerror = () => resolve(url);
+            reader.readAsDataURL(blob);
+        });
+    } catch {
+        return url;
+    }
+};
+
+// --- Reading ---
+
+const decodeQuotedPrintable = (value: string) => {
+    const bytes: number[] = [];
+    for (let i = 0; i < value.length; i++) {
+        const hex = value.slice(i + 1, i + 3);
+        if (value[i] === "=" && /^[0-9A-F]{2}$/i.test(hex)) {
+            bytes.push(parseInt(hex, 16));
+            i += 2;
+        } else {
+            bytes.push(value.charCodeAt(i) & 0xff);
+        }
+    }
+    return new TextDecoder().decode(new Uint8Array(bytes));
+};
+
+export const parseVCards = (text: string): VCardData[] => {
+    // Unfold continuation lines (CRLF + space/tab)
+    const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+    const cards: VCardData[] = [];
+    let card: VCardData | null = null;
+
+    for (const rawLine of lines) {
+        const colon = rawLine.indexOf(":");
+        if (colon < 0) continue;
+        const [rawName, ...params] = rawLine.slice(0, colon).split(";");
+        const name = rawName.replace(/^[^.]+\./, "").toUpperCase(); // drop group prefixes like item1.
+        let value = rawLine.slice(colon + 1);
+
+        if (name === "BEGIN" && value.toUpperCase() === "VCARD") {
+            card = { name: "", urls: [] };
+            continue;
+        }
+        if (!card) continue;
+        if (name === "END") {
+            if (!card.name) card.name = [card.firstName, card.lastName].filter(Boolean).join(" ") || card.email || card.phone || "";
+            if (card.name) cards.push(card);
+            card = null;
+            continue;
+        }
+
+        if (params.some(p => /ENCODING=QUOTED-PRINTABLE/i.test(p))) value = decodeQuotedPrintable(value);
+        const components = value.split(/(?<!\\);/).map(unescapeText);
+
+        switch (name) {
+            case "FN":
+                card.name = unescapeText(value).trim();
+                break;
+            case "N":
+                card.lastName = components[0]?.trim() || undefined;
+                card.firstName = components[1]?.trim() || undefined;
+                break;
+            case "ORG":
+                card.company = card.company || components[0]?.trim();
+                break;
+            case "TITLE":
+                card.title = card.title || unescapeText(value).trim();
+                break;
+            case "TEL":
+                card.phone = card.phone || value.replace(/^tel:/i, "").trim();
+                break;
+            case "EMAIL":
+                card.email = card.email || unescapeText(value).trim().toLowerCase();
+                break;
+            case "ADR":
+                card.location = card.location || components.map(c => c.trim()).filter(Boolean).join(", ");
+                break;
+            case "URL":
+                card.urls?.push(value.trim());
+                break;
+            case "PHOTO":
+                if (/^https?:/i.test(value)) card.photo = value.trim();
+                break;
+            case "NOTE":
+                card.note = unescapeText(value).trim();
+                break;
+            case "CATEGORIES":
+                card.categories = value.split(/(?<!\\),/).map(unescapeText).map(c => c.trim()).filter(Boolean);
+                break;
+        }
+    }
+    return cards;
+};
+
+// RFC 4180-style CSV rows (quoted fields, doubled quotes, newlines inside quotes)
+const parseCsvRows = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ",") {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+};
+
+// Header aliases (lowercased) for LinkedIn, Google and our own CSV exports
+const CSV_COLUMNS: Record<keyof Pick<VCardData, "name" | "firstName" | "lastName" | "email" | "phone" | "company" | "title" | "location" | "note">, string[]> = {
+    name: ["name", "contact", "full name", "display name"],
+    firstName: ["first name", "given name"],
+    lastName: ["last name", "family name", "surname"],
+    email: ["email", "email address", "e-mail", "e-mail address", "e-mail 1 - value"],
+    phone: ["phone", "phone number", "mobile", "phone 1 - value"],
+    company: ["company", "organization", "organization 1 - name"],
+    title: ["title", "position", "job title", "organization 1 - title"],
+    location: ["location", "city", "address"],
+    note: ["notes", "note"]
+};
+
+export const parseContactsCsv = (text: string): VCardData[] => {
+    const rows = parseCsvRows(text.replace(/^\uFEFF/, ""));
+    // LinkedIn puts a few "Notes:" lines above the real header row
+    const headerIndex = rows.findIndex(row => row.some(cell => {
+        const header = cell.trim().toLowerCase();
+        return CSV_COLUMNS.firstName.includes(header) || CSV_COLUMNS.name.includes(header) || CSV_COLUMNS.email.includes(header);
+    }));
+    if (headerIndex < 0) return [];
+
+    const headers = rows[headerIndex].map(h => h.trim().toLowerCase());
+    const columnOf = (key: keyof typeof CSV_COLUMNS) => headers.findIndex(h => CSV_COLUMNS[key].includes(h));
+    const urlColumn = headers.findIndex(h => h === "url" || h === "profile url" || h === "website");
+
+    return rows.slice(headerIndex + 1).flatMap(row => {
+        const get = (key: keyof typeof CSV_COLUMNS) => {
+            const index = columnOf(key);
+            return index >= 0 ? (row[index] || "").trim() : "";
+        };
+        const firstName = get("firstName");
+        const lastName = get("lastName");
+        const email = get("email").toLowerCase();
+        const phone = get("phone");
+        const name = get("name") || [firstName, lastName].filter(Boolean).join(" ") || email;
+        if (!name && !phone) return [];
+
+        const url = urlColumn >= 0 ? (row[urlColumn] || "").trim() : "";
+        return [{
+            name: name || phone,
+            ...(firstName ? { firstName } : {}),
+            ...(lastName ? { lastName } : {}),
+            email,
+            phone,
+            company: get("company"),
+            title: get("title"),
+            location: get("location"),
+            note: get("note"),
+            urls: url ? [url] : []
+        }];
+    });
+};
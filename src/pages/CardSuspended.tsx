@@ -0,0 +1,24 @@
+import { CreditCard } from "lucide-react";
+
+// Neutral landing page for taps on a suspended (lost/stolen) card.
+// Deliberately reveals nothing about the card's owner.
+const CardSuspended = () => {
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-background p-4">
+            <div className="text-center max-w-sm">
+                <div className="w-16 h-16 rounded-2xl bg-muted flex items-center justify-center mx-auto mb-4">
+                    <CreditCard className="w-8 h-8 text-muted-foreground" />
+                </div>
+                <h1 className="text-2xl font-bold font-display text-foreground mb-2">Card Inactive</h1>
+                <p className="text-muted-foreground mb-6">
+                    This card is no longer active. If you found it, thank you — no further action is needed.
+                </p>
+                <a href="/" className="text-primary underline hover:text-primary/90">
+                    Return to Home
+                </a>
+            </div>
+        </div>
+    );
+};
+
+export default CardSuspended;
@@ -7,12 +7,16 @@ import { GlassCard } from "@/components/ui/GlassCard";
 import { NeonButton } from "@/components/ui/NeonButton";
 import ConfirmDialog from "@/components/ui/ConfirmDialog";
 import {
-  Download, UserPlus, Link as LinkIcon, Briefcase, User, Phone, Building, Mail, Crown, MoreVertical, Flag, AlertTriangle, MapPin, Lock, ExternalLink
+  Download, UserPlus, Contact as ContactIcon, Link as LinkIcon, Briefcase, User, Phone, Building, Mail, Crown, MoreVertical, Flag, AlertTriangle, MapPin, Lock, ExternalLink
 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import { ErrorAlert } from "@/components/ui/ErrorAlert";
-import { userService } from "@/services/userService";
+import { userService, UserProfile } from "@/services/userService";
 import { interactionService } from "@/services/interactionService";
+import { messagingService } from "@/services/messagingService";
+import { leadService } from "@/services/leadService";
+import { personaService } from "@/services/personaService";
+import { organizationService, Organization } from "@/services/organizationService";
 import { collection, doc, setDoc, getDoc, serverTimestamp } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import {
@@ -32,6 +36,8 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { LeadCaptureForm } from "@/components/profile/LeadCaptureForm";
+import { buildVCard, downloadVCard, embedPhoto, vcardFileName } from "@/lib/vcard";
 
 const PublicProfile = () => {
   const { uid, usernameParam } = useParams();
@@ -43,6 +49,8 @@ const PublicProfile = () => {
   const [error, setError] = useState("");
   const [errorAlert, setErrorAlert] = useState({ isOpen: false, message: "" });
   const [resolvedUid, setResolvedUid] = useState<string | null>(null); // Track the actual UID being viewed
+  const [personaId, setPersonaId] = useState<string | null>(null); // Persona being viewed (null = main profile)
+  const [organization, setOrganization] = useState<Organization | null>(null); // Org whose branding is enforced
 
   // ... (existing state variables)
   const [isUnlocked, setIsUnlocked] = useState(false);
@@ -68,6 +76,9 @@ const PublicProfile = () => {
 
   const isOwnProfile = currentUser?.uid === resolvedUid;
 
+  // Tags interactions with the persona so analytics can be split per persona
+  const personaScope = personaId ? { personaId } : {};
+
   // Analytics: Log View on Mount or when resolvedUid changes
   useEffect(() => {
     if (resolvedUid && !authLoading) {
@@ -80,7 +91,7 @@ const PublicProfile = () => {
         // 2. View Logic (Direct Visit)
         if (!isOwnProfile) {
           // Check session storage to prevent spam/F5 refreshing
-          const sessionKey = `viewed_${resolvedUid}`;
+          const sessionKey = `viewed_${resolvedUid}${personaId ? `_${personaId}` : ""}`;
           const currentTimestamp = Date.now();
           const lastViewed = sessionStorage.getItem(sessionKey);
 
@@ -95,9 +106,11 @@ const PublicProfile = () => {
               visitorId: currentUser.uid,
               name: currentUser.displayName || "Anonymous User",
               email: currentUser.email,
-              source: 'web_profile'
+              source: 'web_profile',
+              ...personaScope
             } : {
-              source: 'web_profile'
+              source: 'web_profile',
+              ...personaScope
             };
 
             interactionService.logInteraction(resolvedUid, "view", visitorData).catch(err => console.error("Log error", err));
@@ -108,11 +121,36 @@ const PublicProfile = () => {
         }
       }
     }
-  }, [resolvedUid, currentUser, authLoading, location.state, location.search]);
+  }, [resolvedUid, personaId, currentUser, authLoading, location.state, location.search]);
+
+  // Analytics: outbound link and portfolio clicks, once per item per session (like views)
+  const logLinkClick = (linkKind: "link" | "portfolio", item: { id?: number | string; title?: string; url?: string }) => {
+    if (!resolvedUid || isOwnProfile || item.id === undefined) return;
+    const sessionKey = `clicked_${resolvedUid}_${linkKind}_${item.id}`;
+    if (sessionStorage.getItem(sessionKey)) return;
+    sessionStorage.setItem(sessionKey, 'true');
+
+    interactionService.logInteraction(resolvedUid, "link_click", {
+      ...(currentUser ? { visitorId: currentUser.uid } : {}),
+      source: 'web_profile',
+      linkKind,
+      linkId: String(item.id),
+      linkTitle: item.title || "",
+      ...(item.url ? { linkUrl: item.url } : {}),
+      ...personaScope
+    }).catch(err => console.error("Log error", err));
+  };
 
   // ... (Handle Redirect Actions useEffect - unchanged)
 
   useEffect(() => {
+    // Organization members always show the org's branding and locked fields
+    const withOrgBranding = async (profile: UserProfile) => {
+      const org = profile.organizationId ? await organizationService.getOrganization(profile.organizationId) : null;
+      setOrganization(org);
+      return organizationService.applyOrgBranding(profile, org);
+    };
+
     const loadProfile = async () => {
       // Logic for /@username (captured as /:usernameParam)
       if (usernameParam) {
@@ -127,14 +165,17 @@ const PublicProfile = () => {
 
         setLoading(true);
         try {
-          const fetchedProfile = await userService.getUserByUsername(targetUsername);
+          const resolved = await userService.resolveUsername(targetUsername);
+          const fetchedProfile = resolved ? await userService.getUserProfile(resolved.uid) : null;
+          const persona = resolved?.personaId ? await personaService.getPersona(resolved.uid, resolved.personaId) : null;
 
-          if (fetchedProfile) {
+          if (fetchedProfile && (!resolved?.personaId || persona)) {
             if (fetchedProfile.isBanned) {
               setError("Page Not Found"); // Mask banned users
             } else {
-              setProfileData(fetchedProfile);
+              setProfileData(await withOrgBranding(personaService.applyPersona(fetchedProfile, persona)));
               setResolvedUid(fetchedProfile.uid);
+              setPersonaId(persona?.id || null);
             }
           } else {
             setError("Profile not found");
@@ -160,18 +201,27 @@ const PublicProfile = () => {
               return;
             }
 
-            // REDIRECT CHECK: If user has a username, redirect to /@username
-            if (data.username) {
+            // ?persona=<id> opens one of the user's personas (falls back to the main profile if deleted)
+            const searchParams = new URLSearchParams(location.search);
+            const requestedPersona = searchParams.get("persona");
+            const persona = requestedPersona ? await personaService.getPersona(uid, requestedPersona) : null;
+            searchParams.delete("persona");
+            const search = searchParams.toString() ? `?${searchParams.toString()}` : "";
+
+            // REDIRECT CHECK: If the user (or persona) has a username, redirect to /@username
+            const targetUsername = persona ? persona.username : data.username;
+            if (targetUsername) {
               // Preserve Query Params (e.g. ?origin=tap) and State to ensure Analytics consistency
               navigate(
-                { pathname: `/@${data.username}`, search: location.search },
+                { pathname: `/@${targetUsername}`, search },
                 { replace: true, state: location.state }
               );
               return;
             }
 
-            setProfileData(data);
+            setProfileData(await withOrgBranding(personaService.applyPersona(data, persona)));
             setResolvedUid(data.uid);
+            setPersonaId(persona?.id || null);
           } else {
             setError("Profile not found");
           }
@@ -188,10 +238,10 @@ const PublicProfile = () => {
       }
     };
     loadProfile();
-  }, [uid, usernameParam, navigate]);
+  }, [uid, usernameParam, location.search, navigate]);
 
   const handleSaveContact = async () => {
-    if (!profileData || !uid) return;
+    if (!profileData || !resolvedUid) return;
 
     if (!currentUser) {
       setLoginPromptAction("save_contact");
@@ -210,18 +260,20 @@ const PublicProfile = () => {
         title: profileData.title || "",
         location: profileData.location || "",
         photoURL: profileData.photoURL || "",
-        originalProfileId: uid,
+        originalProfileId: resolvedUid,
         savedAt: serverTimestamp(),
-        source: "web_profile"
+        source: "web_profile",
+        ...personaScope
       };
 
-      await setDoc(doc(db, "users", currentUser.uid, "contacts", uid), contactData);
+      await setDoc(doc(db, "users", currentUser.uid, "contacts", personaId ? `${resolvedUid}_${personaId}` : resolvedUid), contactData);
 
       // 2. Log Interaction for the Profile Owner
-      await interactionService.logInteraction(uid, "contact_saved", {
+      await interactionService.logInteraction(resolvedUid, "contact_saved", {
         savedBy: currentUser.uid,
         name: currentUser.displayName || "Anonymous",
-        email: currentUser.email
+        email: currentUser.email,
+        ...personaScope
       });
 
       toast({
@@ -241,6 +293,30 @@ const PublicProfile = () => {
     }
   };
 
+  // Standalone .vcf for the phone's address book; no account needed
+  const handleDownloadVCard = async () => {
+    if (!profileData) return;
+    const name = profileData.displayName || `${profileData.firstName || ""} ${profileData.lastName || ""}`.trim();
+    try {
+      const vcard = buildVCard({
+        name,
+        firstName: profileData.firstName,
+        lastName: profileData.lastName,
+        email: profileData.email,
+        phone: profileData.phone,
+        company: profileData.company,
+        title: profileData.title,
+        location: profileData.location,
+        photo: profileData.photoURL ? await embedPhoto(profileData.photoURL) : undefined,
+        urls: [window.location.origin + window.location.pathname, ...(profileData.links || []).map((link: { url: string }) => link.url)]
+      });
+      downloadVCard(vcard, vcardFileName(name));
+    } catch (error) {
+      console.error("Error building vCard:", error);
+      setErrorAlert({ isOpen: true, message: "Failed to download contact card" });
+    }
+  };
+
   const handleUnlock = async () => {
     if (!uid) return;
     setLoading(true);
@@ -290,18 +366,34 @@ const PublicProfile = () => {
       return;
     }
 
-    if (!uid) return;
+    if (!resolvedUid) return;
 
     try {
-      await interactionService.logInteraction(uid, "message", {
-        message: message,
-        email: currentUser.email,
+      if (await messagingService.isBlocked(resolvedUid, currentUser.uid, currentUser.email)) {
+        setErrorAlert({ isOpen: true, message: "You can't message this profile." });
+        return;
+      }
+
+      // Messages go into a thread the owner can reply to; the interaction only marks the
+      // event for alerts and analytics and points at the thread, the text lives there
+      const conversationId = await messagingService.startConversation(
+        resolvedUid,
+        { name: profileData.displayName || `${profileData.firstName || ""} ${profileData.lastName || ""}`.trim() || "Profile", photoURL: profileData.photoURL || "" },
+        currentUser.uid,
+        { name: currentUser.displayName || "Anonymous User", email: currentUser.email || "", photoURL: currentUser.photoURL || "" },
+        personaId
+      );
+      await messagingService.sendMessage({ id: conversationId, participants: [resolvedUid, currentUser.uid] }, currentUser.uid, message);
+
+      await interactionService.logInteraction(resolvedUid, "message", {
         name: currentUser.displayName || "Anonymous User",
-        senderId: currentUser.uid // Traceability
+        visitorId: currentUser.uid,
+        conversationId,
+        ...personaScope
       });
       toast({
         title: "Sent",
-        description: "Message sent successfully!",
+        description: "Message sent! Replies show up in your Inbox.",
       });
       setMessage("");
     } catch (err) {
@@ -428,6 +520,11 @@ const PublicProfile = () => {
   const hasRoyalTexture = profileData?.visuals?.royalTexture;
   const hasCustomBranding = profileData?.visuals?.customBranding;
 
+  // Org brand colors replace the default hero gradient when there's no wallpaper
+  const brandGradient = organization?.branding?.primaryColor
+    ? { backgroundImage: `linear-gradient(to bottom right, ${organization.branding.primaryColor}, ${organization.branding.accentColor || organization.branding.primaryColor})` }
+    : undefined;
+
   if (!isPublic) {
     return (
       <div className={`min-h-screen bg-background pb-20 ${hasRoyalTexture ? 'bg-texture-gold' : ''}`}>
@@ -441,7 +538,7 @@ const PublicProfile = () => {
               style={{ backgroundImage: `url(${wallpaperUrl})` }}
             />
           ) : (
-            <div className="absolute inset-0 bg-gradient-to-br from-primary/30 to-accent/30" />
+            <div className="absolute inset-0 bg-gradient-to-br from-primary/30 to-accent/30" style={brandGradient} />
           )}
           <div className="absolute inset-0 bg-gradient-mesh opacity-50" />
         </div>
@@ -492,7 +589,7 @@ const PublicProfile = () => {
             style={{ backgroundImage: `url(${wallpaperUrl})` }}
           />
         ) : (
-          <div className="absolute inset-0 bg-gradient-to-br from-primary/30 to-accent/30" />
+          <div className="absolute inset-0 bg-gradient-to-br from-primary/30 to-accent/30" style={brandGradient} />
         )}
 
         {/* Overlays for readability */}
@@ -530,7 +627,11 @@ const PublicProfile = () => {
             <div className="flex flex-wrap justify-center items-center gap-2">
               {profileData.company && (
                 <div className="flex items-center gap-1.5">
-                  <Building className="w-4 h-4" />
+                  {organization?.branding?.logoUrl ? (
+                    <img src={organization.branding.logoUrl} alt={organization.name} className="w-5 h-5 rounded object-contain" />
+                  ) : (
+                    <Building className="w-4 h-4" />
+                  )}
                   <span>{profileData.company}</span>
                 </div>
               )}
@@ -588,6 +689,13 @@ const PublicProfile = () => {
                 </div>
               </div>
             </NeonButton>
+            <button
+              onClick={handleDownloadVCard}
+              className="w-full flex items-center justify-center gap-2 mt-3 text-sm text-muted-foreground hover:text-primary transition-colors"
+            >
+              <ContactIcon className="w-4 h-4" />
+              Download .vcf to your phone's contacts
+            </button>
           </motion.div>
         )}
 
@@ -618,6 +726,7 @@ const PublicProfile = () => {
                 href={link.url}
                 target="_blank"
                 rel="noopener noreferrer"
+                onClick={() => logLinkClick("link", link)}
                 className="glass-card-hover flex items-center gap-4 p-4 rounded-2xl group"
                 whileHover={{ x: 4 }}
                 initial={{ opacity: 0, x: -20 }}
@@ -645,7 +754,7 @@ const PublicProfile = () => {
             {/* Full width grid (grid-cols-1) */}
             <div className="grid grid-cols-1 gap-6 mb-8">
               {profileData.portfolioItems.map((item: any, index: number) => (
-                <GlassCard key={index} variant="hover" className="p-0 overflow-hidden relative group">
+                <GlassCard key={index} variant="hover" className="p-0 overflow-hidden relative group" onClick={() => logLinkClick("portfolio", item)}>
                   <div className="p-4 text-center">
                     <h3 className="font-bold text-lg text-foreground mb-1">{item.title}</h3>
                     <p className="text-xs text-primary uppercase tracking-wider">{item.category}</p>
@@ -676,6 +785,11 @@ const PublicProfile = () => {
           </motion.div>
         )}
 
+        {/* Lead Capture Form - no login needed, hidden for Owner */}
+        {!isOwnProfile && resolvedUid && profileData.leadForm?.enabled && (
+          <LeadCaptureForm ownerId={resolvedUid} personaId={personaId} config={leadService.withDefaults(profileData.leadForm)} />
+        )}
+
         {/* Contact Form - Hidden for Owner */}
         {!isOwnProfile && (
           <motion.div
@@ -688,6 +802,7 @@ const PublicProfile = () => {
               <form onSubmit={handleSendMessage} className="space-y-4">
                 <textarea
                   rows={3}
+                  maxLength={2000}
                   placeholder="Your Message..."
                   value={message}
                   onChange={(e) => setMessage(e.target.value)}
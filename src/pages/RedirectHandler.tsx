@@ -1,60 +1,21 @@
 import { useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { doc, getDoc } from "firebase/firestore";
-import { db } from "@/lib/firebase";
 import { Loader2 } from "lucide-react";
-import { interactionService } from "@/services/interactionService";
+import { functionsBaseUrl } from "@/lib/firebase";
 
 const RedirectHandler = () => {
     const { cardId } = useParams();
     const navigate = useNavigate();
 
     useEffect(() => {
-        const handleRedirect = async () => {
-            if (!cardId) {
-                navigate("/");
-                return;
-            }
-
-            try {
-                // 1. Look up card owner
-                const cardRef = doc(db, "cards", cardId);
-                const cardSnap = await getDoc(cardRef);
-
-                if (cardSnap.exists()) {
-                    const data = cardSnap.data();
-                    const uid = data.uid;
-
-                    if (uid) {
-                        // 2. Log Interaction (Tap)
-                        try {
-                            await interactionService.logInteraction(uid, "tap", {
-                                location: "Unknown",
-                                device: navigator.userAgent,
-                                source: "NFC Card",
-                                cardId: cardId
-                            });
-                        } catch (logError) {
-                            console.error("Failed to log interaction", logError);
-                        }
-
-
-                        // 3. Redirect to Profile
-                        window.location.href = `/u/${uid}?origin=tap`;
-                        return;
-                    }
-                }
-
-                // Card not found or not linked
-                navigate("/404"); // Or a specific "Card not active" page
-
-            } catch (error) {
-                console.error("Error handling redirect:", error);
-                navigate("/");
-            }
-        };
-
-        handleRedirect();
+        if (!cardId) {
+            navigate("/");
+            return;
+        }
+
+        // The `resolveCard` function looks up the card, logs the tap and
+        // redirects to the owner's profile (Hosting rewrites /c/* to it in prod).
+        window.location.replace(`${functionsBaseUrl}/resolveCard/c/${encodeURIComponent(cardId)}`);
     }, [cardId, navigate]);
 
     return (
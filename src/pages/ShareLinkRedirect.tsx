@@ -0,0 +1,33 @@
+import { useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { shareLinkService } from "@/services/shareLinkService";
+
+const ShareLinkRedirect = () => {
+    const { code } = useParams();
+    const navigate = useNavigate();
+
+    useEffect(() => {
+        if (!code) {
+            navigate("/", { replace: true });
+            return;
+        }
+
+        // Opens the profile with the link's UTM tags so the view is attributed to its campaign
+        shareLinkService.getLink(code)
+            .then(link => navigate(link ? shareLinkService.getTargetPath(link) : "/404", { replace: true }))
+            .catch(() => navigate("/404", { replace: true }));
+    }, [code, navigate]);
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-background">
+            <div className="text-center">
+                <Loader2 className="w-12 h-12 text-primary animate-spin mx-auto mb-4" />
+                <h2 className="text-xl font-bold text-foreground">Redirecting...</h2>
+                <p className="text-muted-foreground">Opening profile</p>
+            </div>
+        </div>
+    );
+};
+
+export default ShareLinkRedirect;
@@ -4,7 +4,7 @@ import { GlassCard } from "@/components/ui/GlassCard";
 import { useAuth } from "@/contexts/AuthContext";
 import { collection, query, getDocs, orderBy, limit, where, doc, updateDoc, onSnapshot, getCountFromServer } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { adminService } from "@/services/adminService";
+import { adminService, StatsJobRun } from "@/services/adminService";
 import {
     Users,
     Package,
@@ -14,7 +14,8 @@ import {
     Trash2,
     Plus,
     Mail,
-    Loader2
+    Loader2,
+    Activity
 } from "lucide-react";
 import ConfirmDialog from "@/components/ui/ConfirmDialog";
 import { NeonButton } from "@/components/ui/NeonButton";
@@ -42,6 +43,7 @@ export const AdminDashboard = () => {
     // Unified Activity State
     const [recentActivity, setRecentActivity] = useState<any[]>([]);
     const [loading, setLoading] = useState(true);
+    const [statsRuns, setStatsRuns] = useState<StatsJobRun[]>([]);
 
     useEffect(() => {
         const fetchData = async () => {
@@ -54,14 +56,17 @@ export const AdminDashboard = () => {
                 const recentOrdersPromise = getDocs(query(collection(db, "orders"), orderBy("createdAt", "desc"), limit(10)));
                 const recentReportsPromise = getDocs(query(collection(db, "reports"), orderBy("createdAt", "desc"), limit(10)));
                 const recentAdminActionsPromise = adminService.getRecentActions();
+                const statsRunsPromise = adminService.getStatsJobRuns();
 
-                const [usersCount, ordersSnap, recentOrders, recentReports, recentActions] = await Promise.all([
+                const [usersCount, ordersSnap, recentOrders, recentReports, recentActions, runs] = await Promise.all([
                     usersCountPromise,
                     ordersSnapPromise,
                     recentOrdersPromise,
                     recentReportsPromise,
-                    recentAdminActionsPromise
+                    recentAdminActionsPromise,
+                    statsRunsPromise
                 ]);
+                setStatsRuns(runs);
 
                 // Process Stats
                 let totalOrders = 0;
@@ -199,6 +204,52 @@ export const AdminDashboard = () => {
                 </GlassCard>
             </div>
 
+            {/* Stats Aggregation Job */}
+            <GlassCard className="p-6">
+                <div className="flex items-center gap-3 mb-4">
+                    <div className="p-2 rounded-xl bg-cyan-500/10 text-cyan-500">
+                        <Activity className="w-5 h-5" />
+                    </div>
+                    <div>
+                        <h2 className="text-xl font-bold font-display text-foreground">Stats Aggregation</h2>
+                        <p className="text-xs text-muted-foreground">Hourly job that refreshes profiles with new activity</p>
+                    </div>
+                </div>
+                {statsRuns.length > 0 ? (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-muted-foreground border-b border-border">
+                                    <th className="py-2 pr-4">Started</th>
+                                    <th className="py-2 pr-4 text-right">Profiles</th>
+                                    <th className="py-2 pr-4 text-right">Failures</th>
+                                    <th className="py-2 pr-4 text-right">Duration</th>
+                                    <th className="py-2">Backlog</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {statsRuns.map(run => (
+                                    <tr key={run.id} className="border-b border-border/50">
+                                        <td className="py-2 pr-4 text-foreground">
+                                            {run.startedAt?.seconds ? format(new Date(run.startedAt.seconds * 1000), "PP p") : "-"}
+                                        </td>
+                                        <td className="py-2 pr-4 text-right text-foreground">{run.usersProcessed}</td>
+                                        <td className={`py-2 pr-4 text-right ${run.failures > 0 ? "text-red-500 font-medium" : "text-muted-foreground"}`}
+                                            title={run.failedUids?.join(", ")}>
+                                            {run.failures}
+                                        </td>
+                                        <td className="py-2 pr-4 text-right text-muted-foreground">{(run.durationMs / 1000).toFixed(1)}s</td>
+                                        <td className="py-2 text-muted-foreground">{run.backlogRemaining ? "Carried over" : "Cleared"}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                ) : (
+                    <p className="text-sm text-muted-foreground">No runs recorded yet.</p>
+                )}
+            </GlassCard>
+
             <div className="grid lg:grid-cols-1 gap-8">
                 {/* Recent Activity Feed */}
                 <div className="space-y-6">
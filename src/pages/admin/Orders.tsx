@@ -5,11 +5,13 @@ import { motion, AnimatePresence } from "framer-motion";
 import { GlassCard } from "@/components/ui/GlassCard";
 import { db } from "@/lib/firebase";
 import { collection, query, orderBy, getDocs, doc, updateDoc, Timestamp, where, limit, startAfter, DocumentSnapshot, getCountFromServer } from "firebase/firestore";
-import { Loader2, Package, Search, Calendar, ChevronDown, ChevronUp, Edit2, Check, Link2, MapPin, Phone, Mail, User as UserIcon, Filter, Clock, Copy, Download, Sparkles } from "lucide-react";
+import { Loader2, Package, Search, Calendar, ChevronDown, ChevronUp, Edit2, Check, Link2, MapPin, Phone, Mail, User as UserIcon, Filter, Clock, Copy, Download, Sparkles, Cpu } from "lucide-react";
 import { GradientText } from "@/components/ui/GradientText";
 import { format } from "date-fns";
 import { toast } from "sonner";
 import { NeonButton } from "@/components/ui/NeonButton";
+import { FulfillmentPanel } from "@/components/admin/FulfillmentPanel";
+import { cardService, FulfilledCard } from "@/services/cardService";
 
 interface Order {
     id: string;
@@ -35,6 +37,7 @@ interface Order {
     timeline: any[];
     customization?: Record<string, any>;
     formSnapshot?: { id: string; label: string; type: string }[];
+    cardIds?: string[];
 }
 
 const statusColors = {
@@ -63,6 +66,7 @@ const AdminOrders = () => {
     // Smart Management States
     const [showPendingOnly, setShowPendingOnly] = useState(false);
     const [statusFilter, setStatusFilter] = useState<string>("all");
+    const [selectedOrderIds, setSelectedOrderIds] = useState<string[]>([]);
 
     // Initial Filter from URL
     useEffect(() => {
@@ -260,6 +264,17 @@ const AdminOrders = () => {
                 });
             }
 
+            // Record which physical cards went out with the shipment
+            if (newStatus === "shipped" && currentOrder.cardIds?.length) {
+                const hasShippedStep = updatedTimeline.some(step => step.status === "Shipped");
+                if (!hasShippedStep) {
+                    updatedTimeline.push({ status: "Shipped", completed: true, date: new Date().toISOString() });
+                }
+                updatedTimeline = updatedTimeline.map(step =>
+                    step.status === "Shipped" ? { ...step, cardIds: currentOrder.cardIds } : step
+                );
+            }
+
             await updateDoc(orderRef, {
                 status: newStatus,
                 timeline: updatedTimeline
@@ -276,6 +291,19 @@ const AdminOrders = () => {
         }
     };
 
+    const toggleSelected = (orderId: string) => {
+        setSelectedOrderIds(prev => prev.includes(orderId) ? prev.filter(id => id !== orderId) : [...prev, orderId]);
+    };
+
+    // Merge freshly bound cards into the list without a refetch (which would unmount the manifest)
+    const handleCardsBound = (cards: FulfilledCard[]) => {
+        setOrders(prev => prev.map(order => {
+            const cardIds = cards.filter(c => c.orderId === order.id && c.cardId).map(c => c.cardId as string);
+            if (cardIds.length === 0) return order;
+            return { ...order, cardIds: Array.from(new Set([...(order.cardIds || []), ...cardIds])) };
+        }));
+    };
+
     const toggleExpand = async (orderId: string) => {
         setExpandedOrderId(expandedOrderId === orderId ? null : orderId);
 
@@ -380,6 +408,12 @@ const AdminOrders = () => {
                 </div>
             </div>
 
+            <FulfillmentPanel
+                selectedOrderIds={selectedOrderIds}
+                onClearSelection={() => setSelectedOrderIds([])}
+                onBound={handleCardsBound}
+            />
+
             <div className="space-y-4">
                 {orders.map((order) => (
                     <GlassCard key={order.id} className="overflow-hidden">
@@ -390,6 +424,14 @@ const AdminOrders = () => {
                             <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-6">
                                 {/* Order Quick Info */}
                                 <div className="flex items-start gap-4">
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); toggleSelected(order.id); }}
+                                        disabled={!!order.cardIds?.length}
+                                        title={order.cardIds?.length ? "Card already bound" : "Select for fulfillment"}
+                                        className={`mt-3 w-5 h-5 rounded border flex items-center justify-center shrink-0 disabled:opacity-30 disabled:cursor-not-allowed ${selectedOrderIds.includes(order.id) ? "border-primary bg-primary" : "border-muted-foreground"}`}
+                                    >
+                                        {selectedOrderIds.includes(order.id) && <Check className="w-3 h-3 text-black" />}
+                                    </button>
                                     <div className="p-3 rounded-xl bg-primary/10 text-primary">
                                         <Package className="w-6 h-6" />
                                     </div>
@@ -399,6 +441,14 @@ const AdminOrders = () => {
                                             <span className="font-mono">#{order.id.slice(0, 8)}</span>
                                             <span>•</span>
                                             <span>{format(order.createdAt?.toDate ? order.createdAt.toDate() : new Date(), "PPP")}</span>
+                                            {order.cardIds?.length ? (
+                                                <>
+                                                    <span>•</span>
+                                                    <span className="flex items-center gap-1 text-primary">
+                                                        <Cpu className="w-3 h-3" /> {order.cardIds.length} card(s)
+                                                    </span>
+                                                </>
+                                            ) : null}
                                         </div>
                                     </div>
                                 </div>
@@ -668,6 +718,25 @@ const AdminOrders = () => {
                                                         <p className="text-sm text-muted-foreground">{order.item.description}</p>
                                                     </div>
 
+                                                    {order.cardIds?.length ? (
+                                                        <div className="pt-4 border-t border-white/10">
+                                                            <p className="text-xs text-muted-foreground mb-2">Bound Cards</p>
+                                                            <div className="space-y-2">
+                                                                {order.cardIds.map(cardId => (
+                                                                    <div key={cardId} className="flex items-center gap-2 bg-black/40 p-2 rounded border border-white/10">
+                                                                        <code className="text-sm text-primary flex-1 break-all">{cardService.getCardUrl(cardId)}</code>
+                                                                        <button
+                                                                            onClick={(e) => { e.stopPropagation(); navigator.clipboard.writeText(`https://${cardService.getCardUrl(cardId)}`); toast.success("Copied Card Link"); }}
+                                                                            className="p-1 hover:bg-white/10 rounded transition-all text-muted-foreground hover:text-primary"
+                                                                        >
+                                                                            <Copy className="w-3 h-3" />
+                                                                        </button>
+                                                                    </div>
+                                                                ))}
+                                                            </div>
+                                                        </div>
+                                                    ) : null}
+
                                                     <div className="pt-4 border-t border-white/10">
                                                         <div className="flex justify-between items-center mb-1">
                                                             <p className="text-xs text-muted-foreground">Internal User ID</p>
@@ -3,49 +3,59 @@ import { motion } from "framer-motion";
 import { GlassCard } from "@/components/ui/GlassCard";
 import { GradientText } from "@/components/ui/GradientText";
 import { NeonButton } from "@/components/ui/NeonButton";
-import { Link as LinkIcon, CreditCard, CheckCircle, AlertCircle, Trash2, Plus, ExternalLink, Smartphone } from "lucide-react";
+import { Link as LinkIcon, CreditCard, CheckCircle, AlertCircle, Trash2, Plus, ExternalLink, Smartphone, KeyRound, ShieldOff } from "lucide-react";
 import { toast } from "sonner";
 import { Link } from "react-router-dom";
 import { ErrorAlert } from "@/components/ui/ErrorAlert";
+import { getFriendlyErrorMessage } from "@/lib/errorUtils";
+import { ReportLostCardDialog } from "@/components/dashboard/ReportLostCardDialog";
+import ConfirmDialog from "@/components/ui/ConfirmDialog";
 
 interface LinkedCard {
   id: string;
   cardUrl: string;
   linkedAt: string;
-  status: "active" | "pending";
+  status: CardStatus;
   cardType: string;
+  orderId?: string;
+  personaId?: string;
 }
 
-import { collection, query, orderBy, getDocs, addDoc, deleteDoc, doc, serverTimestamp, setDoc } from "firebase/firestore";
-import { db } from "@/lib/firebase";
 import { useAuth } from "@/contexts/AuthContext";
+import { useDashboard } from "@/contexts/DashboardContext";
+import { cardService, Card, CardStatus } from "@/services/cardService";
+
+const toLinkedCard = (card: Card): LinkedCard => ({
+  id: card.id,
+  cardUrl: cardService.getCardUrl(card.id),
+  linkedAt: (card.claimedAt?.toDate() || new Date()).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" }),
+  status: card.status,
+  cardType: card.orderId ? "Ordered Card" : "Active Card",
+  orderId: card.orderId,
+  personaId: card.personaId,
+});
 
 const CardLink = () => {
   const { currentUser } = useAuth();
+  const { personas } = useDashboard();
   const [cardUrl, setCardUrl] = useState("");
+  const [claimCode, setClaimCode] = useState("");
   const [isLinking, setIsLinking] = useState(false);
   const [linkedCards, setLinkedCards] = useState<LinkedCard[]>([]);
   const [loading, setLoading] = useState(true);
   const [errorAlert, setErrorAlert] = useState({ isOpen: false, message: "" });
+  const [lostCard, setLostCard] = useState<LinkedCard | null>(null);
+  const [cardToUnlink, setCardToUnlink] = useState<LinkedCard | null>(null);
+  const [unlinking, setUnlinking] = useState(false);
 
   useEffect(() => {
     const fetchCards = async () => {
       if (!currentUser) return;
       try {
-        const q = query(collection(db, "users", currentUser.uid, "cards"), orderBy("linkedAt", "desc"));
-        const querySnapshot = await getDocs(q);
-        const loadedCards: LinkedCard[] = [];
-        querySnapshot.forEach((doc) => {
-          const data = doc.data();
-          loadedCards.push({
-            id: doc.id,
-            cardUrl: data.cardUrl,
-            linkedAt: data.linkedAt?.toDate().toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" }),
-            status: data.status,
-            cardType: data.cardType,
-          } as LinkedCard);
-        });
-        setLinkedCards(loadedCards);
+        // Pull any links saved under users/{uid}/cards into the registry first
+        await cardService.migrateLegacyLinks();
+        const cards = await cardService.getUserCards(currentUser.uid);
+        setLinkedCards(cards.map(toLinkedCard));
       } catch (error) {
         console.error(error);
       } finally {
@@ -62,9 +72,8 @@ const CardLink = () => {
       return;
     }
 
-    // Validate URL format
-    const urlPattern = /^(nxcbadge\.com\/c\/|https?:\/\/nxcbadge\.com\/c\/)[a-zA-Z0-9]+$/;
-    if (!urlPattern.test(cardUrl.trim())) {
+    const cardId = cardService.parseCardId(cardUrl);
+    if (!cardId) {
       setErrorAlert({ isOpen: true, message: "Invalid card URL format. It should look like: nxcbadge.com/c/abc123" });
       return;
     }
@@ -72,44 +81,66 @@ const CardLink = () => {
     setIsLinking(true);
 
     try {
-      const cleanUrl = cardUrl.trim().replace("https://", "");
-      const newCardData = {
-        cardUrl: cleanUrl,
-        linkedAt: serverTimestamp(),
-        status: "active",
-        cardType: "Active Card", // We can't identify type from URL alone easily without backend lookup of card IDs, assuming generic for now
-      };
-
-      const docRef = await addDoc(collection(db, "users", currentUser.uid, "cards"), newCardData);
-
-      const newCard: LinkedCard = {
-        id: docRef.id,
-        cardUrl: cleanUrl,
-        linkedAt: new Date().toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" }),
-        status: "active",
-        cardType: "Active Card",
-      };
+      const card = await cardService.claimCard(cardId, claimCode);
+      if (card.status === "claimed") {
+        await cardService.activateCard(currentUser.uid, cardId);
+      }
 
-      setLinkedCards([newCard, ...linkedCards]);
+      const newCard = toLinkedCard({ ...card, status: card.status === "claimed" ? "active" : card.status });
+      setLinkedCards([newCard, ...linkedCards.filter(c => c.id !== cardId)]);
       setCardUrl("");
+      setClaimCode("");
       toast.success("Card linked successfully! Your NFC card now points to your profile.");
     } catch (error) {
       console.error(error);
-      setErrorAlert({ isOpen: true, message: "Failed to link card" });
+      setErrorAlert({ isOpen: true, message: getFriendlyErrorMessage(error) || "Failed to link card" });
     } finally {
       setIsLinking(false);
     }
   };
 
-  const handleUnlinkCard = async (id: string) => {
+  const handleActivateCard = async (id: string) => {
+    if (!currentUser) return;
+    try {
+      // Cards assigned to the user's order are claimed (no code needed) before they can go live
+      if (linkedCards.find(card => card.id === id)?.status === "assigned") {
+        await cardService.claimCard(id);
+      }
+      await cardService.activateCard(currentUser.uid, id);
+      setLinkedCards(linkedCards.map(card => card.id === id ? { ...card, status: "active" } : card));
+      toast.success("Card activated. Taps open your profile again.");
+    } catch (error) {
+      console.error(error);
+      setErrorAlert({ isOpen: true, message: getFriendlyErrorMessage(error) || "Failed to activate card" });
+    }
+  };
+
+  const handleRouteCard = async (id: string, personaId: string) => {
     if (!currentUser) return;
     try {
-      await deleteDoc(doc(db, "users", currentUser.uid, "cards", id));
+      await cardService.setCardPersona(currentUser.uid, id, personaId || null);
+      setLinkedCards(linkedCards.map(card => card.id === id ? { ...card, personaId: personaId || undefined } : card));
+      toast.success("Card now opens the selected profile");
+    } catch (error) {
+      console.error(error);
+      setErrorAlert({ isOpen: true, message: getFriendlyErrorMessage(error) || "Failed to update card" });
+    }
+  };
+
+  const handleUnlinkCard = async () => {
+    if (!currentUser || !cardToUnlink) return;
+    const id = cardToUnlink.id;
+    setUnlinking(true);
+    try {
+      await cardService.releaseCard(currentUser.uid, id);
       setLinkedCards(linkedCards.filter(card => card.id !== id));
       toast.success("Card unlinked successfully");
     } catch (error) {
       console.error(error);
-      setErrorAlert({ isOpen: true, message: "Failed to unlink card" });
+      setErrorAlert({ isOpen: true, message: getFriendlyErrorMessage(error) || "Failed to unlink card" });
+    } finally {
+      setUnlinking(false);
+      setCardToUnlink(null);
     }
   };
 
@@ -150,9 +181,9 @@ const CardLink = () => {
             <div className="w-16 h-16 rounded-2xl bg-primary/20 flex items-center justify-center mx-auto mb-4">
               <LinkIcon className="w-8 h-8 text-primary" />
             </div>
-            <h3 className="font-bold text-foreground mb-2">2. Get Your Card URL</h3>
+            <h3 className="font-bold text-foreground mb-2">2. Find Your Claim Code</h3>
             <p className="text-sm text-muted-foreground">
-              Each card comes with a unique URL printed on it
+              Each card comes with a unique URL and a one-time claim code
             </p>
           </motion.div>
           <motion.div
@@ -166,7 +197,7 @@ const CardLink = () => {
             </div>
             <h3 className="font-bold text-foreground mb-2">3. Link & Share</h3>
             <p className="text-sm text-muted-foreground">
-              Add the URL here to connect it to your profile
+              Enter both here to connect it to your profile
             </p>
           </motion.div>
         </div>
@@ -186,6 +217,18 @@ const CardLink = () => {
               className="w-full pl-12 pr-4 py-3 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20 text-foreground"
             />
           </div>
+          <div className="sm:w-48 relative">
+            <KeyRound className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+            <input
+              type="text"
+              value={claimCode}
+              onChange={(e) => setClaimCode(e.target.value.toUpperCase())}
+              placeholder="ABCD-2345"
+              maxLength={9}
+              autoComplete="off"
+              className="w-full pl-12 pr-4 py-3 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20 text-foreground font-mono tracking-wider"
+            />
+          </div>
           <NeonButton onClick={handleLinkCard} disabled={isLinking}>
             {isLinking ? (
               <>
@@ -205,8 +248,9 @@ const CardLink = () => {
           </NeonButton>
         </div>
         <p className="text-sm text-muted-foreground mt-3">
-          Enter the card URL found on your NFC card or in your{" "}
-          <Link to="/dashboard/orders" className="text-primary hover:underline">order details</Link>.
+          Enter the card URL and claim code found on your NFC card or inside its box. Cards from your own orders,
+          or ones you unlinked, only need the URL. Track deliveries in{" "}
+          <Link to="/dashboard/my-cards" className="text-primary hover:underline">My Cards</Link>.
         </p>
       </GlassCard>
 
@@ -231,22 +275,48 @@ const CardLink = () => {
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2">
                         <p className="font-medium text-foreground truncate">{card.cardUrl}</p>
-                        {card.status === "active" ? (
+                        {card.status === "suspended" ? (
+                          <button
+                            onClick={() => handleActivateCard(card.id)}
+                            title="Found it? Re-activate card"
+                            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-destructive/20 text-destructive text-xs font-medium hover:bg-destructive/30 transition-colors"
+                          >
+                            <ShieldOff className="w-3 h-3" />
+                            Suspended
+                          </button>
+                        ) : card.status === "active" ? (
                           <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-success/20 text-success text-xs font-medium">
                             <CheckCircle className="w-3 h-3" />
                             Active
                           </span>
                         ) : (
-                          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-warning/20 text-warning text-xs font-medium">
+                          <button
+                            onClick={() => handleActivateCard(card.id)}
+                            title="Activate card"
+                            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-warning/20 text-warning text-xs font-medium hover:bg-warning/30 transition-colors"
+                          >
                             <AlertCircle className="w-3 h-3" />
                             Pending
-                          </span>
+                          </button>
                         )}
                       </div>
                       <p className="text-sm text-muted-foreground">
                         {card.cardType} • Linked {card.linkedAt}
                       </p>
                     </div>
+                    {personas.length > 0 && (
+                      <select
+                        value={card.personaId || ""}
+                        onChange={(e) => handleRouteCard(card.id, e.target.value)}
+                        title="Profile this card opens"
+                        className="max-w-[140px] px-3 py-2 rounded-lg bg-muted border border-border focus:border-primary focus:outline-none text-sm text-foreground"
+                      >
+                        <option value="">Main Profile</option>
+                        {personas.map(persona => (
+                          <option key={persona.id} value={persona.id}>{persona.label}</option>
+                        ))}
+                      </select>
+                    )}
                     <div className="flex items-center gap-2">
                       <a
                         href={`https://${card.cardUrl}`}
@@ -256,12 +326,23 @@ const CardLink = () => {
                       >
                         <ExternalLink className="w-5 h-5" />
                       </a>
-                      <button
-                        onClick={() => handleUnlinkCard(card.id)}
-                        className="p-2 rounded-lg hover:bg-destructive/10 transition-colors text-muted-foreground hover:text-destructive"
-                      >
-                        <Trash2 className="w-5 h-5" />
-                      </button>
+                      {card.status !== "suspended" && (
+                        <>
+                          <button
+                            onClick={() => setLostCard(card)}
+                            title="Report lost or stolen"
+                            className="p-2 rounded-lg hover:bg-warning/10 transition-colors text-muted-foreground hover:text-warning"
+                          >
+                            <ShieldOff className="w-5 h-5" />
+                          </button>
+                          <button
+                            onClick={() => setCardToUnlink(card)}
+                            className="p-2 rounded-lg hover:bg-destructive/10 transition-colors text-muted-foreground hover:text-destructive"
+                          >
+                            <Trash2 className="w-5 h-5" />
+                          </button>
+                        </>
+                      )}
                     </div>
                   </div>
                 </GlassCard>
@@ -306,6 +387,23 @@ const CardLink = () => {
           </li>
         </ul>
       </GlassCard>
+      <ReportLostCardDialog
+        card={lostCard}
+        onClose={() => setLostCard(null)}
+        onReported={(id) => setLinkedCards(cards => cards.map(c => c.id === id ? { ...c, status: "suspended" } : c))}
+      />
+      <ConfirmDialog
+        isOpen={!!cardToUnlink}
+        onClose={() => setCardToUnlink(null)}
+        onConfirm={handleUnlinkCard}
+        title="Unlink this card?"
+        description={cardToUnlink?.orderId
+          ? "Taps stop opening your profile until you link the card again."
+          : "Taps stop opening your profile. The claim code has been used, so only this account can link the card again; anyone else will need support to get a new code."}
+        confirmText="Unlink Card"
+        type="danger"
+        loading={unlinking}
+      />
       <ErrorAlert
         isOpen={errorAlert.isOpen}
         onClose={() => setErrorAlert({ ...errorAlert, isOpen: false })}
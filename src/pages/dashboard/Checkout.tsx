@@ -34,6 +34,8 @@ const Checkout = () => {
     // Read plan from URL
     const searchParams = new URLSearchParams(window.location.search);
     const planId = searchParams.get("plan");
+    // Set when re-ordering a card reported lost (replacement plan)
+    const replacesCardId = searchParams.get("replaces") || undefined;
 
     const [shippingDetails, setShippingDetails] = useState<ShippingDetails>({
         fullName: currentUser?.displayName || "",
@@ -174,6 +176,7 @@ const Checkout = () => {
 
             const orderResponse: any = await createPurchase({
                 planId: selectedPlan?.id || "unknown",
+                replacesCardId,
                 shippingDetails,
                 customization: location.state?.customizationData || {},
                 formSnapshot: location.state?.formFields || []
@@ -202,6 +205,7 @@ const Checkout = () => {
                             razorpaySignature: response.razorpay_signature,
                             // Deferred Payload
                             planId: selectedPlan?.id || "unknown",
+                            replacesCardId,
                             shippingDetails,
                             customization: location.state?.customizationData || {},
                             formSnapshot: location.state?.formFields || []
@@ -284,6 +288,18 @@ const Checkout = () => {
                         </div>
                     )}
 
+                    {replacesCardId && (
+                        <div className="p-4 rounded-xl bg-primary/10 border border-primary/20 flex gap-4">
+                            <ShieldCheck className="w-6 h-6 text-primary flex-shrink-0" />
+                            <div>
+                                <h3 className="font-bold text-primary mb-1">Replacement Card</h3>
+                                <p className="text-sm text-muted-foreground">
+                                    Replacing lost card <span className="font-mono">{replacesCardId}</span>, which stays suspended.
+                                </p>
+                            </div>
+                        </div>
+                    )}
+
                     {/* Shipping Form */}
                     <div className="space-y-6">
                         <div className="flex items-center gap-2 text-xl font-bold text-foreground">
@@ -1,12 +1,13 @@
-import { useState, useMemo, useEffect } from "react";
+import { useState, useMemo, useEffect, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { formatDistanceToNow } from "date-fns";
 import { GlassCard } from "@/components/ui/GlassCard";
 import { GradientText } from "@/components/ui/GradientText";
 import { NeonButton } from "@/components/ui/NeonButton";
-import { Link } from "react-router-dom"; // Added for profile linking
+import { Link, useSearchParams } from "react-router-dom"; // Added for profile linking
 import {
   Users, Search, Download, Mail, Phone, MapPin, Calendar,
-  MoreVertical, Eye, Trash2, X, Building, Globe, ExternalLink
+  MoreVertical, Eye, Trash2, X, Building, Globe, ExternalLink, Filter, List, Columns3, Bell, Upload, Contact as ContactIcon, Copy, Share2
 } from "lucide-react";
 import { toast } from "sonner";
 import {
@@ -21,20 +22,22 @@ import { db } from "@/lib/firebase";
 import { useAuth } from "@/contexts/AuthContext";
 import { useSubscriptionLimits } from "@/hooks/useSubscriptionLimits";
 import { UpgradeModal } from "@/components/dashboard/UpgradeModal";
-import { usageService } from "@/services/usageService";
 import { ErrorAlert } from "@/components/ui/ErrorAlert";
+import { NeonBadge } from "@/components/ui/NeonBadge";
+import { LeadAnswer } from "@/services/leadService";
+import { contactService, Contact, PipelineStage, PIPELINE_STAGES } from "@/services/contactService";
+import { ContactCrmPanel } from "@/components/dashboard/ContactCrmPanel";
+import { ContactPipelineBoard } from "@/components/dashboard/ContactPipelineBoard";
+import { connectorService, Connector } from "@/services/connectorService";
+import { DuplicateContactsDialog } from "@/components/dashboard/DuplicateContactsDialog";
+import { findDuplicateGroups } from "@/lib/contactMatching";
+import { buildVCards, downloadVCard, vcardFileName, parseVCards, parseContactsCsv } from "@/lib/vcard";
 
-interface Contact {
-  id: string;
-  name: string;
-  email: string;
-  phone: string;
-  company: string;
-  location: string;
-  source: string;
-  savedAt: Date;
-  notes?: string;
-  originalProfileId?: string; // Link back to public profile
+interface LeadQuestion {
+  fieldId: string;
+  label: string;
+  type: LeadAnswer["type"];
+  values: string[]; // Distinct answers given, for choice questions
 }
 
 import { useDashboard } from "@/contexts/DashboardContext";
@@ -47,39 +50,86 @@ const ContactsManager = () => {
 
   // Transform context data to Contact interface
   const contacts = useMemo(() => {
-    return contextContacts.map(data => ({
-      id: data.id,
-      name: data.name || "Unknown Contact",
-      email: data.email || "",
-      phone: data.phone || "",
-      company: data.company || "",
-      location: data.location || "",
-      source: data.source || "web",
-      savedAt: data.savedAt?.toDate ? data.savedAt.toDate() : new Date(),
-      notes: data.notes || "",
-      originalProfileId: data.originalProfileId || ""
-    })) as Contact[];
+    return contextContacts.map(contactService.toContact);
   }, [contextContacts]);
 
   const [searchQuery, setSearchQuery] = useState("");
-  const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [view, setView] = useState<"list" | "board">("list");
+  // Tracked by id so the modal follows live updates from the contacts listener (?c= opens one directly)
+  const selectedContact = contacts.find(c => c.id === searchParams.get("c")) || null;
+  const setSelectedContact = (contact: Contact | null) => {
+    setSearchParams(params => {
+      if (contact) params.set("c", contact.id);
+      else params.delete("c");
+      return params;
+    }, { replace: true });
+  };
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [errorAlert, setErrorAlert] = useState({ isOpen: false, message: "" });
+  const [showUpgradeModal, setShowUpgradeModal] = useState(false);
+  const [showExportLimit, setShowExportLimit] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [connectors, setConnectors] = useState<Connector[]>([]);
+  const [pushing, setPushing] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { maxContacts, maxExports, usage, isFinite } = useSubscriptionLimits();
+
+  useEffect(() => {
+    if (!currentUser) return;
+    connectorService.getConnectors(currentUser.uid)
+      .then(all => setConnectors(all.filter(c => c.enabled)))
+      .catch(err => console.error("Error loading connectors:", err));
+  }, [currentUser]);
 
   const isProfilePublic = true;
 
 
+  const duplicateGroups = useMemo(() => findDuplicateGroups(contacts), [contacts]);
+
+  const [questionFilter, setQuestionFilter] = useState({ fieldId: "", value: "" });
+
+  // Every lead form question that has been answered, labelled as most recently asked
+  const questions = useMemo(() => {
+    const byId = new Map<string, LeadQuestion>();
+    [...contacts].sort((a, b) => a.savedAt.getTime() - b.savedAt.getTime()).forEach(contact => {
+      contact.answers?.forEach(answer => {
+        const question = byId.get(answer.fieldId) || { fieldId: answer.fieldId, label: answer.label, type: answer.type, values: [] };
+        question.label = answer.label;
+        if (!question.values.includes(answer.value)) question.values.push(answer.value);
+        byId.set(answer.fieldId, question);
+      });
+    });
+    return Array.from(byId.values());
+  }, [contacts]);
+
+  const selectedQuestion = questions.find(q => q.fieldId === questionFilter.fieldId);
+  const isChoiceQuestion = selectedQuestion?.type === "radio" || selectedQuestion?.type === "mcq";
+
+  const getAnswer = (contact: Contact, fieldId: string) =>
+    contact.answers?.find(a => a.fieldId === fieldId)?.value || "";
+
   const filteredContacts = useMemo(() => {
-    if (!searchQuery) return contacts;
     const query = searchQuery.toLowerCase();
+    const answerQuery = questionFilter.value.toLowerCase();
     return contacts.filter(
       (contact) =>
-        contact.name.toLowerCase().includes(query) ||
-        contact.email.toLowerCase().includes(query) ||
-        contact.company.toLowerCase().includes(query) ||
-        contact.location.toLowerCase().includes(query)
+        (!query ||
+          contact.name.toLowerCase().includes(query) ||
+          contact.email.toLowerCase().includes(query) ||
+          contact.company.toLowerCase().includes(query) ||
+          contact.location.toLowerCase().includes(query) ||
+          contact.tags.some(tag => tag.toLowerCase().includes(query))) &&
+        // Per-question filter: answered at all, or answer matches / contains the value
+        (!questionFilter.fieldId || (() => {
+          const answer = getAnswer(contact, questionFilter.fieldId);
+          if (!answer) return false;
+          if (!answerQuery) return true;
+          return isChoiceQuestion ? answer.toLowerCase() === answerQuery : answer.toLowerCase().includes(answerQuery);
+        })())
     );
-  }, [contacts, searchQuery]);
+  }, [contacts, searchQuery, questionFilter, isChoiceQuestion]);
 
   const toggleSelect = (id: string) => {
     const newSelected = new Set(selectedIds);
@@ -111,6 +161,16 @@ const ContactsManager = () => {
     }
   };
 
+  const moveContact = async (contact: Contact, stage: PipelineStage) => {
+    if (!currentUser) return;
+    try {
+      await contactService.setStage(currentUser.uid, contact.id, stage);
+    } catch (error) {
+      console.error("Error moving contact:", error);
+      setErrorAlert({ isOpen: true, message: "Failed to move contact" });
+    }
+  };
+
   const deleteSelected = async () => {
     if (!currentUser) return;
     try {
@@ -128,7 +188,9 @@ const ContactsManager = () => {
   };
 
   const exportToCSV = (contactsToExport: Contact[]) => {
-    const headers = ["Contact", "Email", "Date", "Phone", "Company", "Location"];
+    // One column per lead form question answered by any exported contact
+    const exportQuestions = questions.filter(q => contactsToExport.some(c => getAnswer(c, q.fieldId)));
+    const headers = ["Contact", "Email", "Date", "Phone", "Company", "Location", "Stage", "Tags", "Follow Up", ...exportQuestions.map(q => q.label)];
     const rows = contactsToExport.map((contact) => [
       contact.name,
       contact.email,
@@ -136,10 +198,14 @@ const ContactsManager = () => {
       isProfilePublic ? contact.phone : "",
       contact.company,
       contact.location,
+      PIPELINE_STAGES.find(stage => stage.id === contact.stage)?.label || "",
+      contact.tags.join("; "),
+      contact.followUpAt ? contact.followUpAt.toLocaleDateString() : "",
+      ...exportQuestions.map(q => getAnswer(contact, q.fieldId)),
     ]);
 
     const csvContent = [headers, ...rows]
-      .map((row) => row.map((cell) => `"${cell}"`).join(","))
+      .map((row) => row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(","))
       .join("\n");
 
     const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
@@ -165,6 +231,78 @@ const ContactsManager = () => {
     exportToCSV(filteredContacts);
   };
 
+  // Sent by the pushContactsToCrm function; counts as one export
+  const pushToCrm = async (connector: Connector, contactsToPush: Contact[]) => {
+    if (contactsToPush.length === 0) return;
+    if (isFinite.exports && usage.exportsCount >= maxExports) {
+      setShowExportLimit(true);
+      return;
+    }
+    setPushing(true);
+    try {
+      const { pushed, failed } = await connectorService.pushContacts(connector.id, contactsToPush.map(c => c.id));
+      if (failed === 0) toast.success(`Pushed ${pushed} contact${pushed === 1 ? "" : "s"} to ${connector.name}`);
+      else toast.error(`Pushed ${pushed}, ${failed} failed. See the connector's log in Settings.`);
+    } catch (error) {
+      if ((error as { code?: string }).code === "functions/resource-exhausted") setShowExportLimit(true);
+      else setErrorAlert({ isOpen: true, message: `Failed to push contacts to ${connector.name}` });
+    } finally {
+      setPushing(false);
+    }
+  };
+
+  // One multi-card .vcf (vCard 4.0)
+  const exportToVCard = (contactsToExport: Contact[]) => {
+    if (contactsToExport.length === 0) return;
+    const fileName = contactsToExport.length === 1
+      ? vcardFileName(contactsToExport[0].name)
+      : `contacts-${new Date().toISOString().split("T")[0]}.vcf`;
+    downloadVCard(buildVCards(contactsToExport.map(contactService.toVCard)), fileName);
+    toast.success(`Exported ${contactsToExport.length} contact${contactsToExport.length === 1 ? "" : "s"} to vCard`);
+  };
+
+  // .vcf or CSV (e.g. LinkedIn Connections.csv); skips duplicates and stops at the plan's contact limit
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !currentUser) return;
+
+    setImporting(true);
+    try {
+      const text = await file.text();
+      const isCsv = file.name.toLowerCase().endsWith(".csv") || file.type === "text/csv";
+      const cards = isCsv ? parseContactsCsv(text) : parseVCards(text);
+      if (cards.length === 0) {
+        setErrorAlert({ isOpen: true, message: "No contacts found in that file. Use a .vcf file or a CSV with a name or email column." });
+        return;
+      }
+
+      const { fresh, duplicates } = contactService.dedupeImports(cards, contacts);
+      const remaining = isFinite.contacts ? Math.max(0, maxContacts - usage.contactsCount) : fresh.length;
+      if (fresh.length > 0 && remaining === 0) {
+        setShowUpgradeModal(true);
+        return;
+      }
+
+      const toImport = fresh.slice(0, remaining);
+      if (toImport.length > 0) {
+        await contactService.importContacts(currentUser.uid, toImport);
+      }
+
+      const skipped = [
+        duplicates > 0 ? `${duplicates} duplicate${duplicates === 1 ? "" : "s"} skipped` : "",
+        fresh.length > toImport.length ? `${fresh.length - toImport.length} over your plan limit` : ""
+      ].filter(Boolean).join(", ");
+      toast.success(`Imported ${toImport.length} contact${toImport.length === 1 ? "" : "s"}${skipped ? ` (${skipped})` : ""}`);
+      if (fresh.length > toImport.length) setShowUpgradeModal(true);
+    } catch (error) {
+      console.error("Error importing contacts:", error);
+      setErrorAlert({ isOpen: true, message: "Failed to import contacts" });
+    } finally {
+      setImporting(false);
+    }
+  };
+
   return (
     <div className="space-y-8">
       {/* Header */}
@@ -182,12 +320,50 @@ const ContactsManager = () => {
                 <Download className="w-4 h-4 mr-2" />
                 Export ({selectedIds.size})
               </NeonButton>
+              <NeonButton variant="outline" onClick={() => exportToVCard(contacts.filter((c) => selectedIds.has(c.id)))} size="sm">
+                <ContactIcon className="w-4 h-4 mr-2" />
+                vCard ({selectedIds.size})
+              </NeonButton>
+              {connectors.length > 0 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <NeonButton variant="outline" size="sm" disabled={pushing}>
+                      <Share2 className="w-4 h-4 mr-2" />
+                      {pushing ? "Pushing..." : `CRM (${selectedIds.size})`}
+                    </NeonButton>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {connectors.map(connector => (
+                      <DropdownMenuItem key={connector.id} onClick={() => pushToCrm(connector, contacts.filter((c) => selectedIds.has(c.id)))}>
+                        Push to {connector.name}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
               <NeonButton variant="outline" onClick={deleteSelected} className="text-destructive border-destructive hover:bg-destructive/10" size="sm">
                 <Trash2 className="w-4 h-4 mr-2" />
                 Delete
               </NeonButton>
             </>
           )}
+          {duplicateGroups.length > 0 && (
+            <NeonButton variant="outline" onClick={() => setShowDuplicates(true)} size="sm">
+              <Copy className="w-4 h-4 mr-2" />
+              Duplicates ({duplicateGroups.length})
+            </NeonButton>
+          )}
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".vcf,.vcard,.csv,text/vcard,text/csv"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <NeonButton variant="outline" onClick={() => importInputRef.current?.click()} size="sm" disabled={importing}>
+            <Upload className="w-4 h-4 mr-2" />
+            {importing ? "Importing..." : "Import"}
+          </NeonButton>
           <NeonButton onClick={exportAll} size="sm" className="w-full sm:w-auto">
             <Download className="w-4 h-4 mr-2" />
             Export All CSV
@@ -226,139 +402,237 @@ const ContactsManager = () => {
 
       {/* Search & Filter */}
       <GlassCard className="p-4">
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
-          <input
-            type="text"
-            placeholder="Search contacts by name, email, company..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            autoComplete="off"
-            className="w-full pl-10 pr-4 py-2.5 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none text-foreground"
-          />
+        <div className="flex gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+            <input
+              type="text"
+              placeholder="Search contacts by name, email, company, tag..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              autoComplete="off"
+              className="w-full pl-10 pr-4 py-2.5 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none text-foreground"
+            />
+          </div>
+          <div className="flex rounded-xl bg-muted/50 border border-border p-1">
+            {([
+              { id: "list", label: "List", icon: List },
+              { id: "board", label: "Pipeline", icon: Columns3 },
+            ] as const).map(option => (
+              <button
+                key={option.id}
+                onClick={() => setView(option.id)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${view === option.id ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground"}`}
+                title={option.label}
+              >
+                <option.icon className="w-4 h-4" />
+                <span className="hidden sm:inline">{option.label}</span>
+              </button>
+            ))}
+          </div>
         </div>
+
+        {/* Filter by lead form answers */}
+        {questions.length > 0 && (
+          <div className="flex flex-col sm:flex-row gap-3 mt-3">
+            <div className="relative sm:w-1/2">
+              <Filter className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <select
+                value={questionFilter.fieldId}
+                onChange={(e) => setQuestionFilter({ fieldId: e.target.value, value: "" })}
+                className="w-full pl-9 pr-4 py-2.5 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none text-foreground"
+              >
+                <option value="">All answers</option>
+                {questions.map(q => (
+                  <option key={q.fieldId} value={q.fieldId}>{q.label}</option>
+                ))}
+              </select>
+            </div>
+            {selectedQuestion && selectedQuestion.type !== "image" && (
+              isChoiceQuestion ? (
+                <select
+                  value={questionFilter.value}
+                  onChange={(e) => setQuestionFilter({ ...questionFilter, value: e.target.value })}
+                  className="sm:w-1/2 px-4 py-2.5 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none text-foreground"
+                >
+                  <option value="">Any answer</option>
+                  {selectedQuestion.values.map(value => (
+                    <option key={value} value={value}>{value}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  placeholder="Answer contains..."
+                  value={questionFilter.value}
+                  onChange={(e) => setQuestionFilter({ ...questionFilter, value: e.target.value })}
+                  className="sm:w-1/2 px-4 py-2.5 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none text-foreground"
+                />
+              )
+            )}
+          </div>
+        )}
       </GlassCard>
 
+      {/* Pipeline Board */}
+      {view === "board" && (
+        <ContactPipelineBoard contacts={filteredContacts} onOpen={setSelectedContact} onMove={moveContact} />
+      )}
+
       {/* Contacts Table */}
-      <GlassCard className="overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="w-full">
-            <thead>
-              <tr className="border-b border-border bg-muted/50">
-                <th className="p-4 w-12">
-                  <input
-                    type="checkbox"
-                    checked={selectedIds.size === filteredContacts.length && filteredContacts.length > 0}
-                    onChange={selectAll}
-                    className="w-4 h-4 rounded border-border bg-muted accent-primary"
-                  />
-                </th>
-                <th className="text-left p-4 font-semibold text-foreground">Contact</th>
-                <th className="text-left p-4 font-semibold text-foreground hidden md:table-cell">Email</th>
-                <th className="text-left p-4 font-semibold text-foreground hidden md:table-cell">Phone</th>
-                <th className="text-left p-4 font-semibold text-foreground hidden lg:table-cell">Company</th>
-                <th className="text-left p-4 font-semibold text-foreground hidden xl:table-cell">Location</th>
-                <th className="text-left p-4 font-semibold text-foreground">Saved Date</th>
-                <th className="p-4 w-12"></th>
-              </tr>
-            </thead>
-            <tbody>
-              {filteredContacts.map((contact, index) => (
-                <motion.tr
-                  key={contact.id}
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: index * 0.02 }}
-                  className="border-b border-border/50 hover:bg-muted/30 transition-colors"
-                >
-                  <td className="p-4">
+      {view === "list" && (
+        <GlassCard className="overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border bg-muted/50">
+                  <th className="p-4 w-12">
                     <input
                       type="checkbox"
-                      checked={selectedIds.has(contact.id)}
-                      onChange={() => toggleSelect(contact.id)}
+                      checked={selectedIds.size === filteredContacts.length && filteredContacts.length > 0}
+                      onChange={selectAll}
                       className="w-4 h-4 rounded border-border bg-muted accent-primary"
                     />
-                  </td>
-                  <td className="p-4">
-                    <div>
-                      {contact.originalProfileId ? (
-                        <Link to={`/u/${contact.originalProfileId}`} className="font-medium text-foreground hover:text-primary transition-colors hover:underline">
-                          {contact.name}
-                        </Link>
-                      ) : (
-                        <p className="font-medium text-foreground">{contact.name}</p>
-                      )}
-                      {/* Mobile only fallback for email */}
-                      <p className="text-sm text-muted-foreground md:hidden">{contact.email}</p>
-                    </div>
-                  </td>
-                  <td className="p-4 hidden md:table-cell">
-                    <span className="text-muted-foreground text-sm">{contact.email}</span>
-                  </td>
-                  <td className="p-4 hidden md:table-cell">
-                    <span className="text-muted-foreground text-sm">{contact.phone}</span>
-                  </td>
-                  <td className="p-4 hidden lg:table-cell">
-                    <span className="text-foreground">{contact.company}</span>
-                  </td>
-                  <td className="p-4 hidden xl:table-cell">
-                    {contact.location && (
-                      <div className="flex items-center gap-2 text-muted-foreground">
-                        <MapPin className="w-4 h-4" />
-                        <span>{contact.location}</span>
+                  </th>
+                  <th className="text-left p-4 font-semibold text-foreground">Contact</th>
+                  <th className="text-left p-4 font-semibold text-foreground hidden md:table-cell">Email</th>
+                  <th className="text-left p-4 font-semibold text-foreground hidden md:table-cell">Phone</th>
+                  <th className="text-left p-4 font-semibold text-foreground hidden lg:table-cell">Company</th>
+                  <th className="text-left p-4 font-semibold text-foreground hidden sm:table-cell">Stage</th>
+                  <th className="text-left p-4 font-semibold text-foreground hidden xl:table-cell">Location</th>
+                  <th className="text-left p-4 font-semibold text-foreground">Saved Date</th>
+                  <th className="p-4 w-12"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredContacts.map((contact, index) => (
+                  <motion.tr
+                    key={contact.id}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: index * 0.02 }}
+                    className="border-b border-border/50 hover:bg-muted/30 transition-colors"
+                  >
+                    <td className="p-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(contact.id)}
+                        onChange={() => toggleSelect(contact.id)}
+                        className="w-4 h-4 rounded border-border bg-muted accent-primary"
+                      />
+                    </td>
+                    <td className="p-4">
+                      <div>
+                        {contact.originalProfileId ? (
+                          <Link to={`/u/${contact.originalProfileId}`} className="font-medium text-foreground hover:text-primary transition-colors hover:underline">
+                            {contact.name}
+                          </Link>
+                        ) : (
+                          <p className="font-medium text-foreground">{contact.name}</p>
+                        )}
+                        {(contact.isLead || contact.tags.length > 0 || contactService.isRecentlyUpdated(contact)) && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {contact.isLead && <NeonBadge variant="info" className="px-2 py-0.5">Lead</NeonBadge>}
+                            {contactService.isRecentlyUpdated(contact) && <NeonBadge variant="success" className="px-2 py-0.5">Updated</NeonBadge>}
+                            {contact.tags.map(tag => (
+                              <span key={tag} className="px-2 py-0.5 rounded-full bg-primary/10 text-primary text-xs">{tag}</span>
+                            ))}
+                          </div>
+                        )}
+                        {/* Mobile only fallback for email */}
+                        <p className="text-sm text-muted-foreground md:hidden">{contact.email}</p>
                       </div>
-                    )}
-                  </td>
-                  <td className="p-4">
-                    <span className="text-muted-foreground text-sm">
-                      {contact.savedAt.toLocaleDateString()}
-                    </span>
-                  </td>
-                  <td className="p-4">
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <button className="p-2 rounded-lg hover:bg-muted transition-colors">
-                          <MoreVertical className="w-4 h-4 text-muted-foreground" />
-                        </button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end">
-                        <DropdownMenuItem onClick={() => setSelectedContact(contact)}>
-                          <Eye className="w-4 h-4 mr-2" />
-                          View Details
-                        </DropdownMenuItem>
-                        {contact.originalProfileId && (
-                          <DropdownMenuItem onClick={() => window.open(`/u/${contact.originalProfileId}`, '_blank')}>
-                            <ExternalLink className="w-4 h-4 mr-2" />
-                            Visit Profile
+                    </td>
+                    <td className="p-4 hidden md:table-cell">
+                      <span className="text-muted-foreground text-sm">{contact.email}</span>
+                    </td>
+                    <td className="p-4 hidden md:table-cell">
+                      <span className="text-muted-foreground text-sm">{contact.phone}</span>
+                    </td>
+                    <td className="p-4 hidden lg:table-cell">
+                      <span className="text-foreground">{contact.company}</span>
+                    </td>
+                    <td className="p-4 hidden sm:table-cell">
+                      <div className="flex items-center gap-2 text-sm text-foreground">
+                        <span className={`w-2 h-2 rounded-full ${PIPELINE_STAGES.find(stage => stage.id === contact.stage)?.color}`} />
+                        {PIPELINE_STAGES.find(stage => stage.id === contact.stage)?.label}
+                      </div>
+                      {contact.followUpAt && (
+                        <div className={`flex items-center gap-1 text-xs mt-1 ${contactService.isOverdue(contact) ? "text-destructive" : "text-muted-foreground"}`}>
+                          <Bell className="w-3 h-3" />
+                          {contact.followUpAt.toLocaleDateString()}
+                        </div>
+                      )}
+                    </td>
+                    <td className="p-4 hidden xl:table-cell">
+                      {contact.location && (
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                          <MapPin className="w-4 h-4" />
+                          <span>{contact.location}</span>
+                        </div>
+                      )}
+                    </td>
+                    <td className="p-4">
+                      <span className="text-muted-foreground text-sm">
+                        {contact.savedAt.toLocaleDateString()}
+                      </span>
+                    </td>
+                    <td className="p-4">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <button className="p-2 rounded-lg hover:bg-muted transition-colors">
+                            <MoreVertical className="w-4 h-4 text-muted-foreground" />
+                          </button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => setSelectedContact(contact)}>
+                            <Eye className="w-4 h-4 mr-2" />
+                            View Details
                           </DropdownMenuItem>
-                        )}
-                        <DropdownMenuItem onClick={() => exportToCSV([contact])}>
-                          <Download className="w-4 h-4 mr-2" />
-                          Export
-                        </DropdownMenuItem>
-                        <DropdownMenuItem
-                          onClick={() => deleteSingle(contact.id)}
-                          className="text-destructive"
-                        >
-                          <Trash2 className="w-4 h-4 mr-2" />
-                          Delete
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                  </td>
-                </motion.tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-
-        {filteredContacts.length === 0 && (
-          <div className="p-12 text-center">
-            <Users className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-            <p className="text-muted-foreground">No contacts found</p>
+                          {contact.originalProfileId && (
+                            <DropdownMenuItem onClick={() => window.open(`/u/${contact.originalProfileId}`, '_blank')}>
+                              <ExternalLink className="w-4 h-4 mr-2" />
+                              Visit Profile
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuItem onClick={() => exportToCSV([contact])}>
+                            <Download className="w-4 h-4 mr-2" />
+                            Export
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => exportToVCard([contact])}>
+                            <ContactIcon className="w-4 h-4 mr-2" />
+                            Export vCard
+                          </DropdownMenuItem>
+                          {connectors.map(connector => (
+                            <DropdownMenuItem key={connector.id} onClick={() => pushToCrm(connector, [contact])} disabled={pushing}>
+                              <Share2 className="w-4 h-4 mr-2" />
+                              Push to {connector.name}
+                            </DropdownMenuItem>
+                          ))}
+                          <DropdownMenuItem
+                            onClick={() => deleteSingle(contact.id)}
+                            className="text-destructive"
+                          >
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </td>
+                  </motion.tr>
+                ))}
+              </tbody>
+            </table>
           </div>
-        )}
-      </GlassCard>
+
+          {filteredContacts.length === 0 && (
+            <div className="p-12 text-center">
+              <Users className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No contacts found</p>
+            </div>
+          )}
+        </GlassCard>
+      )}
 
       {/* Contact Detail Modal */}
       <AnimatePresence>
@@ -375,12 +649,16 @@ const ContactsManager = () => {
               animate={{ scale: 1, opacity: 1 }}
               exit={{ scale: 0.95, opacity: 0 }}
               onClick={(e) => e.stopPropagation()}
-              className="w-full max-w-lg"
+              className="w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-2xl"
             >
               <GlassCard className="p-6" variant="neon">
                 <div className="flex items-start justify-between mb-6">
                   <div>
-                    <h2 className="text-2xl font-bold font-display text-foreground">{selectedContact.name}</h2>
+                    <div className="flex items-center gap-2">
+                      <h2 className="text-2xl font-bold font-display text-foreground">{selectedContact.name}</h2>
+                      {selectedContact.isLead && <NeonBadge variant="info">Lead</NeonBadge>}
+                      {contactService.isRecentlyUpdated(selectedContact) && <NeonBadge variant="success">Updated</NeonBadge>}
+                    </div>
                     <p className="text-muted-foreground">{selectedContact.company}</p>
                   </div>
                   <button
@@ -426,8 +704,42 @@ const ContactsManager = () => {
                       <p className="text-foreground">{selectedContact.notes}</p>
                     </div>
                   )}
+                  {selectedContact.answers?.map(answer => (
+                    <div key={answer.fieldId} className="p-3 rounded-xl bg-muted">
+                      <p className="text-xs text-muted-foreground mb-1">{answer.label}</p>
+                      {answer.type === "image" ? (
+                        <a href={answer.value} target="_blank" rel="noopener noreferrer">
+                          <img src={answer.value} alt={answer.label} className="max-h-40 rounded-lg" />
+                        </a>
+                      ) : (
+                        <p className="text-foreground whitespace-pre-wrap">{answer.value}</p>
+                      )}
+                    </div>
+                  ))}
+                  {selectedContact.profileChanges.length > 0 && (
+                    <div className="p-3 rounded-xl bg-muted">
+                      <p className="text-xs text-muted-foreground mb-2">Profile Updates</p>
+                      <div className="space-y-2">
+                        {[...selectedContact.profileChanges].reverse().map(entry => (
+                          <div key={entry.at.toMillis()}>
+                            <p className="text-xs text-muted-foreground">{formatDistanceToNow(entry.at.toDate(), { addSuffix: true })}</p>
+                            {entry.changes.map(change => (
+                              <p key={change.field} className="text-sm text-foreground break-words">
+                                <span className="capitalize">{change.field === "photoURL" ? "Photo" : change.field}</span>
+                                {change.field === "photoURL" ? " changed" : (
+                                  <>: <span className="text-muted-foreground line-through">{change.from || "empty"}</span> → {change.to}</>
+                                )}
+                              </p>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
 
+                <ContactCrmPanel contact={selectedContact} />
+
                 <div className="flex gap-3 mt-6">
                   <NeonButton className="flex-1" onClick={() => exportToCSV([selectedContact])}>
                     <Download className="w-4 h-4 mr-2" />
@@ -449,6 +761,24 @@ const ContactsManager = () => {
           </motion.div>
         )}
       </AnimatePresence>
+      <DuplicateContactsDialog
+        isOpen={showDuplicates}
+        onClose={() => setShowDuplicates(false)}
+        contacts={contacts}
+        groups={duplicateGroups}
+      />
+      <UpgradeModal
+        isOpen={showUpgradeModal}
+        onClose={() => setShowUpgradeModal(false)}
+        title="Contact Limit Reached"
+        description="Your plan's contact limit doesn't have room for these contacts. Upgrade to import more."
+      />
+      <UpgradeModal
+        isOpen={showExportLimit}
+        onClose={() => setShowExportLimit(false)}
+        title="Export Limit Reached"
+        description="You've used this month's exports. CRM pushes count as exports too. Upgrade to keep sending contacts."
+      />
       <ErrorAlert
         isOpen={errorAlert.isOpen}
         onClose={() => setErrorAlert({ ...errorAlert, isOpen: false })}
@@ -8,15 +8,7 @@ import { db } from "@/lib/firebase";
 import { doc, getDoc } from "firebase/firestore";
 import { storageService } from "@/services/storageService";
 import { useAuth } from "@/contexts/AuthContext";
-
-interface FormField {
-    id: string;
-    label: string;
-    type: 'text' | 'image' | 'textarea' | 'email' | 'phone' | 'radio' | 'mcq';
-    required: boolean;
-    placeholder?: string;
-    options?: string[];
-}
+import { FormField } from "@/services/formService";
 
 export const CustomizeOrder = () => {
     const { planId } = useParams();
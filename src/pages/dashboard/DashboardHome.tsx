@@ -12,6 +12,9 @@ import { collection, query, orderBy, limit, doc, getDoc, onSnapshot } from "fire
 import { db } from "@/lib/firebase";
 
 import { useDashboard } from "@/contexts/DashboardContext";
+import { PersonaFilter } from "@/components/dashboard/PersonaFilter";
+import { ConversionFunnel } from "@/components/dashboard/ConversionFunnel";
+import { DueFollowUps } from "@/components/dashboard/DueFollowUps";
 
 const viewsData = [
   { name: "Mon", views: 0, taps: 0 },
@@ -50,19 +53,22 @@ const DashboardHome = () => {
           </h1>
           <p className="text-muted-foreground mt-1">Here's what's happening with your profile</p>
         </div>
-        <Link
-          to={currentUser ? `/u/${currentUser.uid}` : "#"}
-          target="_blank"
-          className="inline-flex"
-        >
-          <motion.div
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-primary text-primary-foreground font-medium hover:bg-primary/90 transition-colors shadow-lg shadow-primary/20"
+        <div className="flex items-center gap-3">
+          <PersonaFilter />
+          <Link
+            to={currentUser ? `/u/${currentUser.uid}` : "#"}
+            target="_blank"
+            className="inline-flex"
           >
-            View Profile
-          </motion.div>
-        </Link>
+            <motion.div
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl bg-primary text-primary-foreground font-medium hover:bg-primary/90 transition-colors shadow-lg shadow-primary/20"
+            >
+              View Profile
+            </motion.div>
+          </Link>
+        </div>
       </div>
 
       {/* Stats Grid */}
@@ -128,6 +134,8 @@ const DashboardHome = () => {
 
       </div>
 
+      <ConversionFunnel />
+
       <div className="grid lg:grid-cols-3 gap-6">
         {/* Recent Activity */}
         <GlassCard className="lg:col-span-2 p-6">
@@ -169,27 +177,31 @@ const DashboardHome = () => {
           )}
         </GlassCard>
 
-        {/* Quick Actions */}
-        <GlassCard className="p-6">
-          <h2 className="text-xl font-bold font-display text-foreground mb-6">Quick Actions</h2>
-          <div className="space-y-3">
-            {[
-              { label: "Edit Profile", path: "/dashboard/profile", icon: Users },
-              { label: "Download QR", path: "/dashboard/qr-builder", icon: QrCode },
-              { label: "Interaction Log", path: "/dashboard/interactions", icon: Activity },
-              { label: "Manage Contacts", path: "/dashboard/contacts", icon: TrendingUp },
-            ].map((action) => (
-              <Link
-                key={action.path + action.label}
-                to={action.path}
-                className="flex items-center gap-3 p-4 rounded-xl bg-muted/50 hover:bg-muted transition-colors group"
-              >
-                <action.icon className="w-5 h-5 text-primary" />
-                <span className="text-foreground font-medium">{action.label}</span>
-              </Link>
-            ))}
-          </div>
-        </GlassCard>
+        <div className="space-y-6">
+          <DueFollowUps />
+
+          {/* Quick Actions */}
+          <GlassCard className="p-6">
+            <h2 className="text-xl font-bold font-display text-foreground mb-6">Quick Actions</h2>
+            <div className="space-y-3">
+              {[
+                { label: "Edit Profile", path: "/dashboard/profile", icon: Users },
+                { label: "Download QR", path: "/dashboard/qr-builder", icon: QrCode },
+                { label: "Interaction Log", path: "/dashboard/interactions", icon: Activity },
+                { label: "Manage Contacts", path: "/dashboard/contacts", icon: TrendingUp },
+              ].map((action) => (
+                <Link
+                  key={action.path + action.label}
+                  to={action.path}
+                  className="flex items-center gap-3 p-4 rounded-xl bg-muted/50 hover:bg-muted transition-colors group"
+                >
+                  <action.icon className="w-5 h-5 text-primary" />
+                  <span className="text-foreground font-medium">{action.label}</span>
+                </Link>
+              ))}
+            </div>
+          </GlassCard>
+        </div>
       </div>
 
     </div>
@@ -0,0 +1,299 @@
+import { useState, useEffect, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
+import { doc, onSnapshot } from "firebase/firestore";
+import { formatDistanceToNow } from "date-fns";
+import { MessageSquare, Send, Paperclip, X, FileText, Ban, ArrowLeft, CheckCheck } from "lucide-react";
+import { toast } from "sonner";
+import { db } from "@/lib/firebase";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { GradientText } from "@/components/ui/GradientText";
+import { NeonButton } from "@/components/ui/NeonButton";
+import { getFriendlyErrorMessage } from "@/lib/errorUtils";
+import { useAuth } from "@/contexts/AuthContext";
+import { userService } from "@/services/userService";
+import { messagingService, Conversation, Message, MAX_ATTACHMENTS, MAX_MESSAGE_LENGTH, ATTACHMENT_TYPES } from "@/services/messagingService";
+
+const Avatar = ({ name, photoURL }: { name: string; photoURL?: string }) =>
+  photoURL ? (
+    <img src={photoURL} alt="" className="w-10 h-10 rounded-full object-cover shrink-0" />
+  ) : (
+    <div className="w-10 h-10 rounded-full bg-primary/20 flex items-center justify-center text-primary font-bold shrink-0">
+      {(name || "?").charAt(0).toUpperCase()}
+    </div>
+  );
+
+const Inbox = () => {
+  const { currentUser } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [blocked, setBlocked] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const selectedId = searchParams.get("c");
+  const selected = conversations.find(c => c.id === selectedId) || null;
+  const isOwner = selected?.ownerId === currentUser?.uid;
+  const isVisitorBlocked = !!selected && isOwner && (blocked.includes(selected.visitorId) || (!!selected.visitor.email && blocked.includes(selected.visitor.email)));
+
+  // Threads and the owner's block list
+  useEffect(() => {
+    if (!currentUser) return;
+    const unsubscribeConversations = messagingService.listenToConversations(currentUser.uid, (loaded) => {
+      setConversations(loaded);
+      setLoading(false);
+    }, () => setLoading(false));
+    const unsubscribeUser = onSnapshot(doc(db, "users", currentUser.uid), (snap) => {
+      setBlocked(snap.data()?.blocked || []);
+    });
+    return () => {
+      unsubscribeConversations();
+      unsubscribeUser();
+    };
+  }, [currentUser]);
+
+  // Messages of the open thread
+  useEffect(() => {
+    if (!selectedId) {
+      setMessages([]);
+      return;
+    }
+    return messagingService.listenToMessages(selectedId, setMessages);
+  }, [selectedId]);
+
+  // Opening a thread (or new messages arriving in it) marks it read
+  const unreadHere = selected && currentUser ? selected.unread?.[currentUser.uid] || 0 : 0;
+  useEffect(() => {
+    if (!selectedId || !currentUser || unreadHere === 0) return;
+    messagingService.markRead(selectedId, currentUser.uid).catch(() => undefined);
+  }, [selectedId, currentUser, unreadHere]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages.length]);
+
+  const selectConversation = (id: string | null) => {
+    setDraft("");
+    setFiles([]);
+    setSearchParams(id ? { c: id } : {});
+  };
+
+  const handleAttach = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length + picked.length > MAX_ATTACHMENTS) {
+      toast.error(`You can attach up to ${MAX_ATTACHMENTS} files.`);
+      return;
+    }
+    setFiles([...files, ...picked]);
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !currentUser) return;
+    setSending(true);
+    try {
+      await messagingService.sendMessage(selected, currentUser.uid, draft, files);
+      setDraft("");
+      setFiles([]);
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      toast.error(code === "permission-denied" ? "You can't reply to this conversation." : getFriendlyErrorMessage(error));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleBlockToggle = async () => {
+    if (!selected || !currentUser) return;
+    const name = selected.visitor.name;
+    try {
+      if (isVisitorBlocked) {
+        await userService.unblockUser(currentUser.uid, selected.visitorId);
+        if (selected.visitor.email) await userService.unblockUser(currentUser.uid, selected.visitor.email);
+        toast.success(`Unblocked ${name}`);
+      } else {
+        await userService.blockUser(currentUser.uid, selected.visitorId);
+        toast.success(`Blocked ${name} from sending messages`);
+      }
+    } catch (error) {
+      toast.error(getFriendlyErrorMessage(error));
+    }
+  };
+
+  if (loading || !currentUser) return <div className="p-8 text-center">Loading inbox...</div>;
+
+  const lastOwnMessage = [...messages].reverse().find(m => m.senderId === currentUser.uid);
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold font-display text-foreground">
+          <GradientText>Inbox</GradientText>
+        </h1>
+        <p className="text-muted-foreground mt-1">Conversations with people who messaged you, and profiles you've messaged</p>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        {/* Threads */}
+        <GlassCard className={`p-2 lg:block ${selected ? "hidden" : "block"}`}>
+          {conversations.length === 0 ? (
+            <div className="p-10 text-center">
+              <MessageSquare className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">No conversations yet</p>
+            </div>
+          ) : (
+            <div className="space-y-1">
+              {conversations.map(conversation => {
+                const other = messagingService.getCounterpart(conversation, currentUser.uid);
+                const unread = conversation.unread?.[currentUser.uid] || 0;
+                return (
+                  <button
+                    key={conversation.id}
+                    onClick={() => selectConversation(conversation.id)}
+                    className={`w-full flex items-center gap-3 p-3 rounded-xl text-left transition-colors ${conversation.id === selectedId ? "bg-primary/10" : "hover:bg-muted/50"}`}
+                  >
+                    <Avatar name={other.name} photoURL={other.photoURL} />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className={`truncate text-foreground ${unread > 0 ? "font-bold" : "font-medium"}`}>{other.name}</p>
+                        {conversation.updatedAt && (
+                          <span className="text-xs text-muted-foreground shrink-0">
+                            {formatDistanceToNow(conversation.updatedAt.toDate(), { addSuffix: false })}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-sm text-muted-foreground truncate">
+                          {conversation.lastMessage?.senderId === currentUser.uid ? "You: " : ""}
+                          {conversation.lastMessage?.text || "No messages yet"}
+                        </p>
+                        {unread > 0 && (
+                          <span className="min-w-5 h-5 px-1.5 rounded-full bg-primary text-primary-foreground text-xs flex items-center justify-center shrink-0">
+                            {unread}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </GlassCard>
+
+        {/* Thread */}
+        <GlassCard className={`lg:col-span-2 p-0 flex-col h-[70vh] lg:flex ${selected ? "flex" : "hidden"}`}>
+          {!selected ? (
+            <div className="flex-1 flex items-center justify-center text-muted-foreground">Select a conversation</div>
+          ) : (
+            <>
+              <div className="flex items-center gap-3 p-4 border-b border-border">
+                <button onClick={() => selectConversation(null)} className="lg:hidden p-1 text-muted-foreground hover:text-foreground">
+                  <ArrowLeft className="w-5 h-5" />
+                </button>
+                <Avatar name={messagingService.getCounterpart(selected, currentUser.uid).name} photoURL={messagingService.getCounterpart(selected, currentUser.uid).photoURL} />
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-foreground truncate">{messagingService.getCounterpart(selected, currentUser.uid).name}</p>
+                  {isOwner && selected.visitor.email && <p className="text-xs text-muted-foreground truncate">{selected.visitor.email}</p>}
+                </div>
+                {isOwner && (
+                  <NeonButton size="sm" variant="outline" onClick={handleBlockToggle}>
+                    <Ban className="w-4 h-4 mr-2" /> {isVisitorBlocked ? "Unblock" : "Block"}
+                  </NeonButton>
+                )}
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                {messages.map(message => {
+                  const mine = message.senderId === currentUser.uid;
+                  return (
+                    <div key={message.id} className={`flex flex-col ${mine ? "items-end" : "items-start"}`}>
+                      <div className={`max-w-[80%] rounded-2xl px-4 py-2 ${mine ? "bg-primary text-primary-foreground" : "bg-muted text-foreground"}`}>
+                        {message.text && <p className="whitespace-pre-wrap break-words">{message.text}</p>}
+                        {message.attachments?.map(attachment => (
+                          attachment.contentType.startsWith("image/") ? (
+                            <a key={attachment.url} href={attachment.url} target="_blank" rel="noopener noreferrer">
+                              <img src={attachment.url} alt={attachment.name} className="mt-2 rounded-lg max-h-60 object-contain" />
+                            </a>
+                          ) : (
+                            <a
+                              key={attachment.url}
+                              href={attachment.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="mt-2 flex items-center gap-2 text-sm underline"
+                            >
+                              <FileText className="w-4 h-4" /> {attachment.name}
+                            </a>
+                          )
+                        ))}
+                      </div>
+                      <span className="text-[11px] text-muted-foreground mt-1 flex items-center gap-1">
+                        {message.createdAt ? formatDistanceToNow(message.createdAt.toDate(), { addSuffix: true }) : "Sending..."}
+                        {mine && message.id === lastOwnMessage?.id && messagingService.isSeen(selected, message) && (
+                          <><CheckCheck className="w-3 h-3 text-primary" /> Seen</>
+                        )}
+                      </span>
+                    </div>
+                  );
+                })}
+                <div ref={bottomRef} />
+              </div>
+
+              {isVisitorBlocked ? (
+                <p className="p-4 border-t border-border text-sm text-muted-foreground text-center">
+                  You blocked this person. Unblock them to continue the conversation.
+                </p>
+              ) : (
+                <form onSubmit={handleSend} className="p-4 border-t border-border space-y-2">
+                  {files.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {files.map((file, index) => (
+                        <span key={index} className="flex items-center gap-1 px-2 py-1 rounded-lg bg-muted text-xs text-foreground">
+                          <Paperclip className="w-3 h-3" /> {file.name}
+                          <button type="button" onClick={() => setFiles(files.filter((_, i) => i !== index))} className="text-muted-foreground hover:text-destructive">
+                            <X className="w-3 h-3" />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex items-end gap-2">
+                    <label className="p-3 rounded-xl bg-muted border border-border text-muted-foreground hover:text-primary cursor-pointer" title="Attach files">
+                      <Paperclip className="w-5 h-5" />
+                      <input type="file" multiple accept={ATTACHMENT_TYPES} className="hidden" onChange={handleAttach} />
+                    </label>
+                    <textarea
+                      rows={1}
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" && !e.shiftKey) {
+                          e.preventDefault();
+                          handleSend(e);
+                        }
+                      }}
+                      maxLength={MAX_MESSAGE_LENGTH}
+                      placeholder="Write a reply..."
+                      className="flex-1 px-4 py-3 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none text-foreground resize-none"
+                    />
+                    <NeonButton type="submit" disabled={sending || (!draft.trim() && files.length === 0)}>
+                      <Send className="w-4 h-4" />
+                    </NeonButton>
+                  </div>
+                </form>
+              )}
+            </>
+          )}
+        </GlassCard>
+      </div>
+    </div>
+  );
+};
+
+export default Inbox;
@@ -1,5 +1,6 @@
 import { useState, useMemo, useEffect } from "react";
 import { useDashboard } from "@/contexts/DashboardContext";
+import { PersonaFilter } from "@/components/dashboard/PersonaFilter";
 import { motion } from "framer-motion";
 import { GlassCard } from "@/components/ui/GlassCard";
 import { GradientText } from "@/components/ui/GradientText";
@@ -8,8 +9,9 @@ import {
   Eye, MousePointer, Users, Download,
   Search, Filter, ChevronDown, Calendar,
   ArrowUpDown, ChevronLeft, ChevronRight, MessageSquare,
-  User, Phone, Mail
+  User, Phone, Mail, Smartphone, Globe, Link2
 } from "lucide-react";
+import { BreakdownChart } from "@/components/dashboard/BreakdownChart";
 import { toast } from "sonner";
 import { ErrorAlert } from "@/components/ui/ErrorAlert";
 import {
@@ -19,9 +21,10 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { collection, query, orderBy, onSnapshot } from "firebase/firestore";
+import { collection, query, orderBy, onSnapshot, where, Timestamp, DocumentData } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { useAuth } from "@/contexts/AuthContext";
+import { DEFAULT_PERSONA_ID } from "@/services/personaService";
 
 type InteractionType = "view" | "tap" | "contact_saved" | "link_click" | "message";
 
@@ -32,8 +35,17 @@ interface Interaction {
   name: string;
   email: string;
   phone: string;
+  device: string;
+  os: string;
+  browser: string;
+  location: string;
+  country: string;
+  source: string; // UTM source, else referring site, else how it arrived
+  campaign: string;
 }
 
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
 const typeLabels: Record<string, { label: string; icon: typeof Eye; color: string }> = {
   view: { label: "Profile View", icon: Eye, color: "text-primary" },
   tap: { label: "NFC Tap", icon: MousePointer, color: "text-accent" },
@@ -46,24 +58,60 @@ const typeLabels: Record<string, { label: string; icon: typeof Eye; color: strin
 
 const InteractionLog = () => {
   const { currentUser } = useAuth();
-  const { interactions: rawInteractions, loading } = useDashboard();
+  const { activePersonaId } = useDashboard();
+  const [rawInteractions, setRawInteractions] = useState<DocumentData[]>([]);
+  const [loading, setLoading] = useState(true);
   const [errorAlert, setErrorAlert] = useState({ isOpen: false, message: "" });
+  const [dateFilter, setDateFilter] = useState<string>("30");
 
-  // Transform context interactions to local interface
+  // Only the selected period is loaded, so the log stays fast for busy profiles
+  useEffect(() => {
+    if (!currentUser) return;
+    setLoading(true);
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - parseInt(dateFilter));
+
+    const q = query(
+      collection(db, "users", currentUser.uid, "interactions"),
+      where("timestamp", ">=", Timestamp.fromDate(cutoffDate)),
+      orderBy("timestamp", "desc")
+    );
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setRawInteractions(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })));
+      setLoading(false);
+    }, (error) => {
+      console.error("Error listening to interactions:", error);
+      setLoading(false);
+    });
+    return () => unsubscribe();
+  }, [currentUser, dateFilter]);
+
+  // Transform interactions to local interface (without a personaId they belong to the main profile)
   const interactions = useMemo(() => {
-    return (rawInteractions || []).map(data => ({
+    return rawInteractions
+      .filter(data => activePersonaId === "all" || (data.personaId || DEFAULT_PERSONA_ID) === activePersonaId)
+      .map(data => ({
       id: data.id,
       type: data.type || "view",
       timestamp: data.timestamp?.toDate ? data.timestamp.toDate() : new Date(),
       name: data.metadata?.name || data.name || "Anonymous",
       email: data.metadata?.email || data.email || "-",
       phone: data.metadata?.phone || data.phone || "-",
+      device: data.metadata?.device ? capitalize(data.metadata.device) : "Unknown",
+      os: data.metadata?.os || "Unknown",
+      browser: data.metadata?.browser || "Unknown",
+      location: data.metadata?.location || "Unknown",
+      country: data.metadata?.country || "Unknown",
+      source: data.metadata?.utm?.source || data.metadata?.referrer || (data.type === "tap" ? "NFC Card" : "Direct"),
+      campaign: data.metadata?.utm?.campaign || "None",
     })) as Interaction[];
-  }, [rawInteractions]);
+  }, [rawInteractions, activePersonaId]);
 
   const [searchQuery, setSearchQuery] = useState("");
   const [typeFilter, setTypeFilter] = useState<string>("all");
-  const [dateFilter, setDateFilter] = useState<string>("30");
+  const [deviceFilter, setDeviceFilter] = useState<string>("all");
+  const [countryFilter, setCountryFilter] = useState<string>("all");
+  const [sourceFilter, setSourceFilter] = useState<string>("all");
   const [sortField, setSortField] = useState<"timestamp" | "name" | "type">("timestamp");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
   const [currentPage, setCurrentPage] = useState(1);
@@ -89,6 +137,11 @@ const InteractionLog = () => {
       data = data.filter((item) => item.type === typeFilter);
     }
 
+    // Context filters
+    if (deviceFilter !== "all") data = data.filter((item) => item.device === deviceFilter);
+    if (countryFilter !== "all") data = data.filter((item) => item.country === countryFilter);
+    if (sourceFilter !== "all") data = data.filter((item) => item.source === sourceFilter);
+
     // Date filter
     const daysAgo = parseInt(dateFilter);
     const cutoffDate = new Date();
@@ -109,7 +162,13 @@ const InteractionLog = () => {
     });
 
     return data;
-  }, [searchQuery, typeFilter, dateFilter, sortField, sortDirection]);
+  }, [interactions, searchQuery, typeFilter, deviceFilter, countryFilter, sourceFilter, dateFilter, sortField, sortDirection]);
+
+  // Filter options come from what's in the selected period
+  const filterOptions = useMemo(() => {
+    const unique = (key: "device" | "country" | "source") => [...new Set(interactions.map(item => item[key]))].sort();
+    return { devices: unique("device"), countries: unique("country"), sources: unique("source") };
+  }, [interactions]);
 
   const paginatedData = useMemo(() => {
     const start = (currentPage - 1) * itemsPerPage;
@@ -137,13 +196,19 @@ const InteractionLog = () => {
   };
 
   const exportToCSV = () => {
-    const headers = ["Name", "Email", "Phone", "Type", "Date"];
+    const headers = ["Name", "Email", "Phone", "Type", "Date", "Device", "OS", "Browser", "Location", "Source", "Campaign"];
     const rows = filteredData.map((item) => [
       item.name,
       item.email,
       item.phone,
       item.type,
       item.timestamp.toLocaleDateString(),
+      item.device,
+      item.os,
+      item.browser,
+      item.location,
+      item.source,
+      item.campaign,
     ]);
 
     const csvContent = [headers, ...rows]
@@ -183,10 +248,13 @@ const InteractionLog = () => {
           </h1>
           <p className="text-muted-foreground mt-1">Track all profile interactions and engagement</p>
         </div>
-        <NeonButton onClick={exportToCSV} className="w-full sm:w-auto text-sm" size="sm">
-          <Download className="w-4 h-4 mr-2" />
-          Export CSV
-        </NeonButton>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <PersonaFilter />
+          <NeonButton onClick={exportToCSV} className="w-full sm:w-auto text-sm" size="sm">
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </NeonButton>
+        </div>
       </div>
 
       {/* Stats Summary - Removed Link Clicks */}
@@ -258,8 +326,38 @@ const InteractionLog = () => {
             </SelectContent>
           </Select>
         </div>
+        <div className="flex flex-col lg:flex-row gap-4 mt-4">
+          {[
+            { value: deviceFilter, onChange: setDeviceFilter, options: filterOptions.devices, all: "All Devices", icon: Smartphone },
+            { value: countryFilter, onChange: setCountryFilter, options: filterOptions.countries, all: "All Countries", icon: Globe },
+            { value: sourceFilter, onChange: setSourceFilter, options: filterOptions.sources, all: "All Sources", icon: Link2 },
+          ].map(filter => (
+            <Select key={filter.all} value={filter.value} onValueChange={(value) => { filter.onChange(value); setCurrentPage(1); }}>
+              <SelectTrigger className="w-full lg:w-48 bg-muted border-border">
+                <filter.icon className="w-4 h-4 mr-2 text-muted-foreground" />
+                <SelectValue placeholder={filter.all} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{filter.all}</SelectItem>
+                {filter.options.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ))}
+        </div>
       </GlassCard>
 
+      {/* Breakdowns */}
+      <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+        <BreakdownChart title="Device" values={filteredData.map(item => item.device)} />
+        <BreakdownChart title="Operating System" values={filteredData.map(item => item.os)} />
+        <BreakdownChart title="Browser" values={filteredData.map(item => item.browser)} />
+        <BreakdownChart title="Location" values={filteredData.map(item => item.location)} />
+        <BreakdownChart title="Source" values={filteredData.map(item => item.source)} />
+        <BreakdownChart title="Campaign" values={filteredData.map(item => item.campaign)} />
+      </div>
+
       {/* Table */}
       <GlassCard className="overflow-hidden">
         <div className="overflow-x-auto">
@@ -277,6 +375,7 @@ const InteractionLog = () => {
                   </button>
                 </th>
                 <th className="text-left p-4"><span className="font-semibold text-foreground">Phone No.</span></th>
+                <th className="text-left p-4"><span className="font-semibold text-foreground">Device & Location</span></th>
                 <th className="text-left p-4"><span className="font-semibold text-foreground">Email</span></th>
                 <th className="text-left p-4">
                   <button onClick={() => handleSort("timestamp")} className="flex items-center gap-2 font-semibold text-foreground hover:text-primary transition-colors">
@@ -288,7 +387,7 @@ const InteractionLog = () => {
             <tbody>
               {paginatedData.length === 0 ? (
                 <tr>
-                  <td colSpan={5} className="p-8 text-center text-muted-foreground">
+                  <td colSpan={6} className="p-8 text-center text-muted-foreground">
                     <div className="flex flex-col items-center gap-2">
                       <Search className="w-8 h-8 opacity-50" />
                       <p>No interactions found matching your filters.</p>
@@ -326,6 +425,12 @@ const InteractionLog = () => {
                           <span className="text-muted-foreground">{item.phone}</span>
                         </div>
                       </td>
+                      <td className="p-4">
+                        <div className="text-sm">
+                          <p className="text-foreground">{item.device} • {item.browser}</p>
+                          <p className="text-xs text-muted-foreground">{item.location} • {item.source}</p>
+                        </div>
+                      </td>
                       <td className="p-4">
                         <div className="flex items-center gap-2">
                           <Mail className="w-4 h-4 text-muted-foreground" />
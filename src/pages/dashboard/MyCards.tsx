@@ -4,16 +4,19 @@ import { GlassCard } from "@/components/ui/GlassCard";
 import { useAuth } from "@/contexts/AuthContext";
 import { db } from "@/lib/firebase";
 import { collection, query, where, orderBy, getDocs, Timestamp } from "firebase/firestore";
-import { Loader2, CreditCard, CheckCircle2, Circle, Plus, AlertCircle, Sparkles, Edit2, Lock } from "lucide-react";
+import { Loader2, CreditCard, CheckCircle2, Circle, Plus, AlertCircle, Sparkles, Edit2, Lock, ShieldOff } from "lucide-react";
 import { GradientText } from "@/components/ui/GradientText";
 import { format } from "date-fns";
 import { Link, useNavigate } from "react-router-dom";
 import { NeonButton } from "@/components/ui/NeonButton";
+import { cardService, Card } from "@/services/cardService";
+import { ReportLostCardDialog } from "@/components/dashboard/ReportLostCardDialog";
 
 interface TimelineStep {
     status: string;
     date: string | null;
     completed: boolean;
+    cardIds?: string[];
 }
 
 interface Order {
@@ -60,6 +63,8 @@ const MyCards = () => {
     const [allPlans, setAllPlans] = useState<any[]>([]); // Store plans locally
     const [loading, setLoading] = useState(true);
     const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+    const [cards, setCards] = useState<Card[]>([]);
+    const [lostCard, setLostCard] = useState<Card | null>(null);
 
     // Fetch Plans First
     useEffect(() => {
@@ -94,6 +99,9 @@ const MyCards = () => {
                 });
 
                 setOrders(fetchedOrders);
+
+                // Physical cards shipped against these orders
+                setCards(await cardService.getUserCards(currentUser.uid));
             } catch (error) {
                 console.error("Error fetching orders:", error);
             } finally {
@@ -282,6 +290,32 @@ const MyCards = () => {
                                                     )}
                                                 </div>
 
+                                                {cards.some(c => c.orderId === order.id) && (
+                                                    <div className="mb-8 space-y-2">
+                                                        <h4 className="text-sm font-bold text-muted-foreground uppercase tracking-wider mb-3">Cards</h4>
+                                                        {cards.filter(c => c.orderId === order.id).map(card => (
+                                                            <div key={card.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-white/5 border border-white/10">
+                                                                <div className="min-w-0">
+                                                                    <p className="text-sm font-mono text-foreground truncate">{cardService.getCardUrl(card.id)}</p>
+                                                                    <p className="text-xs text-muted-foreground capitalize">{card.status}</p>
+                                                                </div>
+                                                                {(card.status === 'active' || card.status === 'claimed') && (
+                                                                    <button
+                                                                        onClick={(e) => {
+                                                                            e.stopPropagation();
+                                                                            setLostCard(card);
+                                                                        }}
+                                                                        className="text-xs px-3 py-1.5 bg-destructive/10 text-destructive hover:bg-destructive/20 rounded-lg transition-colors font-bold flex items-center gap-1 shrink-0"
+                                                                    >
+                                                                        <ShieldOff className="w-3 h-3" />
+                                                                        Report Lost
+                                                                    </button>
+                                                                )}
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                )}
+
                                                 {order.status !== 'delivered' && (
                                                     <>
                                                         <h4 className="text-sm font-bold text-muted-foreground mb-6 uppercase tracking-wider">Order Timeline</h4>
@@ -314,6 +348,11 @@ const MyCards = () => {
                                                                                         {format(new Date(step.date), "PPP p")}
                                                                                     </p>
                                                                                 )}
+                                                                                {step.cardIds?.length ? (
+                                                                                    <p className="text-xs text-muted-foreground mt-1 font-mono">
+                                                                                        Card{step.cardIds.length > 1 ? "s" : ""}: {step.cardIds.join(", ")}
+                                                                                    </p>
+                                                                                ) : null}
                                                                             </div>
                                                                         </div>
                                                                     );
@@ -349,6 +388,12 @@ const MyCards = () => {
                 </div>
             )}
 
+            <ReportLostCardDialog
+                card={lostCard}
+                onClose={() => setLostCard(null)}
+                onReported={(id) => setCards(prev => prev.map(c => c.id === id ? { ...c, status: "suspended" } : c))}
+            />
+
             {/* Bottom Action for existing users */}
             {orders.length > 0 && (
                 <div className="flex justify-center pt-8 pb-4">
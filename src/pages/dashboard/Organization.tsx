@@ -0,0 +1,528 @@
+import { useState, useEffect, useCallback } from "react";
+import { motion } from "framer-motion";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { GradientText } from "@/components/ui/GradientText";
+import { NeonButton } from "@/components/ui/NeonButton";
+import { Building2, Mail, Check, X, Trash2, Shield, ShieldCheck, Upload, LogOut, Plus, Palette, Lock, BarChart3 } from "lucide-react";
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+import ConfirmDialog from "@/components/ui/ConfirmDialog";
+import { ErrorAlert } from "@/components/ui/ErrorAlert";
+import { getFriendlyErrorMessage } from "@/lib/errorUtils";
+import { useAuth } from "@/contexts/AuthContext";
+import { userService, UserProfile } from "@/services/userService";
+import { storageService } from "@/services/storageService";
+import { organizationService, Organization as Org, OrgInvite, OrgBranding, OrgLockedFields } from "@/services/organizationService";
+
+const inputClass = "w-full px-4 py-3 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20 text-foreground";
+
+const Organization = () => {
+  const { currentUser } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [org, setOrg] = useState<Org | null>(null);
+  const [members, setMembers] = useState<UserProfile[]>([]);
+  const [orgInvites, setOrgInvites] = useState<OrgInvite[]>([]);
+  const [myInvites, setMyInvites] = useState<OrgInvite[]>([]);
+  const [newOrgName, setNewOrgName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [branding, setBranding] = useState<OrgBranding>({});
+  const [lockedFields, setLockedFields] = useState<OrgLockedFields>({});
+  const [newTemplate, setNewTemplate] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [confirmLeave, setConfirmLeave] = useState(false);
+  const [errorAlert, setErrorAlert] = useState({ isOpen: false, message: "" });
+
+  const isOrgAdmin = !!(org && currentUser && org.adminIds.includes(currentUser.uid));
+  const isOwner = !!(org && currentUser && org.ownerId === currentUser.uid);
+
+  const showError = (error: unknown, fallback: string) => {
+    console.error(error);
+    setErrorAlert({ isOpen: true, message: getFriendlyErrorMessage(error) || fallback });
+  };
+
+  const loadData = useCallback(async () => {
+    if (!currentUser) return;
+    try {
+      const profile = await userService.getUserProfile(currentUser.uid);
+      const organization = profile?.organizationId ? await organizationService.getOrganization(profile.organizationId) : null;
+      setOrg(organization);
+
+      if (organization) {
+        setBranding(organization.branding || {});
+        setLockedFields(organization.lockedFields || {});
+        setMembers(await organizationService.getMembers(organization));
+        if (organization.adminIds.includes(currentUser.uid)) {
+          setOrgInvites(await organizationService.getOrgInvites(organization.id));
+        }
+      } else if (currentUser.email) {
+        setMyInvites(await organizationService.getMyInvites(currentUser.email));
+      }
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleCreate = async () => {
+    if (!newOrgName.trim()) {
+      setErrorAlert({ isOpen: true, message: "Please enter an organization name" });
+      return;
+    }
+    setBusy(true);
+    try {
+      await organizationService.createOrganization(newOrgName.trim());
+      toast.success("Organization created");
+      setNewOrgName("");
+      await loadData();
+    } catch (error) {
+      showError(error, "Failed to create organization");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAcceptInvite = async (invite: OrgInvite) => {
+    setBusy(true);
+    try {
+      await organizationService.acceptInvite(invite.id);
+      toast.success(`You joined ${invite.orgName}`);
+      await loadData();
+    } catch (error) {
+      showError(error, "Failed to accept invite");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDeclineInvite = async (invite: OrgInvite) => {
+    try {
+      await organizationService.declineInvite(invite.id);
+      setMyInvites(myInvites.filter(i => i.id !== invite.id));
+    } catch (error) {
+      showError(error, "Failed to decline invite");
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!org || !currentUser) return;
+    setBusy(true);
+    try {
+      await organizationService.inviteMember(org.id, inviteEmail);
+      toast.success("Invitation sent");
+      setInviteEmail("");
+      setOrgInvites(await organizationService.getOrgInvites(org.id));
+    } catch (error) {
+      showError(error, "Failed to send invite");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancelInvite = async (inviteId: string) => {
+    try {
+      await organizationService.cancelInvite(inviteId);
+      setOrgInvites(orgInvites.filter(i => i.id !== inviteId));
+    } catch (error) {
+      showError(error, "Failed to cancel invite");
+    }
+  };
+
+  const handleToggleAdmin = async (memberId: string) => {
+    if (!org) return;
+    const makeAdmin = !org.adminIds.includes(memberId);
+    try {
+      await organizationService.setMemberAdmin(org.id, memberId, makeAdmin);
+      setOrg({
+        ...org,
+        adminIds: makeAdmin ? [...org.adminIds, memberId] : org.adminIds.filter(id => id !== memberId)
+      });
+    } catch (error) {
+      showError(error, "Failed to update admin");
+    }
+  };
+
+  const handleRemoveMember = async (memberId: string) => {
+    if (!org) return;
+    try {
+      await organizationService.removeMember(org.id, memberId);
+      setMembers(members.filter(m => m.uid !== memberId));
+      setOrg({ ...org, memberIds: org.memberIds.filter(id => id !== memberId), adminIds: org.adminIds.filter(id => id !== memberId) });
+      toast.success("Member removed");
+    } catch (error) {
+      showError(error, "Failed to remove member");
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!org || !currentUser) return;
+    setBusy(true);
+    try {
+      await organizationService.removeMember(org.id, currentUser.uid);
+      toast.success(`You left ${org.name}`);
+      setConfirmLeave(false);
+      setLoading(true);
+      await loadData();
+    } catch (error) {
+      showError(error, "Failed to leave organization");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>, key: "logoUrl" | "wallpaperUrl") => {
+    const file = e.target.files?.[0];
+    if (!file || !org) return;
+
+    if (file.size > 5 * 1024 * 1024) {
+      toast.error("File size must be less than 5MB");
+      return;
+    }
+
+    const toastId = toast.loading("Uploading...");
+    try {
+      if (branding[key]) await storageService.deleteImage(branding[key] as string);
+      const url = await storageService.uploadImage(file, `organizations/${org.id}/${key}_${Date.now()}`);
+      setBranding({ ...branding, [key]: url });
+      toast.success("Uploaded. Save branding to apply it.");
+    } catch (error) {
+      console.error(error);
+      toast.error(getFriendlyErrorMessage(error));
+    } finally {
+      toast.dismiss(toastId);
+    }
+  };
+
+  const handleSaveBranding = async () => {
+    if (!org) return;
+    setBusy(true);
+    try {
+      await organizationService.updateOrganization(org.id, { branding, lockedFields });
+      setOrg({ ...org, branding, lockedFields });
+      toast.success("Organization settings saved. Member profiles update right away.");
+    } catch (error) {
+      showError(error, "Failed to save organization settings");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addTemplate = () => {
+    const template = newTemplate.trim();
+    if (!template) return;
+    const templates = lockedFields.titleTemplates || [];
+    if (!templates.includes(template)) {
+      setLockedFields({ ...lockedFields, titleTemplates: [...templates, template] });
+    }
+    setNewTemplate("");
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <motion.div
+          className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full"
+          animate={{ rotate: 360 }}
+          transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold font-display text-foreground">
+          <GradientText>Organization</GradientText>
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          {org ? "Shared branding, members and pooled plan limits" : "Manage your team's profiles from one place"}
+        </p>
+      </div>
+
+      {!org ? (
+        <>
+          {/* Pending Invites */}
+          {myInvites.length > 0 && (
+            <GlassCard className="p-6" variant="neon">
+              <h2 className="text-xl font-bold font-display text-foreground mb-4">Invitations</h2>
+              <div className="space-y-3">
+                {myInvites.map(invite => (
+                  <div key={invite.id} className="flex items-center gap-4 p-3 rounded-xl bg-muted/50 border border-border">
+                    <Mail className="w-5 h-5 text-primary" />
+                    <p className="flex-1 text-foreground">
+                      You're invited to join <span className="font-medium">{invite.orgName}</span>
+                    </p>
+                    <NeonButton size="sm" onClick={() => handleAcceptInvite(invite)} disabled={busy}>
+                      <Check className="w-4 h-4 mr-1" /> Join
+                    </NeonButton>
+                    <button onClick={() => handleDeclineInvite(invite)} className="p-2 rounded-lg text-muted-foreground hover:bg-muted">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </GlassCard>
+          )}
+
+          {/* Create Organization */}
+          <GlassCard className="p-6">
+            <h2 className="text-xl font-bold font-display text-foreground mb-2">Create an Organization</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Invite your team, enforce your brand on every member profile and share plan limits across everyone's cards.
+            </p>
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="flex-1 relative">
+                <Building2 className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                <input
+                  type="text"
+                  value={newOrgName}
+                  onChange={(e) => setNewOrgName(e.target.value)}
+                  placeholder="Acme Inc."
+                  maxLength={80}
+                  className={`${inputClass} pl-12`}
+                />
+              </div>
+              <NeonButton onClick={handleCreate} disabled={busy}>
+                <Plus className="w-4 h-4 mr-2" />
+                Create
+              </NeonButton>
+            </div>
+          </GlassCard>
+        </>
+      ) : (
+        <>
+          {/* Overview */}
+          <GlassCard className="p-6" variant="neon">
+            <div className="flex items-center gap-4">
+              {org.branding?.logoUrl ? (
+                <img src={org.branding.logoUrl} alt={org.name} className="w-14 h-14 rounded-xl object-contain bg-muted" />
+              ) : (
+                <div className="w-14 h-14 rounded-xl bg-primary/20 flex items-center justify-center">
+                  <Building2 className="w-7 h-7 text-primary" />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <h2 className="text-xl font-bold font-display text-foreground truncate">{org.name}</h2>
+                <p className="text-sm text-muted-foreground">
+                  {org.memberIds.length} / {org.seats} seats used{isOrgAdmin && orgInvites.length > 0 ? ` • ${orgInvites.length} pending` : ""}
+                </p>
+              </div>
+              {isOrgAdmin && (
+                <Link to="/dashboard/team-analytics">
+                  <NeonButton size="sm" variant="outline">
+                    <BarChart3 className="w-4 h-4 mr-2" /> Team Analytics
+                  </NeonButton>
+                </Link>
+              )}
+              {!isOwner && (
+                <button
+                  onClick={() => setConfirmLeave(true)}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm text-destructive hover:bg-destructive/10 transition-colors"
+                >
+                  <LogOut className="w-4 h-4" /> Leave
+                </button>
+              )}
+            </div>
+          </GlassCard>
+
+          {/* Branding & Locked Fields */}
+          {isOrgAdmin && (
+            <GlassCard className="p-6">
+              <h2 className="text-xl font-bold font-display text-foreground mb-4 flex items-center gap-2">
+                <Palette className="w-5 h-5 text-primary" /> Branding
+              </h2>
+              <div className="grid sm:grid-cols-2 gap-6">
+                {(["logoUrl", "wallpaperUrl"] as const).map(key => (
+                  <div key={key}>
+                    <label className="block text-sm font-medium text-foreground mb-2">{key === "logoUrl" ? "Logo" : "Wallpaper"}</label>
+                    <div className="flex items-center gap-3">
+                      {branding[key] && <img src={branding[key]} alt="" className="w-16 h-12 rounded-lg object-cover bg-muted" />}
+                      <label className="flex items-center gap-2 px-4 py-2 rounded-xl bg-muted border border-border text-sm text-foreground cursor-pointer hover:border-primary/50">
+                        <Upload className="w-4 h-4" /> Upload
+                        <input type="file" accept="image/*" className="hidden" onChange={(e) => handleUpload(e, key)} />
+                      </label>
+                      {branding[key] && (
+                        <button onClick={() => setBranding({ ...branding, [key]: "" })} className="p-2 rounded-lg text-muted-foreground hover:text-destructive">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                {(["primaryColor", "accentColor"] as const).map(key => (
+                  <div key={key}>
+                    <label className="block text-sm font-medium text-foreground mb-2">{key === "primaryColor" ? "Primary Color" : "Accent Color"}</label>
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="color"
+                        value={branding[key] || "#000000"}
+                        onChange={(e) => setBranding({ ...branding, [key]: e.target.value })}
+                        className="w-12 h-10 rounded-lg bg-transparent border border-border cursor-pointer"
+                      />
+                      <span className="text-sm text-muted-foreground font-mono">{branding[key] || "Not set"}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <h2 className="text-xl font-bold font-display text-foreground mt-8 mb-4 flex items-center gap-2">
+                <Lock className="w-5 h-5 text-primary" /> Locked Fields
+              </h2>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Company</label>
+                  <input
+                    type="text"
+                    value={lockedFields.company || ""}
+                    onChange={(e) => setLockedFields({ ...lockedFields, company: e.target.value })}
+                    placeholder="Leave empty to let members set their own"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Title Templates</label>
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {(lockedFields.titleTemplates || []).map(template => (
+                      <span key={template} className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-primary/10 text-sm text-foreground">
+                        {template}
+                        <button
+                          onClick={() => setLockedFields({ ...lockedFields, titleTemplates: (lockedFields.titleTemplates || []).filter(t => t !== template) })}
+                          className="text-muted-foreground hover:text-destructive"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={newTemplate}
+                      onChange={(e) => setNewTemplate(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && addTemplate()}
+                      placeholder="e.g. Account Executive"
+                      className={inputClass}
+                    />
+                    <button onClick={addTemplate} className="px-4 rounded-xl bg-muted border border-border text-primary hover:border-primary/50">
+                      <Plus className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">When set, members can only pick their title from this list.</p>
+                </div>
+              </div>
+
+              <div className="flex justify-end mt-6">
+                <NeonButton onClick={handleSaveBranding} disabled={busy}>Save Settings</NeonButton>
+              </div>
+            </GlassCard>
+          )}
+
+          {/* Members */}
+          <GlassCard className="p-6">
+            <h2 className="text-xl font-bold font-display text-foreground mb-4">Members</h2>
+            <div className="space-y-3">
+              {members.map(member => {
+                const memberIsAdmin = org.adminIds.includes(member.uid);
+                const memberIsOwner = org.ownerId === member.uid;
+                return (
+                  <div key={member.uid} className="flex items-center gap-4 p-3 rounded-xl bg-muted/50 border border-border">
+                    {member.photoURL ? (
+                      <img src={member.photoURL} alt="" className="w-10 h-10 rounded-full object-cover" />
+                    ) : (
+                      <div className="w-10 h-10 rounded-full bg-primary/20 flex items-center justify-center text-primary font-bold">
+                        {(member.displayName || member.email || "?").charAt(0).toUpperCase()}
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-foreground truncate">{member.displayName || member.email}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {memberIsOwner ? "Owner" : memberIsAdmin ? "Admin" : "Member"}
+                      </p>
+                    </div>
+                    {isOrgAdmin && !memberIsOwner && (
+                      <>
+                        <button
+                          onClick={() => handleToggleAdmin(member.uid)}
+                          title={memberIsAdmin ? "Remove admin" : "Make admin"}
+                          className="p-2 rounded-lg text-muted-foreground hover:text-primary hover:bg-primary/10 transition-colors"
+                        >
+                          {memberIsAdmin ? <ShieldCheck className="w-5 h-5 text-primary" /> : <Shield className="w-5 h-5" />}
+                        </button>
+                        {member.uid !== currentUser?.uid && (
+                          <button
+                            onClick={() => handleRemoveMember(member.uid)}
+                            title="Remove from organization"
+                            className="p-2 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                          >
+                            <Trash2 className="w-5 h-5" />
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {isOrgAdmin && (
+              <div className="mt-6">
+                <h3 className="font-bold text-foreground mb-3">Invite Members</h3>
+                <div className="flex flex-col sm:flex-row gap-4">
+                  <div className="flex-1 relative">
+                    <Mail className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                    <input
+                      type="email"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      placeholder="teammate@company.com"
+                      className={`${inputClass} pl-12`}
+                    />
+                  </div>
+                  <NeonButton onClick={handleInvite} disabled={busy || org.memberIds.length + orgInvites.length >= org.seats}>
+                    Send Invite
+                  </NeonButton>
+                </div>
+                {orgInvites.length > 0 && (
+                  <div className="mt-4 space-y-2">
+                    {orgInvites.map(invite => (
+                      <div key={invite.id} className="flex items-center gap-3 text-sm">
+                        <span className="flex-1 text-muted-foreground">{invite.email} • Pending</span>
+                        <button onClick={() => handleCancelInvite(invite.id)} className="text-destructive hover:underline">
+                          Cancel
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </GlassCard>
+        </>
+      )}
+
+      <ConfirmDialog
+        isOpen={confirmLeave}
+        onClose={() => setConfirmLeave(false)}
+        onConfirm={handleLeave}
+        title={`Leave ${org?.name}?`}
+        description="Your profile loses the organization's branding and you go back to your own plan limits."
+        confirmText="Leave Organization"
+        type="danger"
+        loading={busy}
+      />
+      <ErrorAlert
+        isOpen={errorAlert.isOpen}
+        onClose={() => setErrorAlert({ ...errorAlert, isOpen: false })}
+        message={errorAlert.message}
+      />
+    </div>
+  );
+};
+
+export default Organization;
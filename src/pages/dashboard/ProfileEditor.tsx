@@ -14,6 +14,10 @@ import { ErrorAlert } from "@/components/ui/ErrorAlert";
 import { getFriendlyErrorMessage } from "@/lib/errorUtils";
 import { useSubscriptionLimits } from "@/hooks/useSubscriptionLimits";
 import { UpgradeModal } from "@/components/dashboard/UpgradeModal";
+import { PersonaSwitcher } from "@/components/dashboard/PersonaSwitcher";
+import { personaService, Persona, DEFAULT_PERSONA_ID } from "@/services/personaService";
+import { organizationService, OrgLockedFields } from "@/services/organizationService";
+import { analyticsService } from "@/services/analyticsService";
 
 interface PortfolioItem {
   id: number;
@@ -73,6 +77,17 @@ const ProfileEditor = () => {
 
   const [initialData, setInitialData] = useState<any>(null); // Store deep copy of initial state for undo detection
 
+  // Personas: the editor works on one profile at a time (main doc or a persona)
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [activePersonaId, setActivePersonaId] = useState(DEFAULT_PERSONA_ID);
+  const [mainProfile, setMainProfile] = useState<UserProfile | null>(null);
+  const [orgLockedFields, setOrgLockedFields] = useState<OrgLockedFields | null>(null);
+  const isPersona = activePersonaId !== DEFAULT_PERSONA_ID;
+
+  // Lifetime clicks per link and views of the profile being edited, for click-through rates
+  const [linkClicks, setLinkClicks] = useState<Record<string, number>>({});
+  const [profileViews, setProfileViews] = useState(0);
+
   // Helper to get current state snapshot for comparison
   const getCurrentState = () => ({
     ...profileData,
@@ -141,9 +156,21 @@ const ProfileEditor = () => {
   useEffect(() => {
     const loadData = async () => {
       if (!currentUser) return;
+      setLoading(true);
       try {
-        const data = await userService.getUserProfile(currentUser.uid);
+        const mainData = await userService.getUserProfile(currentUser.uid);
         const privateData = await userService.getUserPrivateData(currentUser.uid);
+        const loadedPersonas = await personaService.getPersonas(currentUser.uid);
+        const persona = loadedPersonas.find(p => p.id === activePersonaId) || null;
+        setPersonas(loadedPersonas);
+        setMainProfile(mainData);
+
+        // Organization members can't edit fields the org locks
+        const org = mainData?.organizationId ? await organizationService.getOrganization(mainData.organizationId) : null;
+        setOrgLockedFields(org?.lockedFields || null);
+
+        // Persona fields sit on top of the main profile; private content stays account-wide
+        const data = mainData ? personaService.applyPersona(mainData, persona) : null;
 
         if (data) {
           console.log("Loaded profile data:", data); // Debug log
@@ -166,19 +193,15 @@ const ProfileEditor = () => {
 
           setProfileData(profileState);
 
-          // Load extended data if available
-          if ((data as any).links) setLinks((data as any).links);
-          if ((data as any).portfolioItems) setPortfolioItems((data as any).portfolioItems);
-          if ((data as any).isPublic !== undefined) setIsPublic((data as any).isPublic);
+          // Load extended data (reset explicitly so switching personas never carries state over)
+          setLinks((data as any).links || []);
+          setPortfolioItems((data as any).portfolioItems || []);
+          setIsPublic((data as any).isPublic !== undefined ? (data as any).isPublic : true);
 
           // Username
-          if (data.username) {
-            setUsername(data.username);
-            setInitialUsername(data.username);
-          }
-          if (data.usernameLastChanged) {
-            setUsernameLastChanged(data.usernameLastChanged);
-          }
+          setUsername(data.username || "");
+          setInitialUsername(data.username || "");
+          setUsernameLastChanged(persona ? null : data.usernameLastChanged || null);
 
           // Load private data
           if (privateData) {
@@ -209,7 +232,64 @@ const ProfileEditor = () => {
       }
     };
     loadData();
-  }, [currentUser]);
+  }, [currentUser, activePersonaId]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    analyticsService.getBuckets(currentUser.uid).then(buckets => {
+      setLinkClicks(analyticsService.countLinkClicks(buckets, activePersonaId));
+      setProfileViews(analyticsService.countType(buckets[0], "view", activePersonaId));
+    }).catch(error => console.error(error));
+  }, [currentUser, activePersonaId]);
+
+  const getLinkCtr = (id: number) => {
+    const clicks = linkClicks[analyticsService.linkKey("link", id)] || 0;
+    const ctr = profileViews > 0 ? Math.round((clicks / profileViews) * 1000) / 10 : 0;
+    return { clicks, ctr };
+  };
+
+  // Writes profile fields to whichever profile is being edited
+  const saveProfileFields = async (fields: Partial<UserProfile>) => {
+    if (!currentUser) return;
+    if (isPersona) {
+      await personaService.updatePersona(currentUser.uid, activePersonaId, fields);
+    } else {
+      await userService.updateUserProfile(currentUser.uid, fields);
+    }
+  };
+
+  const handleSelectPersona = (personaId: string) => {
+    if (personaId === activePersonaId) return;
+    if (hasUnsavedChanges) {
+      toast.error("Save your changes before switching profiles");
+      return;
+    }
+    setActivePersonaId(personaId);
+  };
+
+  const handleCreatePersona = async (label: string) => {
+    if (!currentUser) return;
+    try {
+      const personaId = await personaService.createPersona(currentUser.uid, label, mainProfile || {});
+      toast.success(`Created "${label.trim()}"`);
+      setActivePersonaId(personaId);
+    } catch (error) {
+      setErrorAlert({ isOpen: true, message: getFriendlyErrorMessage(error) });
+    }
+  };
+
+  const handleDeletePersona = async (personaId: string) => {
+    if (!currentUser) return;
+    try {
+      await personaService.deletePersona(currentUser.uid, personaId);
+      toast.success("Profile deleted");
+      setInitialData(null);
+      setActivePersonaId(DEFAULT_PERSONA_ID);
+      setPersonas(prev => prev.filter(p => p.id !== personaId));
+    } catch (error) {
+      setErrorAlert({ isOpen: true, message: getFriendlyErrorMessage(error) });
+    }
+  };
 
   // Modals state
   const [newPortfolioItem, setNewPortfolioItem] = useState<{ title: string, description: string, category: string, imageUrl?: string }>({ title: "", description: "", category: "" });
@@ -257,7 +337,7 @@ const ProfileEditor = () => {
       const toastId = toast.loading("Removing wallpaper...");
       await storageService.deleteImage(profileData.coverImage);
 
-      await userService.updateUserProfile(currentUser.uid, {
+      await saveProfileFields({
         coverImage: ""
       });
 
@@ -310,12 +390,23 @@ const ProfileEditor = () => {
           throw new Error("Invalid username. Please fix errors before saving.");
         }
         // The role param is important for the length exception
-        await userService.claimUsername(currentUser.uid, username, profileData.role || "user");
+        if (isPersona) {
+          await personaService.claimPersonaUsername(currentUser.uid, activePersonaId, username, mainProfile?.role || "user");
+        } else {
+          await userService.claimUsername(currentUser.uid, username, profileData.role || "user");
+        }
         // Update initial so we don't re-claim
         setInitialUsername(username);
       }
 
-      await userService.updateUserProfile(currentUser.uid, updateData);
+      if (isPersona) {
+        const { privateMetadata, pinEnabled: pinFlag, ...personaData } = updateData;
+        await personaService.updatePersona(currentUser.uid, activePersonaId, personaData);
+        // Private content is shared by all personas, so its metadata stays on the main profile
+        await userService.updateUserProfile(currentUser.uid, { privateMetadata, pinEnabled: pinFlag } as Partial<UserProfile>);
+      } else {
+        await userService.updateUserProfile(currentUser.uid, updateData);
+      }
       // await userService.updateUserProfile(currentUser.uid, updateData); // Duplicate call removed
       await userService.updateUserPrivateData(currentUser.uid, privateUpdateData);
 
@@ -356,7 +447,7 @@ const ProfileEditor = () => {
       setProfileData(prev => ({ ...prev, photoURL: url }));
 
 
-      await userService.updateUserProfile(currentUser.uid, {
+      await saveProfileFields({
         photoURL: url
       });
 
@@ -378,7 +469,7 @@ const ProfileEditor = () => {
       await storageService.deleteImage(profileData.photoURL);
 
       // Update DB
-      await userService.updateUserProfile(currentUser.uid, {
+      await saveProfileFields({
         photoURL: ""
       });
 
@@ -539,6 +630,14 @@ const ProfileEditor = () => {
             <p className="text-sm lg:text-base text-muted-foreground mt-1">Customize your digital identity</p>
           </div>
         </div>
+
+        <PersonaSwitcher
+          personas={personas}
+          activePersonaId={activePersonaId}
+          onSelect={handleSelectPersona}
+          onCreate={handleCreatePersona}
+          onDelete={handleDeletePersona}
+        />
       </div>
 
       <div className="grid lg:grid-cols-3 gap-8">
@@ -631,7 +730,7 @@ const ProfileEditor = () => {
                   {!usernameError && (
                     <p className="text-xs text-muted-foreground mt-1">
                       View Link: <span className="text-primary">
-                        {username ? `${window.location.host}/@${username}` : `${window.location.host}/u/${currentUser?.uid}`}
+                        {`${window.location.host}${personaService.getProfilePath(currentUser?.uid || "", username, activePersonaId)}`}
                       </span>
                     </p>
                   )}
@@ -639,15 +738,28 @@ const ProfileEditor = () => {
 
                 <div>
                   <label className="block text-sm font-medium text-foreground mb-2">Title</label>
-                  <input
-                    type="text"
-                    value={profileData.title || ""}
-                    onChange={(e) => {
-                      setProfileData({ ...profileData, title: e.target.value });
-                    }}
-                    className="w-full px-4 py-3 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none text-foreground"
-                    placeholder="Job Title"
-                  />
+                  {orgLockedFields?.titleTemplates?.length ? (
+                    <select
+                      value={profileData.title || ""}
+                      onChange={(e) => setProfileData({ ...profileData, title: e.target.value })}
+                      className="w-full px-4 py-3 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none text-foreground"
+                    >
+                      <option value="">Select your title</option>
+                      {orgLockedFields.titleTemplates.map(template => (
+                        <option key={template} value={template}>{template}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={profileData.title || ""}
+                      onChange={(e) => {
+                        setProfileData({ ...profileData, title: e.target.value });
+                      }}
+                      className="w-full px-4 py-3 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none text-foreground"
+                      placeholder="Job Title"
+                    />
+                  )}
                 </div>
               </div>
 
@@ -720,12 +832,14 @@ const ProfileEditor = () => {
                     name="company"
                     autoComplete="organization"
                     type="text"
-                    value={profileData.company}
+                    value={orgLockedFields?.company || profileData.company}
                     onChange={(e) => {
                       setProfileData({ ...profileData, company: e.target.value });
                     }}
+                    disabled={!!orgLockedFields?.company}
+                    title={orgLockedFields?.company ? "Set by your organization" : undefined}
                     placeholder="Your company name"
-                    className="w-full px-4 py-3 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none text-foreground"
+                    className="w-full px-4 py-3 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none text-foreground disabled:opacity-60 disabled:cursor-not-allowed"
                   />
                 </div>
                 <div>
@@ -836,6 +950,12 @@ const ProfileEditor = () => {
                     placeholder="URL"
                     className="w-full sm:flex-[2] px-3 py-2 rounded-lg bg-muted border border-border text-foreground text-sm"
                   />
+                  <span
+                    className="text-xs text-muted-foreground whitespace-nowrap sm:w-28 sm:text-right"
+                    title={`${getLinkCtr(link.id).clicks} clicks from ${profileViews} profile views`}
+                  >
+                    {getLinkCtr(link.id).clicks} clicks · <span className="text-primary">{getLinkCtr(link.id).ctr}% CTR</span>
+                  </span>
                   {/* Desktop Delete Button */}
                   <button
                     onClick={() => {
@@ -2,8 +2,9 @@ import { useState, useEffect, useRef } from "react";
 import { motion } from "framer-motion";
 import { GlassCard } from "@/components/ui/GlassCard";
 import { NeonButton } from "@/components/ui/NeonButton";
-import { Download, Palette, Settings, Save, Trash2, Loader2, RefreshCcw } from "lucide-react";
+import { Download, Palette, Settings, Save, Trash2, Loader2, RefreshCcw, UserCircle } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
+import { useDashboard } from "@/contexts/DashboardContext";
 import { qrService, QRDesign } from "@/services/qrService";
 import { toast } from "sonner";
 import { ErrorAlert } from "@/components/ui/ErrorAlert";
@@ -18,6 +19,8 @@ const colors = ["#00D4FF", "#00FF88", "#FF6B6B", "#FFD93D", "#6B5B95"]; // Remov
 
 const QRBuilder = () => {
   const { currentUser } = useAuth();
+  const { personas } = useDashboard();
+  const [personaId, setPersonaId] = useState<string>(""); // "" = main profile
   const [selectedColor, setSelectedColor] = useState(colors[0]);
   const [qrStyle, setQrStyle] = useState<"rounded" | "square" | "dots">("rounded");
   const [savedDesigns, setSavedDesigns] = useState<QRDesign[]>([]);
@@ -59,7 +62,14 @@ const QRBuilder = () => {
     if (libLoaded && currentUser && canvasRef.current) {
       renderQR();
     }
-  }, [libLoaded, currentUser, selectedColor, qrStyle]);
+  }, [libLoaded, currentUser, selectedColor, qrStyle, personaId]);
+
+  // Persona codes use the stable /u/:uid?persona= form so a later username change never breaks a printed code
+  const getProfileUrl = () => {
+    if (!currentUser) return "https://nxcbadge.com";
+    const baseUrl = `${window.location.origin}/u/${currentUser.uid}`;
+    return personaId ? `${baseUrl}?persona=${personaId}` : baseUrl;
+  };
 
   const loadDesigns = async () => {
     if (!currentUser) return;
@@ -74,8 +84,7 @@ const QRBuilder = () => {
   const renderQR = () => {
     if (!window.qrcode || !canvasRef.current) return;
 
-    const baseUrl = window.location.origin;
-    const data = currentUser ? `${baseUrl}/u/${currentUser.uid}` : "https://nxcbadge.com";
+    const data = getProfileUrl();
 
     try {
       const typeNumber = 0; // Auto detect
@@ -146,8 +155,7 @@ const QRBuilder = () => {
     }
     setLoading(true);
     try {
-      const baseUrl = window.location.origin;
-      const profileUrl = `${baseUrl}/u/${currentUser.uid}`;
+      const profileUrl = getProfileUrl();
       const options = { color: selectedColor, style: qrStyle };
 
       if (editingId) {
@@ -155,7 +163,8 @@ const QRBuilder = () => {
         await qrService.updateQRDesign(editingId, {
           name,
           options,
-          // data usually static, but we can update it if logic changes
+          data: profileUrl,
+          personaId: personaId || null
         });
         toast.success("Design updated!");
       } else {
@@ -163,7 +172,8 @@ const QRBuilder = () => {
         await qrService.saveQRDesign(currentUser.uid, {
           name,
           data: profileUrl,
-          options
+          options,
+          ...(personaId ? { personaId } : {})
         });
         toast.success("Design saved!");
       }
@@ -184,6 +194,7 @@ const QRBuilder = () => {
     setName("");
     setSelectedColor(colors[0]); // Reset to default
     setQrStyle("rounded");
+    setPersonaId("");
     toast.info("Edit cancelled");
   };
 
@@ -203,6 +214,7 @@ const QRBuilder = () => {
     setSelectedColor(design.options.color);
     setQrStyle(design.options.style as any);
     setName(design.name); // Populate name field
+    setPersonaId(design.personaId || "");
     setEditingId(design.id);
     toast.success(`Editing: ${design.name}`);
   };
@@ -233,6 +245,25 @@ const QRBuilder = () => {
       <div className="grid lg:grid-cols-2 gap-8">
         {/* Customization */}
         <div className="space-y-6">
+          {personas.length > 0 && (
+            <GlassCard className="p-4 lg:p-6">
+              <h2 className="text-xl font-bold font-display text-foreground mb-6 flex items-center gap-2">
+                <UserCircle className="w-5 h-5 text-primary" />
+                Profile
+              </h2>
+              <select
+                value={personaId}
+                onChange={(e) => setPersonaId(e.target.value)}
+                className="w-full px-4 py-3 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none text-foreground"
+              >
+                <option value="">Main Profile</option>
+                {personas.map(persona => (
+                  <option key={persona.id} value={persona.id}>{persona.label}</option>
+                ))}
+              </select>
+            </GlassCard>
+          )}
+
           <GlassCard className="p-4 lg:p-6">
             <h2 className="text-xl font-bold font-display text-foreground mb-6 flex items-center gap-2">
               <Palette className="w-5 h-5 text-primary" />
@@ -335,7 +366,7 @@ const QRBuilder = () => {
               </div>
             </motion.div>
             <p className="text-center text-muted-foreground mt-4 text-xs sm:text-sm break-all px-2">
-              {currentUser ? `${window.location.origin}/u/${currentUser.uid}` : "nxcbadge.com/u/username"}
+              {currentUser ? getProfileUrl() : "nxcbadge.com/u/username"}
             </p>
             <div className="mt-6 space-y-4">
               <div>
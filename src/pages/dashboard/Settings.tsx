@@ -19,7 +19,9 @@ import {
   Camera,
   Code,
   Crown,
-  Check
+  Check,
+  Moon,
+  Smartphone
 } from "lucide-react";
 import { FloatingSaveBar } from "@/components/ui/FloatingSaveBar";
 
@@ -31,6 +33,11 @@ import { useNavigate } from "react-router-dom";
 import ConfirmDialog from "@/components/ui/ConfirmDialog";
 import { ErrorAlert } from "@/components/ui/ErrorAlert";
 import { getFriendlyErrorMessage } from "@/lib/errorUtils";
+import { pushService } from "@/services/pushService";
+import { LeadFormSettings } from "@/components/dashboard/LeadFormSettings";
+import { CrmConnectorSettings } from "@/components/dashboard/CrmConnectorSettings";
+import { WebhookSettings } from "@/components/dashboard/WebhookSettings";
+import { ApiKeySettings } from "@/components/dashboard/ApiKeySettings";
 
 const Settings = () => {
   const { currentUser } = useAuth();
@@ -58,7 +65,17 @@ const Settings = () => {
     pushNotifications: true,
     newContactAlerts: true,
     profileViewAlerts: true,
+    weeklyDigest: true,
+    // Lead and message alerts are held back during these hours (in the user's time zone)
+    quietHours: {
+      enabled: false,
+      start: "22:00",
+      end: "07:00",
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    },
   });
+  const [pushEnabledHere, setPushEnabledHere] = useState(false);
+  const [pushLoading, setPushLoading] = useState(false);
 
   const [initialFormData, setInitialFormData] = useState<any>(null);
   const [initialNotifications, setInitialNotifications] = useState<any>(null);
@@ -196,6 +213,29 @@ const Settings = () => {
     }
   };
 
+  useEffect(() => {
+    pushService.isSubscribed().then(setPushEnabledHere);
+  }, []);
+
+  const handleTogglePushHere = async () => {
+    if (!currentUser) return;
+    setPushLoading(true);
+    try {
+      if (pushEnabledHere) {
+        await pushService.unsubscribe(currentUser.uid);
+        setPushEnabledHere(false);
+      } else {
+        await pushService.subscribe(currentUser.uid);
+        setPushEnabledHere(true);
+        toast({ title: "Push Enabled", description: "This browser will get alerts for new leads and messages." });
+      }
+    } catch (error) {
+      setErrorAlert({ isOpen: true, message: getFriendlyErrorMessage(error) });
+    } finally {
+      setPushLoading(false);
+    }
+  };
+
   const handleDeleteClick = () => {
     setShowDeleteConfirm(true);
   };
@@ -586,6 +626,7 @@ const Settings = () => {
 
               { key: "newContactAlerts", label: "New Contact Alerts", desc: "When someone saves your contact" },
               { key: "profileViewAlerts", label: "Profile View Alerts", desc: "When someone views your profile" },
+              { key: "weeklyDigest", label: "Weekly Digest", desc: "A Monday email with your views, taps, leads and messages" },
             ].map((item) => (
               <div key={item.key} className="flex items-center justify-between p-4 rounded-xl bg-muted/50">
                 <div>
@@ -611,10 +652,103 @@ const Settings = () => {
             ))}
           </div>
 
+          {/* Push on this device */}
+          {pushService.isSupported() && (
+            <div className="flex items-center justify-between gap-4 p-4 rounded-xl bg-muted/50 mb-4">
+              <div className="flex items-center gap-3">
+                <Smartphone className="w-5 h-5 text-primary" />
+                <div>
+                  <p className="text-foreground font-medium">This Browser</p>
+                  <p className="text-sm text-muted-foreground">
+                    {pushEnabledHere ? "Receiving push alerts" : "Not receiving push alerts"}
+                  </p>
+                </div>
+              </div>
+              <NeonButton size="sm" variant={pushEnabledHere ? "outline" : "primary"} onClick={handleTogglePushHere} disabled={pushLoading}>
+                {pushEnabledHere ? "Disable" : "Enable"}
+              </NeonButton>
+            </div>
+          )}
 
+          {/* Quiet Hours */}
+          <div className="p-4 rounded-xl bg-muted/50">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Moon className="w-5 h-5 text-primary" />
+                <div>
+                  <p className="text-foreground font-medium">Quiet Hours</p>
+                  <p className="text-sm text-muted-foreground">No lead or message alerts during these hours ({notifications.quietHours.timeZone})</p>
+                </div>
+              </div>
+              <button
+                onClick={() =>
+                  setNotifications({
+                    ...notifications,
+                    quietHours: { ...notifications.quietHours, enabled: !notifications.quietHours.enabled },
+                  })
+                }
+                className={`relative w-12 h-6 rounded-full transition-colors shrink-0 ${notifications.quietHours.enabled ? "bg-primary" : "bg-border"}`}
+              >
+                <span className={`absolute top-1 w-4 h-4 rounded-full bg-foreground transition-all ${notifications.quietHours.enabled ? "left-7" : "left-1"}`} />
+              </button>
+            </div>
+            {notifications.quietHours.enabled && (
+              <div className="flex items-center gap-3 mt-4">
+                <input
+                  type="time"
+                  value={notifications.quietHours.start}
+                  onChange={(e) => setNotifications({ ...notifications, quietHours: { ...notifications.quietHours, start: e.target.value } })}
+                  className="px-3 py-2 rounded-lg bg-muted border border-border text-foreground text-sm"
+                />
+                <span className="text-muted-foreground text-sm">to</span>
+                <input
+                  type="time"
+                  value={notifications.quietHours.end}
+                  onChange={(e) => setNotifications({ ...notifications, quietHours: { ...notifications.quietHours, end: e.target.value } })}
+                  className="px-3 py-2 rounded-lg bg-muted border border-border text-foreground text-sm"
+                />
+              </div>
+            )}
+          </div>
         </GlassCard>
       </motion.div>
 
+      {/* Lead Capture Form */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.4 }}
+      >
+        <LeadFormSettings />
+      </motion.div>
+
+      {/* CRM Connectors */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.45 }}
+      >
+        <CrmConnectorSettings />
+      </motion.div>
+
+      {/* Webhooks */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.45 }}
+      >
+        <WebhookSettings />
+      </motion.div>
+
+      {/* API Keys */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.45 }}
+      >
+        <ApiKeySettings />
+      </motion.div>
+
       {/* Danger Zone */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -0,0 +1,315 @@
+import { useState, useEffect, useMemo } from "react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { Link2, Plus, Copy, Trash2, Megaphone } from "lucide-react";
+import { toast } from "sonner";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { GradientText } from "@/components/ui/GradientText";
+import { NeonButton } from "@/components/ui/NeonButton";
+import ConfirmDialog from "@/components/ui/ConfirmDialog";
+import { getFriendlyErrorMessage } from "@/lib/errorUtils";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDashboard } from "@/contexts/DashboardContext";
+import { DEFAULT_PERSONA_ID } from "@/services/personaService";
+import { shareLinkService, ShareLink, SHARE_LINK_SOURCES } from "@/services/shareLinkService";
+import { analyticsService, AnalyticsBucket } from "@/services/analyticsService";
+
+const inputClass = "w-full px-4 py-3 rounded-xl bg-muted border border-border focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20 text-foreground";
+
+// 0 = all time (read from the lifetime totals)
+const RANGES = [7, 30, 90, 0] as const;
+type ReportRange = typeof RANGES[number];
+
+const emptyForm = { label: "", campaign: "", source: SHARE_LINK_SOURCES[0].source, medium: SHARE_LINK_SOURCES[0].medium, personaId: DEFAULT_PERSONA_ID };
+
+const ShareLinks = () => {
+  const { currentUser } = useAuth();
+  const { personas } = useDashboard();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [linkToDelete, setLinkToDelete] = useState<ShareLink | null>(null);
+  const [range, setRange] = useState<ReportRange>(30);
+  const [buckets, setBuckets] = useState<AnalyticsBucket[]>([]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    shareLinkService.getLinks(currentUser.uid)
+      .then(setLinks)
+      .catch(error => toast.error(getFriendlyErrorMessage(error)))
+      .finally(() => setLoading(false));
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    analyticsService.getBuckets(currentUser.uid, range || undefined)
+      .then(setBuckets)
+      .catch(error => console.error(error));
+  }, [currentUser, range]);
+
+  const report = useMemo(() => analyticsService.getCampaignReport(buckets), [buckets]);
+  const chartData = report.slice(0, 8);
+
+  const isCustomSource = !SHARE_LINK_SOURCES.some(s => s.source === form.source);
+
+  const handleCreate = async () => {
+    if (!currentUser) return;
+    setSaving(true);
+    try {
+      const link = await shareLinkService.createLink(currentUser.uid, form);
+      setLinks([link, ...links]);
+      setForm({ ...emptyForm, source: form.source, medium: form.medium });
+      copyLink(link);
+    } catch (error) {
+      toast.error(getFriendlyErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!linkToDelete) return;
+    setSaving(true);
+    try {
+      await shareLinkService.deleteLink(linkToDelete.id);
+      setLinks(links.filter(l => l.id !== linkToDelete.id));
+      toast.success("Link deleted");
+      setLinkToDelete(null);
+    } catch (error) {
+      toast.error(getFriendlyErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyLink = (link: ShareLink) => {
+    navigator.clipboard.writeText(shareLinkService.getShortUrl(link.id));
+    toast.success("Link copied to clipboard");
+  };
+
+  const personaLabel = (personaId?: string) =>
+    personaId ? personas.find(p => p.id === personaId)?.label || "Deleted profile" : "Main profile";
+
+  if (loading || !currentUser) return <div className="p-8 text-center">Loading share links...</div>;
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold font-display text-foreground">
+          <GradientText>Share Links</GradientText>
+        </h1>
+        <p className="text-muted-foreground mt-1">Tagged short links that show which channel brings you views and saved contacts</p>
+      </div>
+
+      {/* Create Link */}
+      <GlassCard className="p-6">
+        <h2 className="text-xl font-bold font-display text-foreground mb-4">New Link</h2>
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">Campaign</label>
+            <input
+              type="text"
+              value={form.campaign}
+              onChange={(e) => setForm({ ...form, campaign: e.target.value })}
+              placeholder="spring_expo_2026"
+              maxLength={50}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">Label (optional)</label>
+            <input
+              type="text"
+              value={form.label}
+              onChange={(e) => setForm({ ...form, label: e.target.value })}
+              placeholder="Booth slides"
+              maxLength={80}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">Channel</label>
+            <select
+              value={isCustomSource ? "custom" : form.source}
+              onChange={(e) => {
+                const preset = SHARE_LINK_SOURCES.find(s => s.source === e.target.value);
+                setForm({ ...form, source: preset?.source || "", medium: preset?.medium || "" });
+              }}
+              className={inputClass}
+            >
+              {SHARE_LINK_SOURCES.map(s => <option key={s.source} value={s.source}>{s.label}</option>)}
+              <option value="custom">Other...</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2">Profile</label>
+            <select
+              value={form.personaId}
+              onChange={(e) => setForm({ ...form, personaId: e.target.value })}
+              className={inputClass}
+            >
+              <option value={DEFAULT_PERSONA_ID}>Main profile</option>
+              {personas.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </div>
+          {isCustomSource && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">Source</label>
+                <input
+                  type="text"
+                  value={form.source}
+                  onChange={(e) => setForm({ ...form, source: e.target.value })}
+                  placeholder="newsletter"
+                  maxLength={50}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">Medium</label>
+                <input
+                  type="text"
+                  value={form.medium}
+                  onChange={(e) => setForm({ ...form, medium: e.target.value })}
+                  placeholder="email"
+                  maxLength={50}
+                  className={inputClass}
+                />
+              </div>
+            </>
+          )}
+        </div>
+        <div className="flex justify-end mt-4">
+          <NeonButton onClick={handleCreate} disabled={saving || !form.campaign.trim()}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create & Copy
+          </NeonButton>
+        </div>
+      </GlassCard>
+
+      {/* Links */}
+      <GlassCard className="p-6">
+        <h2 className="text-xl font-bold font-display text-foreground mb-4">Your Links</h2>
+        {links.length === 0 ? (
+          <div className="text-center py-8">
+            <Link2 className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">No share links yet. Create one for each place you post your profile.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {links.map(link => (
+              <div key={link.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 rounded-xl bg-muted/30 border border-border">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-foreground truncate">{link.label}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {link.campaign} · {link.source} / {link.medium} · {personaLabel(link.personaId)}
+                  </p>
+                  <p className="text-xs text-primary truncate mt-1">{shareLinkService.getShortUrl(link.id)}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <NeonButton size="sm" variant="outline" onClick={() => copyLink(link)}>
+                    <Copy className="w-4 h-4 mr-2" /> Copy
+                  </NeonButton>
+                  <button
+                    onClick={() => setLinkToDelete(link)}
+                    className="p-2 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                    title="Delete link"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </GlassCard>
+
+      {/* Campaign Report */}
+      <GlassCard className="p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+          <h2 className="text-xl font-bold font-display text-foreground flex items-center gap-2">
+            <Megaphone className="w-5 h-5 text-primary" /> Campaign Report
+          </h2>
+          <div className="flex rounded-xl bg-muted/50 border border-border p-1">
+            {RANGES.map(days => (
+              <button
+                key={days}
+                onClick={() => setRange(days)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${range === days ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground"}`}
+              >
+                {days ? `${days}d` : "All"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {report.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">No campaign traffic in this period yet.</p>
+        ) : (
+          <>
+            <div className="h-64 mb-6">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="campaign" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                  <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} allowDecimals={false} />
+                  <Tooltip
+                    cursor={{ fill: "hsl(var(--muted))" }}
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "12px",
+                      color: "hsl(var(--foreground))"
+                    }}
+                  />
+                  <Legend />
+                  <Bar dataKey="views" name="Views" fill="hsl(var(--primary))" radius={[6, 6, 0, 0]} />
+                  <Bar dataKey="saves" name="Contacts Saved" fill="#10B981" radius={[6, 6, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-border">
+                    <th className="py-3 pr-4">Campaign</th>
+                    <th className="py-3 pr-4 text-right">Views</th>
+                    <th className="py-3 pr-4 text-right">Taps</th>
+                    <th className="py-3 pr-4 text-right">Contacts Saved</th>
+                    <th className="py-3 text-right">View → Save</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.map(row => (
+                    <tr key={row.campaign} className="border-b border-border/50">
+                      <td className="py-3 pr-4 font-medium text-foreground">{row.campaign}</td>
+                      <td className="py-3 pr-4 text-right text-foreground">{row.views}</td>
+                      <td className="py-3 pr-4 text-right text-foreground">{row.taps}</td>
+                      <td className="py-3 pr-4 text-right text-foreground">{row.saves}</td>
+                      <td className="py-3 text-right text-primary font-medium">{row.conversionRate}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+        <p className="text-xs text-muted-foreground mt-4">Includes any visit tagged with utm_campaign, not just links created here.</p>
+      </GlassCard>
+
+      <ConfirmDialog
+        isOpen={!!linkToDelete}
+        onClose={() => setLinkToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete this link?"
+        description="The short link stops working. Past visits stay in your campaign report."
+        confirmText="Delete Link"
+        type="danger"
+        loading={saving}
+      />
+    </div>
+  );
+};
+
+export default ShareLinks;
@@ -0,0 +1,250 @@
+import { useState, useEffect, useMemo } from "react";
+import { motion } from "framer-motion";
+import { Link } from "react-router-dom";
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { Eye, MousePointer, Users, Download, Trophy, ArrowLeft, Building2 } from "lucide-react";
+import { toast } from "sonner";
+import { StatCard } from "@/components/ui/StatCard";
+import { GlassCard } from "@/components/ui/GlassCard";
+import { GradientText } from "@/components/ui/GradientText";
+import { NeonButton } from "@/components/ui/NeonButton";
+import { useAuth } from "@/contexts/AuthContext";
+import { userService } from "@/services/userService";
+import { organizationService, Organization } from "@/services/organizationService";
+import { teamAnalyticsService, MemberStats, TeamRange } from "@/services/teamAnalyticsService";
+
+const RANGES: TeamRange[] = [7, 30, 90];
+
+type SortKey = "views" | "taps" | "contacts";
+
+const TeamAnalytics = () => {
+  const { currentUser } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [org, setOrg] = useState<Organization | null>(null);
+  const [members, setMembers] = useState<MemberStats[]>([]);
+  const [range, setRange] = useState<TeamRange>(30);
+  const [sortKey, setSortKey] = useState<SortKey>("views");
+  const [selectedMemberId, setSelectedMemberId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadData = async () => {
+      if (!currentUser) return;
+      try {
+        const profile = await userService.getUserProfile(currentUser.uid);
+        const organization = profile?.organizationId ? await organizationService.getOrganization(profile.organizationId) : null;
+        setOrg(organization);
+        if (organization?.adminIds.includes(currentUser.uid)) {
+          setMembers(await teamAnalyticsService.getTeamStats(organization));
+        }
+      } catch (error) {
+        console.error(error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadData();
+  }, [currentUser]);
+
+  const selectedMember = members.find(m => m.uid === selectedMemberId) || null;
+  const scope = useMemo(() => (selectedMember ? [selectedMember] : members), [selectedMember, members]);
+
+  const trend = useMemo(() => teamAnalyticsService.getTrend(scope, range), [scope, range]);
+  const totals = useMemo(() => trend.reduce(
+    (acc, day) => ({ views: acc.views + day.views, taps: acc.taps + day.taps, contacts: acc.contacts + day.contacts }),
+    { views: 0, taps: 0, contacts: 0 }
+  ), [trend]);
+
+  const leaderboard = useMemo(() => members
+    .map(member => ({ member, range: teamAnalyticsService.getRangeTotals(member, range) }))
+    .sort((a, b) => b.range[sortKey] - a.range[sortKey]), [members, range, sortKey]);
+
+  const exportToCSV = () => {
+    const csvContent = teamAnalyticsService.toCSV(leaderboard.map(row => row.member), range);
+    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `team-analytics-${range}d-${new Date().toISOString().split("T")[0]}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    toast.success(`Exported ${members.length} members to CSV`);
+  };
+
+  if (loading || !currentUser) return <div className="p-8 text-center">Loading team analytics...</div>;
+
+  if (!org || !org.adminIds.includes(currentUser.uid)) {
+    return (
+      <GlassCard className="p-12 text-center">
+        <Building2 className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+        <h3 className="text-xl font-bold text-foreground mb-2">Team Analytics</h3>
+        <p className="text-muted-foreground mb-6">Only organization admins can view team analytics.</p>
+        <Link to="/dashboard/organization">
+          <NeonButton>Go to Organization</NeonButton>
+        </Link>
+      </GlassCard>
+    );
+  }
+
+  const statsData = [
+    { title: "Profile Views", value: totals.views.toLocaleString(), change: `Last ${range} days`, icon: Eye },
+    { title: "Card Taps", value: totals.taps.toLocaleString(), change: `Last ${range} days`, icon: MousePointer },
+    { title: "Contacts Saved", value: totals.contacts.toLocaleString(), change: `Last ${range} days`, icon: Users },
+    { title: "Members", value: members.length, change: `${org.seats} seats`, icon: Building2 },
+  ];
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold font-display text-foreground">
+            <GradientText>Team Analytics</GradientText>
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            {selectedMember ? `Showing ${selectedMember.displayName}` : `Views, taps and leads across ${org.name}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex rounded-xl bg-muted/50 border border-border p-1">
+            {RANGES.map(days => (
+              <button
+                key={days}
+                onClick={() => setRange(days)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${range === days ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground"}`}
+              >
+                {days}d
+              </button>
+            ))}
+          </div>
+          <NeonButton size="sm" onClick={exportToCSV} disabled={members.length === 0}>
+            <Download className="w-4 h-4 mr-2" /> Export
+          </NeonButton>
+        </div>
+      </div>
+
+      {selectedMember && (
+        <button onClick={() => setSelectedMemberId(null)} className="flex items-center gap-2 text-sm text-primary hover:underline">
+          <ArrowLeft className="w-4 h-4" /> Back to whole team
+        </button>
+      )}
+
+      {/* Stats Grid */}
+      <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-6">
+        {statsData.map((stat, index) => (
+          <motion.div
+            key={stat.title}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.1 }}
+          >
+            <StatCard {...stat} />
+          </motion.div>
+        ))}
+      </div>
+
+      {/* Trend Chart */}
+      <GlassCard className="p-6">
+        <h2 className="text-xl font-bold font-display text-foreground mb-6">Trend (Last {range} Days)</h2>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={trend}>
+              <defs>
+                <linearGradient id="teamViews" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.4} />
+                  <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0} />
+                </linearGradient>
+                <linearGradient id="teamTaps" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#F59E0B" stopOpacity={0.4} />
+                  <stop offset="95%" stopColor="#F59E0B" stopOpacity={0} />
+                </linearGradient>
+                <linearGradient id="teamContacts" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#10B981" stopOpacity={0.4} />
+                  <stop offset="95%" stopColor="#10B981" stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis dataKey="name" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+              <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} allowDecimals={false} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: "hsl(var(--card))",
+                  border: "1px solid hsl(var(--border))",
+                  borderRadius: "12px",
+                  color: "hsl(var(--foreground))"
+                }}
+              />
+              <Area type="monotone" dataKey="views" name="Views" stroke="hsl(var(--primary))" fillOpacity={1} fill="url(#teamViews)" strokeWidth={2} />
+              <Area type="monotone" dataKey="taps" name="Taps" stroke="#F59E0B" fillOpacity={1} fill="url(#teamTaps)" strokeWidth={2} />
+              <Area type="monotone" dataKey="contacts" name="Contacts Saved" stroke="#10B981" fillOpacity={1} fill="url(#teamContacts)" strokeWidth={2} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+        <p className="text-xs text-muted-foreground mt-4">Numbers refresh hourly.</p>
+      </GlassCard>
+
+      {/* Leaderboard */}
+      <GlassCard className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold font-display text-foreground flex items-center gap-2">
+            <Trophy className="w-5 h-5 text-primary" /> Leaderboard
+          </h2>
+          <select
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as SortKey)}
+            className="px-3 py-2 rounded-lg bg-muted border border-border focus:border-primary focus:outline-none text-sm text-foreground"
+          >
+            <option value="views">By Views</option>
+            <option value="taps">By Taps</option>
+            <option value="contacts">By Contacts Saved</option>
+          </select>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border">
+                <th className="py-3 pr-4">#</th>
+                <th className="py-3 pr-4">Member</th>
+                <th className="py-3 pr-4 text-right">Views</th>
+                <th className="py-3 pr-4 text-right">Taps</th>
+                <th className="py-3 pr-4 text-right">Contacts Saved</th>
+                <th className="py-3 text-right">Engagement</th>
+              </tr>
+            </thead>
+            <tbody>
+              {leaderboard.map(({ member, range: counts }, index) => (
+                <tr
+                  key={member.uid}
+                  onClick={() => setSelectedMemberId(member.uid === selectedMemberId ? null : member.uid)}
+                  className={`border-b border-border/50 cursor-pointer transition-colors ${member.uid === selectedMemberId ? "bg-primary/10" : "hover:bg-muted/50"}`}
+                >
+                  <td className="py-3 pr-4 text-muted-foreground">{index + 1}</td>
+                  <td className="py-3 pr-4">
+                    <div className="flex items-center gap-3">
+                      {member.photoURL ? (
+                        <img src={member.photoURL} alt="" className="w-8 h-8 rounded-full object-cover" />
+                      ) : (
+                        <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center text-primary font-bold text-xs">
+                          {member.displayName.charAt(0).toUpperCase()}
+                        </div>
+                      )}
+                      <span className="font-medium text-foreground">{member.displayName}</span>
+                    </div>
+                  </td>
+                  <td className="py-3 pr-4 text-right text-foreground">{counts.views}</td>
+                  <td className="py-3 pr-4 text-right text-foreground">{counts.taps}</td>
+                  <td className="py-3 pr-4 text-right text-foreground">{counts.contacts}</td>
+                  <td className="py-3 text-right text-muted-foreground">{member.engagementRate}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </GlassCard>
+    </div>
+  );
+};
+
+export default TeamAnalytics;
@@ -7,7 +7,8 @@ import {
     limit,
     deleteDoc,
     doc,
-    serverTimestamp
+    serverTimestamp,
+    Timestamp
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 
@@ -20,6 +21,18 @@ export interface AdminAction {
     timestamp: any;
 }
 
+// One run of the scheduled aggregateStats job (system/aggregateStats/runs)
+export interface StatsJobRun {
+    id?: string;
+    startedAt: Timestamp;
+    finishedAt?: Timestamp;
+    durationMs: number;
+    usersProcessed: number;
+    failures: number;
+    failedUids: string[];
+    backlogRemaining: boolean;
+}
+
 const COLLECTION_NAME = "admin_actions";
 const MAX_LOGS = 10;
 
@@ -71,5 +84,18 @@ export const adminService = {
         );
         const snapshot = await getDocs(q);
         return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as AdminAction));
+    },
+
+    /**
+     * Fetches the latest runs of the stats aggregation job.
+     */
+    getStatsJobRuns: async (count: number = 5) => {
+        const q = query(
+            collection(db, "system", "aggregateStats", "runs"),
+            orderBy("startedAt", "desc"),
+            limit(count)
+        );
+        const snapshot = await getDocs(q);
+        return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as StatsJobRun));
     }
 };
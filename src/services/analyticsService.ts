@@ -0,0 +1,154 @@
+import { collection, doc, getDoc, getDocs, query, where } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/lib/firebase";
+
+/**
+ * Interaction counts pre-aggregated by the rollupInteraction function.
+ * users/{uid}/analytics/{YYYY-MM-DD} holds one UTC day and users/{uid}/analytics/totals
+ * the lifetime sum. Reading these keeps dashboard cost flat as traffic grows.
+ */
+export interface AnalyticsBucket {
+    date?: string; // YYYY-MM-DD; absent on the totals doc
+    total: number;
+    types: Record<string, number>;
+    sources: Record<string, number>;
+    cards: Record<string, number>;
+    personas: Record<string, Record<string, number>>; // personaId ("default" = main profile) -> type -> count
+    campaigns?: Record<string, Record<string, number>>; // utm_campaign -> type -> count
+    links?: Record<string, Record<string, number>>; // personaId -> linkKey -> clicks
+}
+
+export const TOTALS_BUCKET_ID = "totals";
+
+export type LinkKind = "link" | "portfolio";
+
+// Profile journey shown in the dashboard funnel, in order
+export const FUNNEL_STEPS = [
+    { type: "view", label: "Profile Views" },
+    { type: "link_click", label: "Link Clicks" },
+    { type: "contact_saved", label: "Contacts Saved" },
+    { type: "message", label: "Messages" },
+] as const;
+
+export interface FunnelStep {
+    type: string;
+    label: string;
+    count: number;
+    conversionRate: number | null; // % of the previous step; null for the first step
+}
+
+export interface CampaignStats {
+    campaign: string;
+    views: number;
+    saves: number;
+    taps: number;
+    conversionRate: number; // saves / views, as a percentage
+}
+
+export const emptyBucket = (): AnalyticsBucket => ({ total: 0, types: {}, sources: {}, cards: {}, personas: {} });
+
+export const analyticsService = {
+    // UTC day key, matching the buckets the function writes
+    dayKey: (date: Date): string => date.toISOString().split("T")[0],
+
+    /**
+     * Count of one interaction type in a bucket. `personaId` "all" sums every persona.
+     */
+    countType: (bucket: AnalyticsBucket | undefined, type: string, personaId: string = "all"): number => {
+        if (!bucket) return 0;
+        if (personaId === "all") return bucket.types?.[type] || 0;
+        return bucket.personas?.[personaId]?.[type] || 0;
+    },
+
+    // Key of a link or portfolio item in the `links` rollup (matches the function)
+    linkKey: (kind: LinkKind, id: string | number): string => `${kind}_${id}`,
+
+    // Clicks per link key over the buckets for one persona ("default" = main profile)
+    countLinkClicks: (buckets: AnalyticsBucket[], personaId: string): Record<string, number> => {
+        const clicks: Record<string, number> = {};
+        buckets.forEach(bucket => {
+            Object.entries(bucket.links?.[personaId] || {}).forEach(([key, n]) => {
+                clicks[key] = (clicks[key] || 0) + n;
+            });
+        });
+        return clicks;
+    },
+
+    /**
+     * Event counts for each funnel step and the rate from the step before it.
+     * Counts are per event, so a rate can pass 100% (e.g. several clicks per view).
+     */
+    getFunnel: (buckets: AnalyticsBucket[], personaId: string = "all"): FunnelStep[] => {
+        const counts = FUNNEL_STEPS.map(step =>
+            buckets.reduce((sum, bucket) => sum + analyticsService.countType(bucket, step.type, personaId), 0)
+        );
+        return FUNNEL_STEPS.map((step, i) => ({
+            type: step.type,
+            label: step.label,
+            count: counts[i],
+            conversionRate: i === 0 ? null : counts[i - 1] > 0 ? Math.round((counts[i] / counts[i - 1]) * 1000) / 10 : 0
+        }));
+    },
+
+    /**
+     * Buckets for the last `days` days, oldest first. Without `days` the lifetime
+     * totals doc is returned as the only bucket.
+     */
+    getBuckets: async (uid: string, days?: number): Promise<AnalyticsBucket[]> => {
+        try {
+            const analyticsRef = collection(db, "users", uid, "analytics");
+            if (!days) {
+                const totals = await getDoc(doc(analyticsRef, TOTALS_BUCKET_ID));
+                return totals.exists() ? [totals.data() as AnalyticsBucket] : [];
+            }
+
+            const start = new Date();
+            start.setDate(start.getDate() - (days - 1));
+            const snapshot = await getDocs(query(analyticsRef, where("date", ">=", analyticsService.dayKey(start))));
+            const buckets = snapshot.docs.map(d => d.data() as AnalyticsBucket);
+            buckets.sort((a, b) => (a.date || "").localeCompare(b.date || ""));
+            return buckets;
+        } catch (error) {
+            console.error("Error fetching analytics buckets:", error);
+            throw error;
+        }
+    },
+
+    // Views, saves and view-to-save conversion per utm_campaign, best converting first
+    getCampaignReport: (buckets: AnalyticsBucket[]): CampaignStats[] => {
+        const counts: Record<string, Record<string, number>> = {};
+        buckets.forEach(bucket => {
+            Object.entries(bucket.campaigns || {}).forEach(([campaign, types]) => {
+                counts[campaign] = counts[campaign] || {};
+                Object.entries(types).forEach(([type, n]) => {
+                    counts[campaign][type] = (counts[campaign][type] || 0) + n;
+                });
+            });
+        });
+
+        return Object.entries(counts)
+            .map(([campaign, types]) => {
+                const views = types.view || 0;
+                const saves = types.contact_saved || 0;
+                return {
+                    campaign,
+                    views,
+                    saves,
+                    taps: types.tap || 0,
+                    conversionRate: views > 0 ? Math.round((saves / views) * 1000) / 10 : 0
+                };
+            })
+            .sort((a, b) => b.conversionRate - a.conversionRate || b.views - a.views);
+    },
+
+    // One-time build of the buckets from existing interactions (no-op once done)
+    backfill: async (): Promise<void> => {
+        try {
+            const backfill = httpsCallable(functions, "backfillAnalyticsRollups");
+            await backfill({});
+        } catch (error) {
+            console.error("Error backfilling analytics:", error);
+            throw error;
+        }
+    }
+};
@@ -0,0 +1,65 @@
+import { collection, getDocs, query, where, Timestamp } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/lib/firebase";
+
+/**
+ * Personal keys for the read-only REST API (the `api` function, /api/v1). Keys are
+ * created and revoked through functions and stored hashed in api_keys/{hash}; the
+ * plain key is only returned once, at creation.
+ */
+export type ApiScope = "profile:read" | "contacts:read" | "interactions:read" | "stats:read";
+
+export const API_SCOPES: { id: ApiScope; label: string }[] = [
+    { id: "profile:read", label: "Profile" },
+    { id: "contacts:read", label: "Contacts" },
+    { id: "interactions:read", label: "Interactions" },
+    { id: "stats:read", label: "Stats" },
+];
+
+export const API_DOCS_PATH = "/api/v1/openapi.json";
+
+export interface ApiKey {
+    id: string; // Hash of the key
+    name: string;
+    prefix: string; // First characters, to recognize the key
+    scopes: ApiScope[];
+    createdAt?: Timestamp;
+    lastUsedAt: Timestamp | null;
+    revokedAt: Timestamp | null;
+}
+
+export const apiKeyService = {
+    // Newest first, revoked keys included
+    getApiKeys: async (uid: string): Promise<ApiKey[]> => {
+        try {
+            const snapshot = await getDocs(query(collection(db, "api_keys"), where("uid", "==", uid)));
+            const keys = snapshot.docs.map(d => ({ ...d.data(), id: d.id } as ApiKey));
+            keys.sort((a, b) => (b.createdAt?.seconds || 0) - (a.createdAt?.seconds || 0));
+            return keys;
+        } catch (error) {
+            console.error("Error fetching API keys:", error);
+            throw error;
+        }
+    },
+
+    createApiKey: async (name: string, scopes: ApiScope[]): Promise<string> => {
+        try {
+            const create = httpsCallable<{ name: string; scopes: ApiScope[] }, { key: string }>(functions, "createApiKey");
+            const result = await create({ name, scopes });
+            return result.data.key;
+        } catch (error) {
+            console.error("Error creating API key:", error);
+            throw error;
+        }
+    },
+
+    revokeApiKey: async (keyId: string): Promise<void> => {
+        try {
+            const revoke = httpsCallable(functions, "revokeApiKey");
+            await revoke({ keyId });
+        } catch (error) {
+            console.error("Error revoking API key:", error);
+            throw error;
+        }
+    }
+};
@@ -0,0 +1,264 @@
+import { collection, doc, getDoc, getDocs, query, where, runTransaction, serverTimestamp, deleteField, setDoc, Timestamp, DocumentData } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/lib/firebase";
+
+/**
+ * Card registry.
+ * Every physical card is a single `cards/{cardId}` doc, resolved by both /c/:cardId
+ * and the legacy /t/:nfcId route. The doc moves through:
+ * minted -> assigned (to an order) -> claimed (by a user) -> active <-> suspended,
+ * and can be revoked from any state.
+ */
+export type CardStatus = "minted" | "assigned" | "claimed" | "active" | "suspended" | "revoked";
+
+export interface Card {
+    id: string;
+    status: CardStatus;
+    uid?: string;
+    orderId?: string;
+    label?: string;
+    personaId?: string; // Persona the card opens; unset means the main profile
+    source?: "minted" | "legacy_nfc" | "legacy_link";
+    mintedBy?: string;
+    mintedAt?: Timestamp;
+    assignedAt?: Timestamp;
+    claimedAt?: Timestamp;
+    activatedAt?: Timestamp;
+    suspendedAt?: Timestamp;
+    suspendReason?: "lost" | "admin";
+    replacementOrderId?: string;
+    revokedAt?: Timestamp;
+}
+
+// Allowed lifecycle moves. Releasing a card (unlink) returns it to "assigned" or "minted".
+export const CARD_TRANSITIONS: Record<CardStatus, CardStatus[]> = {
+    minted: ["assigned", "claimed", "revoked"],
+    assigned: ["claimed", "revoked"],
+    claimed: ["active", "suspended", "assigned", "minted", "revoked"],
+    active: ["suspended", "assigned", "minted", "revoked"],
+    suspended: ["active", "revoked"],
+    revoked: []
+};
+
+// One row per card returned by the admin `bindCardsToOrders` function.
+// `claimCode` is only present right after minting; it's never stored in plain text.
+export interface FulfilledCard {
+    orderId: string;
+    userId?: string;
+    recipient?: string;
+    cardId?: string;
+    claimCode?: string | null;
+    error?: string;
+}
+
+const CARD_URL_PATTERN = /^(?:https?:\/\/)?(?:www\.)?nxcbadge\.com\/[ct]\/([a-zA-Z0-9]+)\/?$/;
+const CARD_ID_PATTERN = /^[a-zA-Z0-9]+$/;
+
+const CARDS_COLLECTION = "cards";
+
+// Cards written before the registry only carry `uid`; those were live links.
+const toCard = (id: string, data: DocumentData): Card => ({
+    ...data,
+    id,
+    status: data.status || (data.uid ? "active" : "minted")
+} as Card);
+
+const assertTransition = (from: CardStatus, to: CardStatus) => {
+    if (!CARD_TRANSITIONS[from].includes(to)) {
+        throw new Error(`Card cannot move from ${from} to ${to}.`);
+    }
+};
+
+export const cardService = {
+    /**
+     * Accepts a card URL (nxcbadge.com/c/abc123) or a bare card ID and returns the ID.
+     */
+    parseCardId: (input: string): string | null => {
+        const value = input.trim();
+        const match = value.match(CARD_URL_PATTERN);
+        if (match) return match[1];
+        return CARD_ID_PATTERN.test(value) ? value : null;
+    },
+
+    getCardUrl: (cardId: string) => `nxcbadge.com/c/${cardId}`,
+
+    getCard: async (cardId: string): Promise<Card | null> => {
+        try {
+            const snap = await getDoc(doc(db, CARDS_COLLECTION, cardId));
+            return snap.exists() ? toCard(snap.id, snap.data()) : null;
+        } catch (error) {
+            console.error("Error fetching card:", error);
+            throw error;
+        }
+    },
+
+    getUserCards: async (uid: string): Promise<Card[]> => {
+        try {
+            const q = query(collection(db, CARDS_COLLECTION), where("uid", "==", uid));
+            const snapshot = await getDocs(q);
+            const cards = snapshot.docs
+                .map(d => toCard(d.id, d.data()))
+                .filter(card => card.status !== "revoked");
+
+            // Client-side sort to avoid needing a composite index
+            cards.sort((a, b) => (b.claimedAt?.seconds || 0) - (a.claimedAt?.seconds || 0));
+            return cards;
+        } catch (error) {
+            console.error("Error fetching user cards:", error);
+            throw error;
+        }
+    },
+
+    /**
+     * Binds a card to the user via the `claimCard` function, which checks the one-time
+     * claim code printed on the card (or its box) inside a transaction. No code is needed
+     * for cards assigned to the user's order or re-linking a card they released.
+     */
+    claimCard: async (cardId: string, claimCode = ""): Promise<Card> => {
+        try {
+            const claim = httpsCallable<{ cardId: string; claimCode: string }, { cardId: string; status: CardStatus }>(functions, "claimCard");
+            await claim({ cardId, claimCode });
+            const card = await cardService.getCard(cardId);
+            if (!card) throw new Error("Card not found.");
+            return card;
+        } catch (error) {
+            console.error("Error claiming card:", error);
+            throw error;
+        }
+    },
+
+    /**
+     * Moves the old `users/{uid}/cards` link docs into the registry (migrateLegacyCardLinks function).
+     * Links that can't be moved (e.g. someone else owns the card) are left in place.
+     */
+    migrateLegacyLinks: async (): Promise<number> => {
+        try {
+            const migrate = httpsCallable<void, { migrated: number }>(functions, "migrateLegacyCardLinks");
+            const result = await migrate();
+            return result.data.migrated;
+        } catch (error) {
+            console.error("Error migrating legacy card links:", error);
+            throw error;
+        }
+    },
+
+    /**
+     * Makes a claimed (or suspended) card resolve to its owner's profile.
+     */
+    activateCard: async (uid: string, cardId: string): Promise<void> => {
+        await cardService.transitionCard(uid, cardId, "active", { activatedAt: serverTimestamp() });
+    },
+
+    /**
+     * Marks a lost/stolen card as suspended. Taps then land on the neutral
+     * /card-suspended page instead of the profile. Re-activating undoes it.
+     */
+    reportLost: async (uid: string, cardId: string): Promise<void> => {
+        await cardService.transitionCard(uid, cardId, "suspended", {
+            suspendedAt: serverTimestamp(),
+            suspendReason: "lost"
+        });
+    },
+
+    /**
+     * Unlinks a card from the user so it stops resolving. Order-bound cards go back to "assigned";
+     * others return to "minted". Claim codes are single use, so only the releasing account can
+     * link a minted card again; anyone else needs support to issue a new code.
+     */
+    releaseCard: async (uid: string, cardId: string): Promise<void> => {
+        const cardRef = doc(db, CARDS_COLLECTION, cardId);
+        try {
+            await runTransaction(db, async (transaction) => {
+                const snap = await transaction.get(cardRef);
+                if (!snap.exists()) throw new Error("Card not found.");
+                const card = toCard(snap.id, snap.data());
+                if (card.uid !== uid) throw new Error("You do not own this card.");
+
+                const next: CardStatus = card.orderId ? "assigned" : "minted";
+                assertTransition(card.status, next);
+                transaction.update(cardRef, {
+                    status: next,
+                    uid: card.orderId ? card.uid : deleteField(),
+                    claimedAt: deleteField(),
+                    activatedAt: deleteField()
+                });
+            });
+        } catch (error) {
+            console.error("Error releasing card:", error);
+            throw error;
+        }
+    },
+
+    /**
+     * Points a card at one of the owner's personas. Pass null for the main profile.
+     */
+    setCardPersona: async (uid: string, cardId: string, personaId: string | null): Promise<void> => {
+        const cardRef = doc(db, CARDS_COLLECTION, cardId);
+        try {
+            await runTransaction(db, async (transaction) => {
+                const snap = await transaction.get(cardRef);
+                if (!snap.exists()) throw new Error("Card not found.");
+                if (snap.data().uid !== uid) throw new Error("You do not own this card.");
+                transaction.update(cardRef, { personaId: personaId || deleteField() });
+            });
+        } catch (error) {
+            console.error("Error routing card to persona:", error);
+            throw error;
+        }
+    },
+
+    /**
+     * Generic owner-checked status change used by the lifecycle helpers.
+     */
+    transitionCard: async (uid: string, cardId: string, to: CardStatus, extra: Record<string, unknown> = {}): Promise<void> => {
+        const cardRef = doc(db, CARDS_COLLECTION, cardId);
+        try {
+            await runTransaction(db, async (transaction) => {
+                const snap = await transaction.get(cardRef);
+                if (!snap.exists()) throw new Error("Card not found.");
+                const card = toCard(snap.id, snap.data());
+                if (card.uid !== uid) throw new Error("You do not own this card.");
+
+                assertTransition(card.status, to);
+                transaction.update(cardRef, { status: to, ...extra });
+            });
+        } catch (error) {
+            console.error(`Error moving card to ${to}:`, error);
+            throw error;
+        }
+    },
+
+    /**
+     * Admin: mints a card per order, binds it to the order and buyer, and returns
+     * the claim codes for printing. Orders that already have a card come back without one.
+     */
+    bindCardsToOrders: async (orderIds: string[]): Promise<FulfilledCard[]> => {
+        try {
+            const bind = httpsCallable<{ orderIds: string[] }, { cards: FulfilledCard[] }>(functions, "bindCardsToOrders");
+            const result = await bind({ orderIds });
+            return result.data.cards;
+        } catch (error) {
+            console.error("Error binding cards to orders:", error);
+            throw error;
+        }
+    },
+
+    /**
+     * Registers a user's legacy `nfcId` as a card so /t/:nfcId resolves through the registry.
+     */
+    registerLegacyNfcCard: async (uid: string, nfcId: string): Promise<void> => {
+        try {
+            await setDoc(doc(db, CARDS_COLLECTION, nfcId), {
+                uid,
+                status: "active",
+                source: "legacy_nfc",
+                mintedAt: serverTimestamp(),
+                claimedAt: serverTimestamp(),
+                activatedAt: serverTimestamp()
+            }, { merge: true });
+        } catch (error) {
+            console.error("Error registering legacy NFC card:", error);
+            throw error;
+        }
+    }
+};
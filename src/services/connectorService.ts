@@ -0,0 +1,160 @@
+import { collection, doc, getDocs, addDoc, updateDoc, deleteDoc, query, orderBy, limit, serverTimestamp, Timestamp } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/lib/firebase";
+
+/**
+ * CRM connectors in users/{uid}/connectors. Contacts are pushed by the
+ * pushContactsToCrm function (or autoSyncNewContact for new ones), which maps
+ * fields, retries failed requests and writes each attempt to the connector's
+ * sync_log. Pushes count against the plan's monthly exports.
+ */
+export type ConnectorType = "hubspot" | "salesforce" | "webhook";
+
+// Contact values a field map can send (must match CONTACT_SOURCE_FIELDS in functions)
+export type ContactSourceField =
+    "name" | "firstName" | "lastName" | "email" | "phone" | "company" | "title" | "location" | "notes" | "tags" | "stage" | "source" | "savedAt";
+
+export const CONTACT_SOURCE_FIELDS: { id: ContactSourceField; label: string }[] = [
+    { id: "name", label: "Full name" },
+    { id: "firstName", label: "First name" },
+    { id: "lastName", label: "Last name" },
+    { id: "email", label: "Email" },
+    { id: "phone", label: "Phone" },
+    { id: "company", label: "Company" },
+    { id: "title", label: "Title" },
+    { id: "location", label: "Location" },
+    { id: "notes", label: "Notes" },
+    { id: "tags", label: "Tags" },
+    { id: "stage", label: "Pipeline stage" },
+    { id: "source", label: "Source" },
+    { id: "savedAt", label: "Saved date" },
+];
+
+export const CONNECTOR_TYPES: Record<ConnectorType, {
+    label: string;
+    baseUrl: string;
+    keyLabel: string;
+    fieldMap: Record<string, ContactSourceField>; // CRM field -> contact field
+}> = {
+    hubspot: {
+        label: "HubSpot",
+        baseUrl: "https://api.hubapi.com",
+        keyLabel: "Private app access token",
+        fieldMap: { email: "email", firstname: "firstName", lastname: "lastName", phone: "phone", company: "company", jobtitle: "title", city: "location" }
+    },
+    salesforce: {
+        label: "Salesforce",
+        baseUrl: "https://yourcompany.my.salesforce.com",
+        keyLabel: "Access token",
+        fieldMap: { FirstName: "firstName", LastName: "lastName", Email: "email", Phone: "phone", Title: "title", MailingCity: "location", Description: "notes" }
+    },
+    webhook: {
+        label: "Webhook",
+        baseUrl: "https://",
+        keyLabel: "Signing secret (optional)",
+        fieldMap: { name: "name", email: "email", phone: "phone", company: "company", title: "title", location: "location", tags: "tags", stage: "stage" }
+    }
+};
+
+export interface Connector {
+    id: string;
+    type: ConnectorType;
+    name: string;
+    baseUrl: string;
+    apiKey: string;
+    fieldMap: Record<string, ContactSourceField>;
+    autoSync: boolean; // Push every new contact as it arrives
+    enabled: boolean;
+    lastSyncAt?: Timestamp;
+    lastSyncStatus?: "success" | "partial" | "failed";
+    createdAt?: Timestamp;
+}
+
+export interface SyncLogEntry {
+    id: string;
+    contactId: string;
+    contactName: string;
+    status: "success" | "failed";
+    httpStatus: number;
+    attempts: number;
+    error: string;
+    externalId: string;
+    trigger: "manual" | "auto";
+    at?: Timestamp;
+}
+
+export type ConnectorInput = Omit<Connector, "id" | "lastSyncAt" | "lastSyncStatus" | "createdAt">;
+
+const connectorsRef = (uid: string) => collection(db, "users", uid, "connectors");
+
+export const connectorService = {
+    newConnector: (type: ConnectorType): ConnectorInput => ({
+        type,
+        name: CONNECTOR_TYPES[type].label,
+        baseUrl: CONNECTOR_TYPES[type].baseUrl,
+        apiKey: "",
+        fieldMap: { ...CONNECTOR_TYPES[type].fieldMap },
+        autoSync: false,
+        enabled: true
+    }),
+
+    getConnectors: async (uid: string): Promise<Connector[]> => {
+        try {
+            const snapshot = await getDocs(query(connectorsRef(uid), orderBy("createdAt", "asc")));
+            return snapshot.docs.map(d => ({ ...d.data(), id: d.id } as Connector));
+        } catch (error) {
+            console.error("Error fetching connectors:", error);
+            throw error;
+        }
+    },
+
+    createConnector: async (uid: string, data: ConnectorInput): Promise<string> => {
+        try {
+            const ref = await addDoc(connectorsRef(uid), { ...data, createdAt: serverTimestamp() });
+            return ref.id;
+        } catch (error) {
+            console.error("Error creating connector:", error);
+            throw error;
+        }
+    },
+
+    updateConnector: async (uid: string, connectorId: string, data: Partial<ConnectorInput>) => {
+        try {
+            await updateDoc(doc(connectorsRef(uid), connectorId), data);
+        } catch (error) {
+            console.error("Error updating connector:", error);
+            throw error;
+        }
+    },
+
+    deleteConnector: async (uid: string, connectorId: string) => {
+        try {
+            await deleteDoc(doc(connectorsRef(uid), connectorId));
+        } catch (error) {
+            console.error("Error deleting connector:", error);
+            throw error;
+        }
+    },
+
+    // Most recent attempts first
+    getSyncLog: async (uid: string, connectorId: string, max = 25): Promise<SyncLogEntry[]> => {
+        try {
+            const snapshot = await getDocs(query(collection(connectorsRef(uid), connectorId, "sync_log"), orderBy("at", "desc"), limit(max)));
+            return snapshot.docs.map(d => ({ ...d.data(), id: d.id } as SyncLogEntry));
+        } catch (error) {
+            console.error("Error fetching sync log:", error);
+            throw error;
+        }
+    },
+
+    pushContacts: async (connectorId: string, contactIds: string[]): Promise<{ pushed: number; failed: number }> => {
+        try {
+            const push = httpsCallable<{ connectorId: string; contactIds: string[] }, { pushed: number; failed: number }>(functions, "pushContactsToCrm");
+            const result = await push({ connectorId, contactIds });
+            return result.data;
+        } catch (error) {
+            console.error("Error pushing contacts to CRM:", error);
+            throw error;
+        }
+    }
+};
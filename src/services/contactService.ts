@@ -0,0 +1,324 @@
+import { collection, doc, updateDoc, writeBatch, arrayUnion, arrayRemove, serverTimestamp, Timestamp, DocumentData } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import type { LeadAnswer } from "@/services/leadService";
+import type { VCardData } from "@/lib/vcard";
+import { normalizeEmail, toE164 } from "@/lib/contactMatching";
+
+/**
+ * Lightweight CRM on top of users/{uid}/contacts: tags, private notes, a pipeline
+ * stage and a follow-up date per contact. The dashboard keeps contacts in a live
+ * listener, so updates here show up without refetching.
+ */
+export type PipelineStage = "new" | "contacted" | "meeting" | "won" | "lost";
+
+export const PIPELINE_STAGES: { id: PipelineStage; label: string; color: string }[] = [
+    { id: "new", label: "New", color: "bg-primary" },
+    { id: "contacted", label: "Contacted", color: "bg-accent" },
+    { id: "meeting", label: "Meeting", color: "bg-warning" },
+    { id: "won", label: "Won", color: "bg-success" },
+    { id: "lost", label: "Lost", color: "bg-muted-foreground" },
+];
+
+export interface ContactNote {
+    id: string;
+    text: string;
+    createdAt: Timestamp;
+}
+
+// One refresh from the saved profile (written by the syncSavedContacts function)
+export interface ProfileChange {
+    at: Timestamp;
+    changes: { field: string; from: string; to: string }[];
+}
+
+export interface Contact {
+    id: string;
+    name: string;
+    email: string;
+    phone: string;
+    company: string;
+    location: string;
+    source: string;
+    savedAt: Date;
+    notes?: string;
+    title?: string;
+    photoURL?: string;
+    links?: string[];
+    originalProfileId?: string; // Link back to public profile
+    isLead?: boolean; // Left their details through the lead capture form
+    answers?: LeadAnswer[]; // Answers to the owner's lead form questions
+    tags: string[];
+    stage: PipelineStage;
+    followUpAt: Date | null;
+    privateNotes: ContactNote[]; // Oldest first
+    profileUpdatedAt: Date | null; // Last refresh from the original profile
+    profileChanges: ProfileChange[]; // Oldest first
+}
+
+export const MAX_TAG_LENGTH = 30;
+export const MAX_NOTE_LENGTH = 2000;
+export const RECENT_UPDATE_DAYS = 7;
+
+const contactRef = (uid: string, contactId: string) => doc(db, "users", uid, "contacts", contactId);
+
+// Same normalized email or E.164 phone (see contactMatching)
+const dedupeKeys = (contact: { email?: string; phone?: string; name?: string }) => {
+    const keys: string[] = [];
+    const email = normalizeEmail(contact.email);
+    const phone = toE164(contact.phone);
+    if (email) keys.push(`email:${email}`);
+    if (phone) keys.push(`phone:${phone}`);
+    if (keys.length === 0 && contact.name) keys.push(`name:${contact.name.trim().toLowerCase()}`);
+    return keys;
+};
+
+// Fields picked from one contact or another in the merge screen
+export const MERGE_FIELDS = [
+    { key: "name", label: "Name" },
+    { key: "email", label: "Email" },
+    { key: "phone", label: "Phone" },
+    { key: "company", label: "Company" },
+    { key: "title", label: "Title" },
+    { key: "location", label: "Location" },
+    { key: "notes", label: "Notes" },
+    { key: "photoURL", label: "Photo" },
+] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number]["key"];
+export type MergePicks = Partial<Record<MergeField, string>>; // field -> id of the contact to take it from
+
+const STAGE_ORDER: PipelineStage[] = ["new", "contacted", "meeting", "won"];
+
+const endOfToday = () => {
+    const end = new Date();
+    end.setHours(23, 59, 59, 999);
+    return end;
+};
+
+export const contactService = {
+    // Raw contact doc (from the dashboard listener) -> Contact with defaults filled in
+    toContact: (data: DocumentData): Contact => ({
+        id: data.id,
+        name: data.name || "Unknown Contact",
+        email: data.email || "",
+        phone: data.phone || "",
+        company: data.company || "",
+        location: data.location || "",
+        source: data.source || "web",
+        savedAt: data.savedAt?.toDate ? data.savedAt.toDate() : new Date(),
+        notes: data.notes || "",
+        title: data.title || "",
+        photoURL: data.photoURL || "",
+        links: data.links || [],
+        originalProfileId: data.originalProfileId || "",
+        isLead: !!data.isLead,
+        answers: data.answers || [],
+        tags: data.tags || [],
+        stage: PIPELINE_STAGES.some(s => s.id === data.stage) ? data.stage : "new",
+        followUpAt: data.followUpAt?.toDate ? data.followUpAt.toDate() : null,
+        privateNotes: data.privateNotes || [],
+        profileUpdatedAt: data.profileUpdatedAt?.toDate ? data.profileUpdatedAt.toDate() : null,
+        profileChanges: data.profileChanges || []
+    }),
+
+    normalizeTag: (tag: string) => tag.trim().replace(/\s+/g, " ").slice(0, MAX_TAG_LENGTH),
+
+    // Follow-ups due by the end of today, including overdue ones, soonest first
+    getDueFollowUps: (contacts: Contact[]): Contact[] => {
+        const end = endOfToday().getTime();
+        return contacts
+            .filter(c => c.followUpAt && c.followUpAt.getTime() <= end && c.stage !== "won" && c.stage !== "lost")
+            .sort((a, b) => (a.followUpAt as Date).getTime() - (b.followUpAt as Date).getTime());
+    },
+
+    isOverdue: (contact: Contact) => {
+        if (!contact.followUpAt) return false;
+        const startOfToday = new Date();
+        startOfToday.setHours(0, 0, 0, 0);
+        return contact.followUpAt.getTime() < startOfToday.getTime();
+    },
+
+    // The original profile changed in the last few days
+    isRecentlyUpdated: (contact: Contact) =>
+        !!contact.profileUpdatedAt && Date.now() - contact.profileUpdatedAt.getTime() < RECENT_UPDATE_DAYS * 24 * 60 * 60 * 1000,
+
+    toVCard: (contact: Contact): VCardData => ({
+        name: contact.name,
+        email: contact.email,
+        phone: contact.phone,
+        company: contact.company,
+        title: contact.title,
+        location: contact.location,
+        photo: contact.photoURL,
+        urls: [
+            ...(contact.originalProfileId ? [`${window.location.origin}/u/${contact.originalProfileId}`] : []),
+            ...(contact.links || [])
+        ],
+        note: contact.notes,
+        categories: contact.tags
+    }),
+
+    /**
+     * Drops cards that match an existing contact (or an earlier card in the same file)
+     * by email or phone. Returns what's left and how many were skipped.
+     */
+    dedupeImports: (cards: VCardData[], existing: Contact[]) => {
+        const seen = new Set(existing.flatMap(dedupeKeys));
+        const fresh: VCardData[] = [];
+        cards.forEach(card => {
+            const keys = dedupeKeys(card);
+            if (keys.some(key => seen.has(key))) return;
+            keys.forEach(key => seen.add(key));
+            fresh.push(card);
+        });
+        return { fresh, duplicates: cards.length - fresh.length };
+    },
+
+    // Writes imported cards as contacts, in batches under Firestore's 500-write limit
+    importContacts: async (uid: string, cards: VCardData[]): Promise<number> => {
+        try {
+            for (let i = 0; i < cards.length; i += 400) {
+                const batch = writeBatch(db);
+                cards.slice(i, i + 400).forEach(card => {
+                    batch.set(doc(collection(db, "users", uid, "contacts")), {
+                        name: card.name.slice(0, 100),
+                        email: card.email || "",
+                        phone: card.phone || "",
+                        company: card.company || "",
+                        title: card.title || "",
+                        location: card.location || "",
+                        photoURL: card.photo || "",
+                        notes: (card.note || "").slice(0, 1000),
+                        links: (card.urls || []).slice(0, 5),
+                        tags: (card.categories || []).map(contactService.normalizeTag).filter(Boolean).slice(0, 10),
+                        source: "import",
+                        savedAt: serverTimestamp()
+                    });
+                });
+                await batch.commit();
+            }
+            return cards.length;
+        } catch (error) {
+            console.error("Error importing contacts:", error);
+            throw error;
+        }
+    },
+
+    /**
+     * Automatic merge policy: keep the contact saved from a public profile (its doc id
+     * is what PublicProfile writes to, so re-saving won't bring the duplicate back),
+     * otherwise the oldest one.
+     */
+    pickPrimary: (contacts: Contact[]): Contact =>
+        [...contacts].sort((a, b) =>
+            Number(!!b.originalProfileId) - Number(!!a.originalProfileId) || a.savedAt.getTime() - b.savedAt.getTime()
+        )[0],
+
+    // Per field: the primary's value, or the first other contact (oldest first) that has one
+    defaultPicks: (contacts: Contact[], primaryId: string): MergePicks => {
+        const ordered = [...contacts].sort((a, b) =>
+            Number(b.id === primaryId) - Number(a.id === primaryId) || a.savedAt.getTime() - b.savedAt.getTime()
+        );
+        return Object.fromEntries(MERGE_FIELDS.map(({ key }) => [key, (ordered.find(c => c[key]) || ordered[0]).id]));
+    },
+
+    /**
+     * Folds `contacts` into the primary: picked fields, every tag, note, link and lead
+     * answer, the furthest pipeline stage, the earliest follow-up and the original
+     * saved date. The others are deleted; the countImportedContacts function takes any
+     * imported ones among them off the usage count through `mergedFrom`.
+     * The merge is written to the contact saved from a public profile when there is one,
+     * even if another contact was picked as primary: PublicProfile re-saves and profile
+     * sync both find the contact by that doc.
+     */
+    mergeContacts: async (uid: string, contacts: Contact[], primaryId: string, picks: MergePicks = contactService.defaultPicks(contacts, primaryId)): Promise<void> => {
+        const primary = contacts.find(c => c.id === primaryId);
+        if (!primary || contacts.length < 2) return;
+        const isProfileKeyed = (c: Contact) =>
+            !!c.originalProfileId && (c.id === c.originalProfileId || c.id.startsWith(`${c.originalProfileId}_`));
+        const target = [primary, ...contacts].find(isProfileKeyed) || primary;
+        const others = contacts.filter(c => c.id !== target.id);
+
+        const fields = Object.fromEntries(MERGE_FIELDS.map(({ key }) => {
+            const source = contacts.find(c => c.id === picks[key]) || primary;
+            return [key, source[key] || ""];
+        }));
+        const open = contacts.filter(c => c.stage !== "lost");
+        const stage = open.length === 0 ? "lost" : STAGE_ORDER[Math.max(...open.map(c => STAGE_ORDER.indexOf(c.stage)))];
+        const followUps = contacts.map(c => c.followUpAt?.getTime()).filter((t): t is number => !!t);
+        const answers = new Map<string, LeadAnswer>();
+        contacts.forEach(c => c.answers?.forEach(a => answers.has(a.fieldId) || answers.set(a.fieldId, a)));
+
+        try {
+            const batch = writeBatch(db);
+            batch.set(contactRef(uid, target.id), {
+                ...fields,
+                tags: Array.from(new Set(contacts.flatMap(c => c.tags))),
+                links: Array.from(new Set(contacts.flatMap(c => c.links || []))),
+                answers: Array.from(answers.values()),
+                privateNotes: contacts.flatMap(c => c.privateNotes).sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis()),
+                stage,
+                followUpAt: followUps.length > 0 ? Timestamp.fromMillis(Math.min(...followUps)) : null,
+                savedAt: Timestamp.fromDate(new Date(Math.min(...contacts.map(c => c.savedAt.getTime())))),
+                isLead: contacts.some(c => c.isLead),
+                mergedFrom: arrayUnion(...others.map(c => c.id))
+            }, { merge: true });
+            others.forEach(c => batch.delete(contactRef(uid, c.id)));
+            await batch.commit();
+        } catch (error) {
+            console.error("Error merging contacts:", error);
+            throw error;
+        }
+    },
+
+    setStage: async (uid: string, contactId: string, stage: PipelineStage): Promise<void> => {
+        try {
+            await updateDoc(contactRef(uid, contactId), { stage });
+        } catch (error) {
+            console.error("Error updating contact stage:", error);
+            throw error;
+        }
+    },
+
+    setTags: async (uid: string, contactId: string, tags: string[]): Promise<void> => {
+        const unique = Array.from(new Set(tags.map(contactService.normalizeTag).filter(Boolean)));
+        try {
+            await updateDoc(contactRef(uid, contactId), { tags: unique });
+        } catch (error) {
+            console.error("Error updating contact tags:", error);
+            throw error;
+        }
+    },
+
+    // null clears the reminder
+    setFollowUp: async (uid: string, contactId: string, date: Date | null): Promise<void> => {
+        try {
+            await updateDoc(contactRef(uid, contactId), { followUpAt: date ? Timestamp.fromDate(date) : null });
+        } catch (error) {
+            console.error("Error updating follow-up:", error);
+            throw error;
+        }
+    },
+
+    addNote: async (uid: string, contactId: string, text: string): Promise<void> => {
+        const body = text.trim().slice(0, MAX_NOTE_LENGTH);
+        if (!body) throw new Error("Please enter a note.");
+        // serverTimestamp() isn't allowed inside arrays, so notes use the client clock
+        const note: ContactNote = { id: `note_${Date.now()}`, text: body, createdAt: Timestamp.now() };
+        try {
+            await updateDoc(contactRef(uid, contactId), { privateNotes: arrayUnion(note) });
+        } catch (error) {
+            console.error("Error adding note:", error);
+            throw error;
+        }
+    },
+
+    deleteNote: async (uid: string, contactId: string, note: ContactNote): Promise<void> => {
+        try {
+            await updateDoc(contactRef(uid, contactId), { privateNotes: arrayRemove(note) });
+        } catch (error) {
+            console.error("Error deleting note:", error);
+            throw error;
+        }
+    }
+};
@@ -0,0 +1,38 @@
+/**
+ * Field model shared by the forms people fill in: the admin FormBuilder's order
+ * customization forms (forms/{planId}) and profile owners' lead form questions
+ * (users/{uid}.leadForm.customFields).
+ */
+export type FormFieldType = 'text' | 'image' | 'textarea' | 'email' | 'phone' | 'radio' | 'mcq';
+
+export interface FormField {
+    id: string;
+    label: string;
+    type: FormFieldType;
+    required: boolean;
+    placeholder?: string;
+    options?: string[]; // radio / mcq only
+}
+
+export const FORM_FIELD_TYPES: { value: FormFieldType; label: string }[] = [
+    { value: "text", label: "Text Input" },
+    { value: "textarea", label: "Long Text / Bio" },
+    { value: "image", label: "Image Upload" },
+    { value: "email", label: "Email" },
+    { value: "phone", label: "Phone" },
+    { value: "radio", label: "Radio Select (Single Answer)" },
+    { value: "mcq", label: "MCQ (Single Answer)" },
+];
+
+export const formService = {
+    createField: (): FormField => ({
+        id: `field_${Date.now()}`,
+        label: "New Field",
+        type: "text",
+        required: true,
+        placeholder: "",
+        options: []
+    }),
+
+    hasOptions: (field: Pick<FormField, "type">) => field.type === "radio" || field.type === "mcq"
+};
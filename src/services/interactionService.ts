@@ -1,13 +1,85 @@
 import { collection, addDoc, query, where, getDocs, serverTimestamp, doc, updateDoc, deleteDoc } from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/lib/firebase";
+
+const UTM_KEYS = ["source", "medium", "campaign", "term", "content", "id"] as const; // utm_id carries the share link code
+
+/**
+ * Context attached to every interaction under `metadata`. Device and location come
+ * from the describeVisitor function (taps get the same fields in resolveCard).
+ */
+export interface InteractionMetadata {
+    device?: "mobile" | "tablet" | "desktop" | "bot";
+    os?: string;
+    browser?: string;
+    city?: string;
+    country?: string;
+    location?: string;
+    referrer?: string; // Referring host, e.g. "www.linkedin.com"
+    utm?: Partial<Record<typeof UTM_KEYS[number], string>>;
+}
+
+const VISITOR_CONTEXT_KEY = "nxc_visitor_context";
+const CAMPAIGN_KEY = "nxc_campaign";
+
+// Looked up once per browser session
+const getVisitorContext = async (): Promise<InteractionMetadata> => {
+    const cached = sessionStorage.getItem(VISITOR_CONTEXT_KEY);
+    if (cached) return JSON.parse(cached);
+    try {
+        const describe = httpsCallable<void, InteractionMetadata>(functions, "describeVisitor");
+        const result = await describe();
+        sessionStorage.setItem(VISITOR_CONTEXT_KEY, JSON.stringify(result.data));
+        return result.data;
+    } catch (error) {
+        console.warn("Could not describe visitor:", error);
+        return {};
+    }
+};
+
+const getVisitorMetadata = async (profileId: string): Promise<InteractionMetadata> => {
+    const metadata: InteractionMetadata = { ...(await getVisitorContext()) };
+
+    const params = new URLSearchParams(window.location.search);
+    const utm: InteractionMetadata["utm"] = {};
+    UTM_KEYS.forEach(key => {
+        const value = params.get(`utm_${key}`);
+        if (value) utm[key] = value.slice(0, 100);
+    });
+    // Remember the tags for the session so a save after login or a reload is still attributed.
+    // Kept per profile, so a campaign link to one profile doesn't tag visits to others.
+    const campaignKey = `${CAMPAIGN_KEY}_${profileId}`;
+    if (Object.keys(utm).length > 0) {
+        sessionStorage.setItem(campaignKey, JSON.stringify(utm));
+        metadata.utm = utm;
+    } else {
+        const stored = sessionStorage.getItem(campaignKey);
+        if (stored) metadata.utm = JSON.parse(stored);
+    }
+
+    // External referrers only; in-app navigation isn't a traffic source
+    try {
+        const referrerHost = document.referrer ? new URL(document.referrer).hostname : "";
+        if (referrerHost && referrerHost !== window.location.hostname) metadata.referrer = referrerHost;
+    } catch {
+        // Malformed referrer, ignore
+    }
+
+    return metadata;
+};
 
 export interface Interaction {
     id: string;
     profileId: string;
-    type: "view" | "tap" | "contact_saved" | "message";
+    type: "view" | "tap" | "contact_saved" | "link_click" | "message";
     visitorId?: string;
     timestamp: any;
-    metadata?: any;
+    metadata?: InteractionMetadata & Record<string, unknown>;
+    // For link clicks
+    linkKind?: "link" | "portfolio";
+    linkId?: string;
+    linkTitle?: string;
+    linkUrl?: string;
     // For messages
     name?: string;
     email?: string;
@@ -18,10 +90,12 @@ export interface Interaction {
 export const interactionService = {
     logInteraction: async (profileId: string, type: string, extraData: any = {}) => {
         try {
+            const visitorMetadata = await getVisitorMetadata(profileId);
             await addDoc(collection(db, "users", profileId, "interactions"), {
                 type,
                 timestamp: serverTimestamp(),
                 ...extraData,
+                metadata: { ...visitorMetadata, ...(extraData.metadata || {}) },
                 read: false
             });
         } catch (error) {
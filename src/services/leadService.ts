@@ -0,0 +1,96 @@
+import { httpsCallable } from "firebase/functions";
+import { functions } from "@/lib/firebase";
+import { storageService } from "@/services/storageService";
+import { FormField } from "@/services/formService";
+
+/**
+ * "Share your details" form on public profiles. Owners configure it in `leadForm` on
+ * their user doc; anonymous visitors submit through the submitLead function, which
+ * checks the form token, honeypot and per-IP rate limit before saving the lead to
+ * the owner's contacts. Owners can add their own questions using the FormBuilder field
+ * model; answers are saved on the contact as `answers`.
+ */
+export type LeadOptionalField = "phone" | "company" | "note";
+
+export interface LeadFormConfig {
+    enabled: boolean;
+    title: string;
+    fields: Record<LeadOptionalField, boolean>; // Optional fields shown next to name and email
+    consentText: string;
+    customFields: FormField[];
+}
+
+// Answer to one of the owner's questions, with the question as it was asked
+export interface LeadAnswer {
+    fieldId: string;
+    label: string;
+    type: FormField["type"];
+    value: string; // Image answers are the uploaded file's URL
+}
+
+export interface LeadSubmission {
+    ownerId: string;
+    personaId?: string;
+    token: string;
+    name: string;
+    email: string;
+    phone?: string;
+    company?: string;
+    note?: string;
+    consent: boolean;
+    answers: Record<string, string>; // fieldId -> value
+    website?: string; // Honeypot, must stay empty
+}
+
+export const DEFAULT_LEAD_FORM: LeadFormConfig = {
+    enabled: false,
+    title: "Share your details",
+    fields: { phone: true, company: true, note: true },
+    consentText: "I agree to share these details so they can contact me.",
+    customFields: []
+};
+
+export const MAX_LEAD_QUESTIONS = 10;
+export const MAX_LEAD_IMAGE_SIZE = 5 * 1024 * 1024;
+
+export const leadService = {
+    // Fills in anything missing from older or partial configs
+    withDefaults: (config?: Partial<LeadFormConfig> | null): LeadFormConfig => ({
+        ...DEFAULT_LEAD_FORM,
+        ...config,
+        fields: { ...DEFAULT_LEAD_FORM.fields, ...config?.fields }
+    }),
+
+    getFormToken: async (ownerId: string): Promise<string> => {
+        try {
+            const issueToken = httpsCallable<{ ownerId: string }, { token: string }>(functions, "issueLeadFormToken");
+            const result = await issueToken({ ownerId });
+            return result.data.token;
+        } catch (error) {
+            console.error("Error getting lead form token:", error);
+            throw error;
+        }
+    },
+
+    // Visitors have no account, so uploads are allowed under their form token until it's used
+    uploadAnswerImage: async (ownerId: string, token: string, file: File): Promise<string> => {
+        if (!file.type.startsWith("image/")) throw new Error("Please choose an image.");
+        if (file.size > MAX_LEAD_IMAGE_SIZE) throw new Error("Images must be under 5 MB.");
+        try {
+            return await storageService.uploadImage(file, `lead_uploads/${ownerId}/${token}/${Date.now()}_${file.name}`);
+        } catch (error) {
+            console.error("Error uploading lead image:", error);
+            throw error;
+        }
+    },
+
+    submitLead: async (submission: LeadSubmission): Promise<void> => {
+        try {
+            const submit = httpsCallable(functions, "submitLead");
+            await submit(submission);
+        } catch (error) {
+            console.error("Error submitting lead:", error);
+            throw error;
+        }
+    }
+};
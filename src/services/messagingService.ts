@@ -0,0 +1,183 @@
+import {
+    collection, doc, getDoc, onSnapshot, query, where, orderBy, runTransaction, writeBatch, updateDoc,
+    serverTimestamp, increment, Timestamp
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { storageService } from "@/services/storageService";
+
+/**
+ * Conversations between a profile owner and a signed-in visitor. One thread per
+ * owner/visitor pair lives in conversations/{ownerId}_{visitorId}, with its messages
+ * in a `messages` subcollection. Owners block visitors through the `blocked` list on
+ * their user doc (visitor uid or email), which the rules enforce.
+ */
+export interface MessageAttachment {
+    url: string;
+    name: string;
+    contentType: string;
+    size: number;
+}
+
+export interface Message {
+    id: string;
+    senderId: string;
+    text: string;
+    attachments?: MessageAttachment[];
+    createdAt?: Timestamp;
+}
+
+export interface Participant {
+    name: string;
+    email?: string;
+    photoURL?: string;
+}
+
+export interface Conversation {
+    id: string;
+    ownerId: string;
+    visitorId: string;
+    participants: string[]; // [ownerId, visitorId]
+    personaId?: string; // Persona the visitor first wrote to
+    owner: Participant;
+    visitor: Participant;
+    lastMessage?: { text: string; senderId: string; createdAt: Timestamp };
+    unread?: Record<string, number>; // uid -> messages they haven't opened
+    lastReadAt?: Record<string, Timestamp>; // uid -> when they last opened the thread (read receipts)
+    createdAt?: Timestamp;
+    updatedAt?: Timestamp;
+}
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 3;
+export const ATTACHMENT_TYPES = "image/*,application/pdf"; // Also enforced in storage.rules
+export const MAX_MESSAGE_LENGTH = 2000;
+
+const conversationsRef = collection(db, "conversations");
+
+export const messagingService = {
+    conversationId: (ownerId: string, visitorId: string) => `${ownerId}_${visitorId}`,
+
+    // The other side of the thread, from `uid`'s point of view
+    getCounterpart: (conversation: Conversation, uid: string): Participant =>
+        conversation.ownerId === uid ? conversation.visitor : conversation.owner,
+
+    // Whether the other participant has opened the thread since the message was sent
+    isSeen: (conversation: Conversation, message: Message): boolean => {
+        const otherId = conversation.participants.find(id => id !== message.senderId);
+        const seenAt = otherId ? conversation.lastReadAt?.[otherId] : undefined;
+        return !!(seenAt && message.createdAt && seenAt.toMillis() >= message.createdAt.toMillis());
+    },
+
+    isBlocked: async (ownerId: string, visitorId: string, visitorEmail?: string | null): Promise<boolean> => {
+        try {
+            const ownerSnap = await getDoc(doc(db, "users", ownerId));
+            const blocked: string[] = ownerSnap.data()?.blocked || [];
+            return blocked.includes(visitorId) || (!!visitorEmail && blocked.includes(visitorEmail));
+        } catch (error) {
+            console.error("Error checking block list:", error);
+            throw error;
+        }
+    },
+
+    // Live list of the user's threads, newest first
+    listenToConversations: (uid: string, onChange: (conversations: Conversation[]) => void, onError?: (error: Error) => void) => {
+        const q = query(conversationsRef, where("participants", "array-contains", uid));
+        return onSnapshot(q, (snapshot) => {
+            const conversations = snapshot.docs.map(d => ({ ...d.data(), id: d.id } as Conversation));
+            // Client-side sort to avoid needing an index
+            conversations.sort((a, b) => (b.updatedAt?.toMillis() || 0) - (a.updatedAt?.toMillis() || 0));
+            onChange(conversations);
+        }, (error) => {
+            console.error("Error listening to conversations:", error);
+            onError?.(error);
+        });
+    },
+
+    listenToMessages: (conversationId: string, onChange: (messages: Message[]) => void) => {
+        const q = query(collection(db, "conversations", conversationId, "messages"), orderBy("createdAt", "asc"));
+        return onSnapshot(q, (snapshot) => {
+            onChange(snapshot.docs.map(d => ({ ...d.data(), id: d.id } as Message)));
+        }, (error) => {
+            console.error("Error listening to messages:", error);
+        });
+    },
+
+    /**
+     * Creates the visitor's thread with the owner on first contact. Returns its id.
+     */
+    startConversation: async (ownerId: string, owner: Participant, visitorId: string, visitor: Participant, personaId?: string | null): Promise<string> => {
+        const id = messagingService.conversationId(ownerId, visitorId);
+        try {
+            await runTransaction(db, async (transaction) => {
+                const ref = doc(conversationsRef, id);
+                const snap = await transaction.get(ref);
+                if (snap.exists()) return;
+                transaction.set(ref, {
+                    ownerId,
+                    visitorId,
+                    participants: [ownerId, visitorId],
+                    ...(personaId ? { personaId } : {}),
+                    owner,
+                    visitor,
+                    unread: { [ownerId]: 0, [visitorId]: 0 },
+                    createdAt: serverTimestamp(),
+                    updatedAt: serverTimestamp()
+                });
+            });
+            return id;
+        } catch (error) {
+            console.error("Error starting conversation:", error);
+            throw error;
+        }
+    },
+
+    sendMessage: async (conversation: Pick<Conversation, "id" | "participants">, senderId: string, text: string, files: File[] = []): Promise<void> => {
+        const body = text.trim().slice(0, MAX_MESSAGE_LENGTH);
+        if (!body && files.length === 0) throw new Error("Please enter a message.");
+        if (files.length > MAX_ATTACHMENTS) throw new Error(`You can attach up to ${MAX_ATTACHMENTS} files.`);
+        if (files.some(f => f.size > MAX_ATTACHMENT_SIZE)) throw new Error("Attachments must be under 10 MB.");
+        if (files.some(f => !f.type.startsWith("image/") && f.type !== "application/pdf")) throw new Error("You can attach images and PDFs.");
+
+        try {
+            const attachments: MessageAttachment[] = await Promise.all(files.map(async (file) => ({
+                url: await storageService.uploadFile(file, `conversations/${conversation.id}/${senderId}/${Date.now()}_${file.name}`),
+                name: file.name,
+                contentType: file.type || "application/octet-stream",
+                size: file.size
+            })));
+
+            const recipientId = conversation.participants.find(id => id !== senderId) as string;
+            const preview = body || `📎 ${attachments.map(a => a.name).join(", ")}`;
+            const batch = writeBatch(db);
+            batch.set(doc(collection(db, "conversations", conversation.id, "messages")), {
+                senderId,
+                text: body,
+                ...(attachments.length > 0 ? { attachments } : {}),
+                createdAt: serverTimestamp()
+            });
+            batch.update(doc(conversationsRef, conversation.id), {
+                lastMessage: { text: preview.slice(0, 140), senderId, createdAt: serverTimestamp() },
+                [`unread.${recipientId}`]: increment(1),
+                [`lastReadAt.${senderId}`]: serverTimestamp(),
+                updatedAt: serverTimestamp()
+            });
+            await batch.commit();
+        } catch (error) {
+            console.error("Error sending message:", error);
+            throw error;
+        }
+    },
+
+    // Clears the user's unread count and records the read receipt
+    markRead: async (conversationId: string, uid: string): Promise<void> => {
+        try {
+            await updateDoc(doc(conversationsRef, conversationId), {
+                [`unread.${uid}`]: 0,
+                [`lastReadAt.${uid}`]: serverTimestamp()
+            });
+        } catch (error) {
+            console.error("Error marking conversation read:", error);
+            throw error;
+        }
+    }
+};
@@ -0,0 +1,203 @@
+import { collection, doc, getDoc, getDocs, updateDoc, deleteDoc, query, where, serverTimestamp, arrayUnion, arrayRemove, Timestamp } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/lib/firebase";
+import { UserProfile } from "@/services/userService";
+
+/**
+ * Organizations group member accounts under shared branding, locked company/title
+ * fields and one pooled set of plan limits. Membership and seats only change through
+ * the organization functions; admins edit branding and locked fields directly.
+ */
+export interface OrgBranding {
+    logoUrl?: string;
+    primaryColor?: string;
+    accentColor?: string;
+    wallpaperUrl?: string;
+}
+
+export interface OrgLockedFields {
+    company?: string;          // Forced onto every member profile when set
+    titleTemplates?: string[]; // Members pick their title from this list when it's not empty
+}
+
+export interface Organization {
+    id: string;
+    name: string;
+    ownerId: string;
+    adminIds: string[];
+    memberIds: string[];
+    seats: number;
+    branding: OrgBranding;
+    lockedFields: OrgLockedFields;
+    pooledPlanIds: string[]; // Plan of every active member order, kept by a function
+    createdAt?: Timestamp;
+}
+
+export interface OrgInvite {
+    id: string;
+    orgId: string;
+    orgName: string;
+    email: string;
+    status: "pending" | "accepted" | "declined";
+    invitedBy: string;
+    createdAt?: Timestamp;
+}
+
+const ORGS_COLLECTION = "organizations";
+const INVITES_COLLECTION = "org_invites";
+
+export const organizationService = {
+    getOrganization: async (orgId: string): Promise<Organization | null> => {
+        try {
+            const snap = await getDoc(doc(db, ORGS_COLLECTION, orgId));
+            return snap.exists() ? ({ ...snap.data(), id: snap.id } as Organization) : null;
+        } catch (error) {
+            console.error("Error fetching organization:", error);
+            throw error;
+        }
+    },
+
+    createOrganization: async (name: string): Promise<string> => {
+        try {
+            const create = httpsCallable<{ name: string }, { orgId: string }>(functions, "createOrganization");
+            const result = await create({ name });
+            return result.data.orgId;
+        } catch (error) {
+            console.error("Error creating organization:", error);
+            throw error;
+        }
+    },
+
+    updateOrganization: async (orgId: string, data: Partial<Pick<Organization, "name" | "branding" | "lockedFields">>) => {
+        try {
+            await updateDoc(doc(db, ORGS_COLLECTION, orgId), { ...data, updatedAt: serverTimestamp() });
+        } catch (error) {
+            console.error("Error updating organization:", error);
+            throw error;
+        }
+    },
+
+    setMemberAdmin: async (orgId: string, memberId: string, isAdmin: boolean) => {
+        try {
+            await updateDoc(doc(db, ORGS_COLLECTION, orgId), {
+                adminIds: isAdmin ? arrayUnion(memberId) : arrayRemove(memberId),
+                updatedAt: serverTimestamp()
+            });
+        } catch (error) {
+            console.error("Error updating organization admins:", error);
+            throw error;
+        }
+    },
+
+    getMembers: async (org: Organization): Promise<UserProfile[]> => {
+        try {
+            const snaps = await Promise.all(org.memberIds.map(uid => getDoc(doc(db, "users", uid))));
+            return snaps.filter(s => s.exists()).map(s => ({ ...s.data(), uid: s.id } as UserProfile));
+        } catch (error) {
+            console.error("Error fetching organization members:", error);
+            throw error;
+        }
+    },
+
+    /**
+     * Invites by email through the `inviteOrgMember` function. Pending invites hold a seat
+     * so admins can't over-invite; the function checks that against `seats`.
+     */
+    inviteMember: async (orgId: string, email: string): Promise<void> => {
+        const normalizedEmail = email.trim().toLowerCase();
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+            throw new Error("Please enter a valid email address.");
+        }
+
+        try {
+            const invite = httpsCallable<{ orgId: string; email: string }, { inviteId: string }>(functions, "inviteOrgMember");
+            await invite({ orgId, email: normalizedEmail });
+        } catch (error) {
+            console.error("Error inviting member:", error);
+            throw error;
+        }
+    },
+
+    // Pending invites for an organization (admins)
+    getOrgInvites: async (orgId: string): Promise<OrgInvite[]> => {
+        try {
+            const q = query(collection(db, INVITES_COLLECTION), where("orgId", "==", orgId));
+            const snapshot = await getDocs(q);
+            return snapshot.docs
+                .map(d => ({ ...d.data(), id: d.id } as OrgInvite))
+                .filter(invite => invite.status === "pending");
+        } catch (error) {
+            console.error("Error fetching organization invites:", error);
+            throw error;
+        }
+    },
+
+    // Pending invites addressed to the signed-in user
+    getMyInvites: async (email: string): Promise<OrgInvite[]> => {
+        try {
+            const q = query(collection(db, INVITES_COLLECTION), where("email", "==", email.toLowerCase()));
+            const snapshot = await getDocs(q);
+            return snapshot.docs
+                .map(d => ({ ...d.data(), id: d.id } as OrgInvite))
+                .filter(invite => invite.status === "pending");
+        } catch (error) {
+            console.error("Error fetching invites:", error);
+            throw error;
+        }
+    },
+
+    acceptInvite: async (inviteId: string): Promise<void> => {
+        try {
+            const accept = httpsCallable<{ inviteId: string }, { success: boolean }>(functions, "acceptOrgInvite");
+            await accept({ inviteId });
+        } catch (error) {
+            console.error("Error accepting invite:", error);
+            throw error;
+        }
+    },
+
+    declineInvite: async (inviteId: string): Promise<void> => {
+        try {
+            await updateDoc(doc(db, INVITES_COLLECTION, inviteId), { status: "declined", respondedAt: serverTimestamp() });
+        } catch (error) {
+            console.error("Error declining invite:", error);
+            throw error;
+        }
+    },
+
+    cancelInvite: async (inviteId: string): Promise<void> => {
+        try {
+            await deleteDoc(doc(db, INVITES_COLLECTION, inviteId));
+        } catch (error) {
+            console.error("Error cancelling invite:", error);
+            throw error;
+        }
+    },
+
+    // Admin removal, or leaving when memberId is the caller
+    removeMember: async (orgId: string, memberId: string): Promise<void> => {
+        try {
+            const remove = httpsCallable<{ orgId: string; memberId: string }, { success: boolean }>(functions, "removeOrgMember");
+            await remove({ orgId, memberId });
+        } catch (error) {
+            console.error("Error removing member:", error);
+            throw error;
+        }
+    },
+
+    /**
+     * Enforces the organization's branding and locked fields on a member profile:
+     * the org wallpaper replaces the member's, `company` is forced, and a title outside
+     * the templates falls back to the first template.
+     */
+    applyOrgBranding: (profile: UserProfile, org: Organization | null): UserProfile => {
+        if (!org) return profile;
+        const { company, titleTemplates = [] } = org.lockedFields || {};
+        return {
+            ...profile,
+            coverImage: org.branding?.wallpaperUrl || profile.coverImage,
+            company: company || profile.company,
+            title: titleTemplates.length > 0 && !titleTemplates.includes(profile.title || "") ? titleTemplates[0] : profile.title
+        };
+    }
+};
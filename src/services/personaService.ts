@@ -0,0 +1,200 @@
+import { collection, doc, getDoc, getDocs, addDoc, updateDoc, runTransaction, serverTimestamp, deleteField, query, where, writeBatch, Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { UserProfile, userService } from "@/services/userService";
+
+/**
+ * Personas are extra public profiles under one account (e.g. "Work" and "Personal").
+ * The users/{uid} doc stays the default persona; each extra one lives in
+ * users/{uid}/personas/{personaId} and only overrides the fields in PERSONA_FIELDS.
+ * Cards and QR designs carry an optional `personaId` to pick which one they open.
+ */
+export const DEFAULT_PERSONA_ID = "default";
+
+export const PERSONA_FIELDS = [
+    "displayName",
+    "firstName",
+    "lastName",
+    "title",
+    "company",
+    "bio",
+    "location",
+    "phone",
+    "email",
+    "photoURL",
+    "coverImage",
+    "isWallpaperBlurred",
+    "isPublic",
+    "links",
+    "portfolioItems"
+] as const;
+
+export type PersonaFields = Pick<UserProfile, typeof PERSONA_FIELDS[number]>;
+
+export interface Persona extends PersonaFields {
+    id: string;
+    label: string;
+    username?: string;
+    createdAt?: Timestamp;
+    updatedAt?: Timestamp;
+}
+
+const personasRef = (uid: string) => collection(db, "users", uid, "personas");
+
+export const personaService = {
+    getPersonas: async (uid: string): Promise<Persona[]> => {
+        try {
+            const snapshot = await getDocs(personasRef(uid));
+            const personas = snapshot.docs.map(d => ({ ...d.data(), id: d.id } as Persona));
+            // Client-side sort to avoid needing an index
+            personas.sort((a, b) => (a.createdAt?.seconds || 0) - (b.createdAt?.seconds || 0));
+            return personas;
+        } catch (error) {
+            console.error("Error fetching personas:", error);
+            throw error;
+        }
+    },
+
+    getPersona: async (uid: string, personaId: string): Promise<Persona | null> => {
+        try {
+            const snap = await getDoc(doc(db, "users", uid, "personas", personaId));
+            return snap.exists() ? ({ ...snap.data(), id: snap.id } as Persona) : null;
+        } catch (error) {
+            console.error("Error fetching persona:", error);
+            throw error;
+        }
+    },
+
+    /**
+     * Creates a persona seeded from the main profile so it starts out looking complete.
+     * Images aren't copied, so removing one persona's photo never deletes another's file.
+     */
+    createPersona: async (uid: string, label: string, seed: Partial<UserProfile> = {}): Promise<string> => {
+        if (!label.trim()) throw new Error("Please give the profile a name.");
+        try {
+            const fields: Partial<PersonaFields> = {};
+            PERSONA_FIELDS.forEach(key => {
+                if (key === "photoURL" || key === "coverImage") return;
+                if (seed[key] !== undefined) (fields as Record<string, unknown>)[key] = seed[key];
+            });
+            const ref = await addDoc(personasRef(uid), {
+                ...fields,
+                label: label.trim(),
+                createdAt: serverTimestamp(),
+                updatedAt: serverTimestamp()
+            });
+            return ref.id;
+        } catch (error) {
+            console.error("Error creating persona:", error);
+            throw error;
+        }
+    },
+
+    updatePersona: async (uid: string, personaId: string, data: Partial<Omit<Persona, "id" | "username" | "createdAt">>) => {
+        try {
+            await updateDoc(doc(db, "users", uid, "personas", personaId), {
+                ...data,
+                updatedAt: serverTimestamp()
+            });
+        } catch (error) {
+            console.error("Error updating persona:", error);
+            throw error;
+        }
+    },
+
+    /**
+     * Same rules as userService.claimUsername, but the `usernames` entry points at the persona.
+     * Usernames share one namespace across main profiles and personas.
+     */
+    claimPersonaUsername: async (uid: string, personaId: string, username: string, role: string = "user"): Promise<void> => {
+        if (username) userService.validateUsername(username, role);
+        const normalizedUsername = username.toLowerCase();
+        const isAdminRole = role === "admin" || role === "super_admin";
+
+        try {
+            await runTransaction(db, async (transaction) => {
+                const personaRef = doc(db, "users", uid, "personas", personaId);
+                const personaDoc = await transaction.get(personaRef);
+                if (!personaDoc.exists()) throw new Error("Profile not found.");
+
+                const persona = personaDoc.data() as Persona;
+                const usernameRef = username ? doc(db, "usernames", normalizedUsername) : null;
+                const usernameDoc = usernameRef ? await transaction.get(usernameRef) : null;
+
+                if (persona.username && username && persona.username !== username && !isAdminRole) {
+                    throw new Error("You cannot change your username. You can only remove it and set a fresh one if available.");
+                }
+
+                if (usernameDoc?.exists()) {
+                    const owner = usernameDoc.data();
+                    if (owner.uid !== uid || owner.personaId !== personaId) {
+                        throw new Error("Username is already taken.");
+                    }
+                }
+
+                if (persona.username && persona.username.toLowerCase() !== normalizedUsername) {
+                    transaction.delete(doc(db, "usernames", persona.username.toLowerCase()));
+                }
+
+                if (usernameRef) {
+                    // Username docs can only be created or deleted, never overwritten
+                    if (!usernameDoc?.exists()) transaction.set(usernameRef, { uid, personaId });
+                    transaction.update(personaRef, { username, updatedAt: serverTimestamp() });
+                } else {
+                    transaction.update(personaRef, { username: deleteField(), updatedAt: serverTimestamp() });
+                }
+            });
+        } catch (error) {
+            console.error("Error claiming persona username:", error);
+            throw error;
+        }
+    },
+
+    /**
+     * Deletes a persona, frees its username and points its cards and QR designs back at the main profile.
+     */
+    deletePersona: async (uid: string, personaId: string): Promise<void> => {
+        try {
+            const persona = await personaService.getPersona(uid, personaId);
+            if (!persona) return;
+
+            const [cards, designs] = await Promise.all([
+                getDocs(query(collection(db, "cards"), where("uid", "==", uid), where("personaId", "==", personaId))),
+                getDocs(query(collection(db, "qr_codes"), where("userId", "==", uid), where("personaId", "==", personaId)))
+            ]);
+
+            // Owners may only reroute live cards; any others fall back to the main profile when tapped
+            const liveCards = cards.docs.filter(d => ["claimed", "active", "suspended"].includes(d.data().status || "active"));
+
+            const batch = writeBatch(db);
+            liveCards.forEach(d => batch.update(d.ref, { personaId: deleteField() }));
+            designs.docs.forEach(d => batch.update(d.ref, { personaId: deleteField(), data: `${window.location.origin}/u/${uid}` }));
+            if (persona.username) batch.delete(doc(db, "usernames", persona.username.toLowerCase()));
+            batch.delete(doc(db, "users", uid, "personas", personaId));
+            await batch.commit();
+        } catch (error) {
+            console.error("Error deleting persona:", error);
+            throw error;
+        }
+    },
+
+    /**
+     * Overlays a persona on the account profile. Account-level data (plan visuals,
+     * private content, ban status) always comes from the main profile.
+     */
+    applyPersona: (profile: UserProfile, persona: Persona | null): UserProfile => {
+        if (!persona) return profile;
+        const overrides: Partial<PersonaFields> = {};
+        PERSONA_FIELDS.forEach(key => {
+            if (persona[key] !== undefined) (overrides as Record<string, unknown>)[key] = persona[key];
+        });
+        return { ...profile, ...overrides, username: persona.username };
+    },
+
+    /**
+     * Path that opens a persona (or the main profile when personaId is empty).
+     */
+    getProfilePath: (uid: string, username?: string, personaId?: string | null) => {
+        if (username) return `/@${username}`;
+        return personaId && personaId !== DEFAULT_PERSONA_ID ? `/u/${uid}?persona=${personaId}` : `/u/${uid}`;
+    }
+};
@@ -34,6 +34,9 @@ export interface Plan {
     tierOrder: number; // For sorting (0=free, 10=ultra)
 }
 
+// Discounted reprint offered when a card is reported lost. Adds no limits or features.
+export const REPLACEMENT_PLAN_ID = "replacement";
+
 // Default fallback plans if Firestore is empty
 export const DEFAULT_PLANS: Plan[] = [
     {
@@ -80,6 +83,17 @@ export const DEFAULT_PLANS: Plan[] = [
         visuals: { goldRing: true, royalTexture: true },
         tierOrder: 3,
         isActive: true
+    },
+    {
+        id: REPLACEMENT_PLAN_ID,
+        name: "Replacement Card",
+        price: 199,
+        description: "Reprint of a lost or stolen card",
+        limits: { links: 0, contacts: 0, exports: 0, portfolioItems: 0, privateContentItems: 0 },
+        features: { portfolio: false, privateContent: false, customBranding: false, wallpaper: false },
+        visuals: { goldRing: false, royalTexture: false },
+        tierOrder: 99,
+        isActive: true
     }
 ];
 
@@ -0,0 +1,79 @@
+import { doc, setDoc, deleteDoc, serverTimestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+
+/**
+ * Web push subscriptions for lead and message alerts. Each browser that opts in is
+ * stored in users/{uid}/push_subscriptions/{hash of endpoint}; the
+ * sendInteractionAlert function pushes to all of them.
+ */
+const SERVICE_WORKER_URL = "/push-sw.js";
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY || "";
+
+// VAPID keys are base64url; PushManager wants the raw bytes
+const urlBase64ToUint8Array = (base64: string) => {
+    const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+    return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+};
+
+const subscriptionId = async (endpoint: string) => {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(endpoint));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("").slice(0, 40);
+};
+
+const getRegistration = () => navigator.serviceWorker.register(SERVICE_WORKER_URL);
+
+export const pushService = {
+    isSupported: (): boolean =>
+        "serviceWorker" in navigator && "PushManager" in window && "Notification" in window && !!VAPID_PUBLIC_KEY,
+
+    // Whether this browser is currently subscribed
+    isSubscribed: async (): Promise<boolean> => {
+        if (!pushService.isSupported()) return false;
+        try {
+            const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+            return !!(await registration?.pushManager.getSubscription());
+        } catch (error) {
+            console.error("Error checking push subscription:", error);
+            return false;
+        }
+    },
+
+    subscribe: async (uid: string): Promise<void> => {
+        if (!pushService.isSupported()) throw new Error("Push notifications aren't supported in this browser.");
+        try {
+            const permission = await Notification.requestPermission();
+            if (permission !== "granted") throw new Error("Notifications are blocked for this site. Allow them in your browser settings.");
+
+            const registration = await getRegistration();
+            const subscription = await registration.pushManager.subscribe({
+                userVisibleOnly: true,
+                applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY)
+            });
+            const { endpoint, keys } = subscription.toJSON();
+
+            await setDoc(doc(db, "users", uid, "push_subscriptions", await subscriptionId(endpoint || "")), {
+                endpoint,
+                keys,
+                userAgent: navigator.userAgent.slice(0, 200),
+                createdAt: serverTimestamp()
+            });
+        } catch (error) {
+            console.error("Error subscribing to push:", error);
+            throw error;
+        }
+    },
+
+    unsubscribe: async (uid: string): Promise<void> => {
+        try {
+            const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+            const subscription = await registration?.pushManager.getSubscription();
+            if (!subscription) return;
+
+            await deleteDoc(doc(db, "users", uid, "push_subscriptions", await subscriptionId(subscription.endpoint)));
+            await subscription.unsubscribe();
+        } catch (error) {
+            console.error("Error unsubscribing from push:", error);
+            throw error;
+        }
+    }
+};
@@ -1,4 +1,4 @@
-import { collection, doc, setDoc, getDocs, query, where, deleteDoc } from "firebase/firestore";
+import { collection, doc, setDoc, getDocs, query, where, deleteDoc, deleteField } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 
 export interface QRDesign {
@@ -6,6 +6,7 @@ export interface QRDesign {
     userId: string;
     name: string;
     data: string; // The content of the QR code
+    personaId?: string; // Persona the code opens; unset means the main profile
     options: any; // visual options
     createdAt?: any;
 }
@@ -48,9 +49,12 @@ export const qrService = {
         }
     },
 
-    updateQRDesign: async (id: string, updates: Partial<QRDesign>) => {
+    // personaId: null points the design back at the main profile
+    updateQRDesign: async (id: string, updates: Partial<Omit<QRDesign, "personaId">> & { personaId?: string | null }) => {
         try {
-            await setDoc(doc(db, "qr_codes", id), updates, { merge: true });
+            const { personaId, ...rest } = updates;
+            const data = personaId === undefined ? rest : { ...rest, personaId: personaId || deleteField() };
+            await setDoc(doc(db, "qr_codes", id), data, { merge: true });
         } catch (error) {
             console.error("Error updating QR design:", error);
             throw error;
@@ -0,0 +1,125 @@
+import { collection, doc, getDoc, getDocs, setDoc, deleteDoc, query, where, serverTimestamp, Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { DEFAULT_PERSONA_ID } from "@/services/personaService";
+
+/**
+ * Share links are short URLs (/s/{code}) that open a profile with UTM tags, so views
+ * and saves can be attributed to the channel the link was posted on. Docs live in
+ * share_links/{code} and are public so the short URL resolves for anyone.
+ */
+export interface ShareLink {
+    id: string; // The short code
+    uid: string;
+    personaId?: string;
+    label: string;
+    campaign: string;
+    source: string;
+    medium: string;
+    createdAt?: Timestamp;
+}
+
+export type NewShareLink = Pick<ShareLink, "label" | "campaign" | "source" | "medium" | "personaId">;
+
+// Suggested channels for the link form
+export const SHARE_LINK_SOURCES = [
+    { source: "linkedin", medium: "social", label: "LinkedIn" },
+    { source: "email", medium: "email_signature", label: "Email Signature" },
+    { source: "event", medium: "slides", label: "Event Slides" },
+    { source: "twitter", medium: "social", label: "X / Twitter" },
+    { source: "instagram", medium: "social", label: "Instagram" },
+    { source: "website", medium: "referral", label: "Website" },
+];
+
+const COLLECTION = "share_links";
+const CODE_ALPHABET = "abcdefghijkmnpqrstuvwxyz23456789"; // No look-alike characters
+const CODE_LENGTH = 7;
+
+const generateCode = () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+    return Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join("");
+};
+
+// Tags are matched in reports, so keep them lowercase and URL friendly
+const normalizeTag = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "").slice(0, 50);
+
+export const shareLinkService = {
+    getLinks: async (uid: string): Promise<ShareLink[]> => {
+        try {
+            const snapshot = await getDocs(query(collection(db, COLLECTION), where("uid", "==", uid)));
+            const links = snapshot.docs.map(d => ({ ...d.data(), id: d.id } as ShareLink));
+            // Client-side sort to avoid needing an index
+            links.sort((a, b) => (b.createdAt?.seconds || 0) - (a.createdAt?.seconds || 0));
+            return links;
+        } catch (error) {
+            console.error("Error fetching share links:", error);
+            throw error;
+        }
+    },
+
+    createLink: async (uid: string, data: NewShareLink): Promise<ShareLink> => {
+        const campaign = normalizeTag(data.campaign);
+        const source = normalizeTag(data.source);
+        if (!campaign) throw new Error("Please enter a campaign name.");
+        if (!source) throw new Error("Please pick where you'll share this link.");
+
+        try {
+            const link: Omit<ShareLink, "id" | "createdAt"> = {
+                uid,
+                label: data.label.trim() || campaign,
+                campaign,
+                source,
+                medium: normalizeTag(data.medium) || "referral",
+                ...(data.personaId && data.personaId !== DEFAULT_PERSONA_ID ? { personaId: data.personaId } : {})
+            };
+
+            // Codes are random; retry on the rare collision instead of overwriting someone's link
+            for (let attempt = 0; attempt < 3; attempt++) {
+                const code = generateCode();
+                const ref = doc(db, COLLECTION, code);
+                if ((await getDoc(ref)).exists()) continue;
+                await setDoc(ref, { ...link, createdAt: serverTimestamp() });
+                return { ...link, id: code };
+            }
+            throw new Error("Could not create a unique link. Please try again.");
+        } catch (error) {
+            console.error("Error creating share link:", error);
+            throw error;
+        }
+    },
+
+    deleteLink: async (code: string): Promise<void> => {
+        try {
+            await deleteDoc(doc(db, COLLECTION, code));
+        } catch (error) {
+            console.error("Error deleting share link:", error);
+            throw error;
+        }
+    },
+
+    getLink: async (code: string): Promise<ShareLink | null> => {
+        try {
+            const snap = await getDoc(doc(db, COLLECTION, code));
+            return snap.exists() ? ({ ...snap.data(), id: snap.id } as ShareLink) : null;
+        } catch (error) {
+            console.error("Error fetching share link:", error);
+            throw error;
+        }
+    },
+
+    getShortUrl: (code: string) => `${window.location.origin}/s/${code}`,
+
+    /**
+     * Profile path with the link's UTM tags. PublicProfile moves /u/{uid} to the
+     * username URL and keeps the query string, so the tags survive.
+     */
+    getTargetPath: (link: ShareLink) => {
+        const params = new URLSearchParams({
+            utm_source: link.source,
+            utm_medium: link.medium,
+            utm_campaign: link.campaign,
+            utm_id: link.id
+        });
+        if (link.personaId) params.set("persona", link.personaId);
+        return `/u/${link.uid}?${params.toString()}`;
+    }
+};
@@ -14,6 +14,17 @@ export const storageService = {
         }
     },
 
+    // Any file type (e.g. message attachments); same as uploadImage without the image assumption
+    uploadFile: async (file: File, path: string): Promise<string> => {
+        try {
+            const snapshot = await uploadBytes(ref(storage, path), file, { contentType: file.type });
+            return await getDownloadURL(snapshot.ref);
+        } catch (error) {
+            console.error("Error uploading file:", error);
+            throw error;
+        }
+    },
+
     deleteImage: async (url: string): Promise<void> => {
         if (!url) return;
         try {
@@ -0,0 +1,103 @@
+import { doc, getDoc, Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Organization, organizationService } from "@/services/organizationService";
+
+/**
+ * Team analytics read each member's users/{uid}/stats/main, which the hourly
+ * aggregateStats function keeps up to date (lifetime totals plus per-day counts
+ * for the last 90 days). Org admins are allowed to read it by the rules.
+ */
+export interface DailyCounts {
+    views: number;
+    taps: number;
+    contacts: number;
+}
+
+export interface MemberStats {
+    uid: string;
+    displayName: string;
+    photoURL?: string;
+    totalViews: number;
+    totalTaps: number;
+    totalContacts: number;
+    engagementRate: number;
+    daily: Record<string, DailyCounts>;
+    lastUpdated?: Timestamp;
+}
+
+export type TeamRange = 7 | 30 | 90;
+
+// UTC day keys for the last `days` days, oldest first (matches aggregateStats)
+const dayKeys = (days: number): string[] => {
+    const keys: string[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+        keys.push(new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10));
+    }
+    return keys;
+};
+
+export const teamAnalyticsService = {
+    getTeamStats: async (org: Organization): Promise<MemberStats[]> => {
+        try {
+            const members = await organizationService.getMembers(org);
+            const statsSnaps = await Promise.all(members.map(m => getDoc(doc(db, "users", m.uid, "stats", "main"))));
+
+            return members.map((member, i) => {
+                const data = statsSnaps[i].exists() ? statsSnaps[i].data() : {};
+                return {
+                    uid: member.uid,
+                    displayName: member.displayName || `${member.firstName || ""} ${member.lastName || ""}`.trim() || member.email || "Member",
+                    photoURL: member.photoURL,
+                    totalViews: data.totalViews || 0,
+                    totalTaps: data.totalTaps || 0,
+                    totalContacts: data.totalContacts || 0,
+                    engagementRate: data.engagementRate || 0,
+                    daily: data.daily || {},
+                    lastUpdated: data.lastUpdated
+                };
+            });
+        } catch (error) {
+            console.error("Error fetching team stats:", error);
+            throw error;
+        }
+    },
+
+    // Sum of one member's daily counts over the range
+    getRangeTotals: (member: MemberStats, days: TeamRange): DailyCounts => {
+        return dayKeys(days).reduce((totals, key) => {
+            const day = member.daily[key];
+            if (!day) return totals;
+            return {
+                views: totals.views + (day.views || 0),
+                taps: totals.taps + (day.taps || 0),
+                contacts: totals.contacts + (day.contacts || 0)
+            };
+        }, { views: 0, taps: 0, contacts: 0 });
+    },
+
+    // Per-day totals across the given members, for charts
+    getTrend: (members: MemberStats[], days: TeamRange): (DailyCounts & { name: string })[] => {
+        return dayKeys(days).map(key => {
+            const point = { name: key.slice(5), views: 0, taps: 0, contacts: 0 };
+            members.forEach(member => {
+                const day = member.daily[key];
+                if (!day) return;
+                point.views += day.views || 0;
+                point.taps += day.taps || 0;
+                point.contacts += day.contacts || 0;
+            });
+            return point;
+        });
+    },
+
+    toCSV: (members: MemberStats[], days: TeamRange): string => {
+        const headers = ["Member", `Views (${days}d)`, `Taps (${days}d)`, `Contacts Saved (${days}d)`, "Total Views", "Total Taps", "Total Contacts Saved", "Engagement %"];
+        const rows = members.map(member => {
+            const range = teamAnalyticsService.getRangeTotals(member, days);
+            return [member.displayName, range.views, range.taps, range.contacts, member.totalViews, member.totalTaps, member.totalContacts, member.engagementRate];
+        });
+        return [headers, ...rows]
+            .map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(","))
+            .join("\n");
+    }
+};
@@ -1,5 +1,7 @@
 import { doc, getDoc, updateDoc, setDoc, collection, getDocs, deleteDoc, query, runTransaction, where, limit, Timestamp, serverTimestamp, deleteField, increment } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { cardService } from "@/services/cardService";
+import type { LeadFormConfig } from "@/services/leadService";
 
 export interface UserProfile {
     uid: string;
@@ -34,6 +36,8 @@ export interface UserProfile {
         views?: number;
         taps?: number;
     };
+    organizationId?: string;
+    leadForm?: Partial<LeadFormConfig>;
     // Add other fields as needed
 }
 
@@ -76,33 +80,6 @@ export const userService = {
         }
     },
 
-    registerTap: async (nfcId: string, viewerUid?: string): Promise<{ uid: string; username?: string } | null> => {
-        try {
-            const usersRef = collection(db, "users");
-            const q = query(usersRef, where("nfcId", "==", nfcId), limit(1));
-            const querySnapshot = await getDocs(q);
-
-            if (!querySnapshot.empty) {
-                const docSnap = querySnapshot.docs[0];
-                const uid = docSnap.id;
-                const data = docSnap.data() as UserProfile;
-
-                // Increment taps (ONLY if not the owner)
-                if (uid !== viewerUid) {
-                    await updateDoc(docSnap.ref, {
-                        "stats.taps": increment(1)
-                    });
-                }
-
-                return { uid, username: data.username };
-            }
-            return null;
-        } catch (error) {
-            console.error("Error registering tap:", error);
-            throw error;
-        }
-    },
-
     // Username System
     checkUsernameAvailable: async (username: string): Promise<boolean> => {
         try {
@@ -154,16 +131,7 @@ export const userService = {
         // CASE 2: CLAIMING / UPDATING (Non-empty Username)
 
         // 1. Validation
-        // Regex: Alphanumeric and underscore only
-        const validFormat = /^[a-zA-Z0-9_]+$/.test(username);
-        if (!validFormat) {
-            throw new Error("Username can only contain letters, numbers, and underscores.");
-        }
-
-        // Min length: 5 chars, unless admin
-        if (role !== "admin" && role !== "super_admin" && username.length < 5) {
-            throw new Error("Username must be at least 5 characters long.");
-        }
+        userService.validateUsername(username, role);
 
         // 2. Transaction
         try {
@@ -209,9 +177,9 @@ export const userService = {
                     }
                 }
 
-                // Check if username is taken (by someone else)
+                // Check if username is taken (by someone else, or by one of this user's personas)
                 if (usernameDoc.exists()) {
-                    if (usernameDoc.data().uid !== uid) {
+                    if (usernameDoc.data().uid !== uid || usernameDoc.data().personaId) {
                         throw new Error("Username is already taken.");
                     }
                     // If it's the same user, we allow update (case change etc)
@@ -242,18 +210,43 @@ export const userService = {
         }
     },
 
+    validateUsername: (username: string, role: string = "user") => {
+        // Regex: Alphanumeric and underscore only
+        const validFormat = /^[a-zA-Z0-9_]+$/.test(username);
+        if (!validFormat) {
+            throw new Error("Username can only contain letters, numbers, and underscores.");
+        }
+
+        // Min length: 5 chars, unless admin
+        if (role !== "admin" && role !== "super_admin" && username.length < 5) {
+            throw new Error("Username must be at least 5 characters long.");
+        }
+    },
+
+    // Usernames map to a uid and, for persona usernames, a personaId
+    resolveUsername: async (username: string): Promise<{ uid: string; personaId?: string } | null> => {
+        try {
+            const usernameSnap = await getDoc(doc(db, "usernames", username.toLowerCase()));
+            if (!usernameSnap.exists()) {
+                return null;
+            }
+            const { uid, personaId } = usernameSnap.data();
+            return { uid, personaId };
+        } catch (error) {
+            console.error("Error resolving username:", error);
+            throw error;
+        }
+    },
+
     getUserByUsername: async (username: string): Promise<UserProfile | null> => {
         try {
-            const normalizedUsername = username.toLowerCase();
-            const usernameRef = doc(db, "usernames", normalizedUsername);
-            const usernameSnap = await getDoc(usernameRef);
+            const resolved = await userService.resolveUsername(username);
 
-            if (!usernameSnap.exists()) {
+            if (!resolved) {
                 return null;
             }
 
-            const uid = usernameSnap.data().uid;
-            return await userService.getUserProfile(uid);
+            return await userService.getUserProfile(resolved.uid);
         } catch (error) {
             console.error("Error fetching user by username:", error);
             throw error;
@@ -292,6 +285,8 @@ export const userService = {
             const nfcId = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 
             await updateDoc(userRef, { nfcId });
+            // Keep the card registry in step so /t/:nfcId resolves through cards/{nfcId}
+            await cardService.registerLegacyNfcCard(uid, nfcId);
             return nfcId;
         } catch (error) {
             console.error("Error ensuring NFC ID:", error);
@@ -0,0 +1,128 @@
+import { collection, doc, getDocs, addDoc, updateDoc, deleteDoc, query, orderBy, limit, serverTimestamp, Timestamp } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/lib/firebase";
+import type { Interaction } from "@/services/interactionService";
+
+/**
+ * Outgoing webhooks in users/{uid}/webhooks. The deliverInteractionWebhooks function
+ * posts each subscribed interaction as signed JSON, logs it under `deliveries` and
+ * retries failures with backoff (retryWebhookDeliveries).
+ */
+export type WebhookEvent = Interaction["type"];
+
+export const WEBHOOK_EVENTS: { id: WebhookEvent; label: string }[] = [
+    { id: "view", label: "Profile views" },
+    { id: "tap", label: "Card taps" },
+    { id: "contact_saved", label: "Contact saves" },
+    { id: "link_click", label: "Link clicks" },
+    { id: "message", label: "Messages" },
+];
+
+export interface Webhook {
+    id: string;
+    url: string;
+    description: string;
+    events: WebhookEvent[];
+    secret: string; // Signs X-NXC-Signature
+    enabled: boolean;
+    lastDeliveryAt?: Timestamp;
+    lastStatus?: WebhookDelivery["status"];
+    createdAt?: Timestamp;
+}
+
+export interface WebhookDelivery {
+    id: string;
+    event: WebhookEvent;
+    interactionId: string;
+    payload: string; // JSON body exactly as sent
+    status: "pending" | "delivered" | "retrying" | "failed";
+    attempts: number;
+    httpStatus?: number;
+    error?: string;
+    createdAt?: Timestamp;
+    lastAttemptAt?: Timestamp;
+    nextAttemptAt?: Timestamp;
+}
+
+export type WebhookInput = Pick<Webhook, "url" | "description" | "events" | "enabled">;
+
+const webhooksRef = (uid: string) => collection(db, "users", uid, "webhooks");
+
+const generateSecret = () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    return `whsec_${Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("")}`;
+};
+
+export const webhookService = {
+    getWebhooks: async (uid: string): Promise<Webhook[]> => {
+        try {
+            const snapshot = await getDocs(query(webhooksRef(uid), orderBy("createdAt", "asc")));
+            return snapshot.docs.map(d => ({ ...d.data(), id: d.id } as Webhook));
+        } catch (error) {
+            console.error("Error fetching webhooks:", error);
+            throw error;
+        }
+    },
+
+    createWebhook: async (uid: string, data: WebhookInput): Promise<string> => {
+        try {
+            const ref = await addDoc(webhooksRef(uid), { ...data, secret: generateSecret(), createdAt: serverTimestamp() });
+            return ref.id;
+        } catch (error) {
+            console.error("Error creating webhook:", error);
+            throw error;
+        }
+    },
+
+    updateWebhook: async (uid: string, webhookId: string, data: Partial<WebhookInput>) => {
+        try {
+            await updateDoc(doc(webhooksRef(uid), webhookId), data);
+        } catch (error) {
+            console.error("Error updating webhook:", error);
+            throw error;
+        }
+    },
+
+    // Old signatures stop verifying immediately, so update the receiver right after
+    rotateSecret: async (uid: string, webhookId: string): Promise<string> => {
+        try {
+            const secret = generateSecret();
+            await updateDoc(doc(webhooksRef(uid), webhookId), { secret });
+            return secret;
+        } catch (error) {
+            console.error("Error rotating webhook secret:", error);
+            throw error;
+        }
+    },
+
+    deleteWebhook: async (uid: string, webhookId: string) => {
+        try {
+            await deleteDoc(doc(webhooksRef(uid), webhookId));
+        } catch (error) {
+            console.error("Error deleting webhook:", error);
+            throw error;
+        }
+    },
+
+    // Most recent first
+    getDeliveries: async (uid: string, webhookId: string, max = 25): Promise<WebhookDelivery[]> => {
+        try {
+            const snapshot = await getDocs(query(collection(webhooksRef(uid), webhookId, "deliveries"), orderBy("createdAt", "desc"), limit(max)));
+            return snapshot.docs.map(d => ({ ...d.data(), id: d.id } as WebhookDelivery));
+        } catch (error) {
+            console.error("Error fetching webhook deliveries:", error);
+            throw error;
+        }
+    },
+
+    replayDelivery: async (webhookId: string, deliveryId: string): Promise<boolean> => {
+        try {
+            const replay = httpsCallable<{ webhookId: string; deliveryId: string }, { delivered: boolean }>(functions, "replayWebhookDelivery");
+            const result = await replay({ webhookId, deliveryId });
+            return result.data.delivered;
+        } catch (error) {
+            console.error("Error replaying webhook delivery:", error);
+            throw error;
+        }
+    }
+};